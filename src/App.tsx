@@ -1,45 +1,51 @@
 import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
 import { Homepage } from './components/Homepage';
 import { ChatInterface } from './components/ChatInterface';
 import { ChatErrorBoundary } from './components/ErrorBoundary';
-import { translations, detectLanguage } from './utils/translations';
 import { useTheme } from './hooks/useTheme';
-import './lib/translation'; // Initialize i18next
-
-type Language = keyof typeof translations;
+import { loadInterests, saveInterests } from './lib/interests';
+import { FALLBACK_LANGUAGE } from './lib/i18n';
 
 function App() {
   const [currentView, setCurrentView] = useState<'home' | 'chat'>('home');
-  const [language, setLanguage] = useState<Language>(() => detectLanguage());
+  const { i18n } = useTranslation();
+  // Detected from localStorage or the browser, changeLanguage persists the choice
+  const language = i18n.resolvedLanguage || FALLBACK_LANGUAGE;
+  const [interests, setInterests] = useState<string[]>(() => loadInterests());
   const { theme, toggleTheme } = useTheme();
 
   const handleStartChat = () => {
     setCurrentView('chat');
   };
 
+  const handleInterestsChange = (tags: string[]) => {
+    setInterests(tags);
+    saveInterests(tags);
+  };
+
   const handleBackToHome = () => {
     setCurrentView('home');
   };
 
-  const t = translations[language];
-
   return (
     <div className="App">
       {currentView === 'home' ? (
         <Homepage
           language={language}
-          onLanguageChange={(lang) => setLanguage(lang as Language)}
-          translations={t}
+          onLanguageChange={(lang) => i18n.changeLanguage(lang)}
           theme={theme}
           onThemeToggle={toggleTheme}
+          interests={interests}
+          onInterestsChange={handleInterestsChange}
           onStartChat={handleStartChat}
         />
       ) : (
         <ChatErrorBoundary onRetry={handleStartChat}>
           <ChatInterface
-            translations={t}
             onBack={handleBackToHome}
             language={language}
+            interests={interests}
           />
         </ChatErrorBoundary>
       )}
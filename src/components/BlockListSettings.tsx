@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Settings, Ban, Loader, Trash2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useBlockList } from '../hooks/useBlockList';
+
+export const BlockListSettings: React.FC = () => {
+  const { t } = useTranslation(['settings', 'common']);
+  const [isOpen, setIsOpen] = useState(false);
+  const { blockedUsers, loading, error, refresh, clearAll } = useBlockList();
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      refresh();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleClear = () => {
+    if (window.confirm(t('clearBlockListConfirm'))) {
+      clearAll();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleToggle}
+        className="p-2 rounded-lg bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600
+                   hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors
+                   shadow-sm dark:shadow-slate-900/20"
+        aria-label={t('title')}
+      >
+        <Settings className="w-5 h-5 text-gray-700 dark:text-slate-200" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full end-0 mt-2 w-72 bg-white dark:bg-slate-800 border border-gray-300
+                       dark:border-slate-600 rounded-lg shadow-lg dark:shadow-slate-900/40 z-50 p-4">
+          <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white mb-3">
+            <Ban className="w-4 h-4" />
+            {t('blockList')}
+          </h3>
+
+          {loading && (
+            <div className="flex justify-center py-4">
+              <Loader className="w-5 h-5 text-blue-500 animate-spin" />
+            </div>
+          )}
+
+          {!loading && error && (
+            <p className="text-xs text-red-500 mb-3">{error}</p>
+          )}
+
+          {!loading && !error && blockedUsers.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-slate-400">{t('blockListEmpty')}</p>
+          )}
+
+          {!loading && blockedUsers.length > 0 && (
+            <>
+              <ul className="max-h-48 overflow-y-auto space-y-1 mb-3">
+                {blockedUsers.map((blocked) => (
+                  <li
+                    key={blocked.id}
+                    className="flex items-center justify-between text-xs text-gray-600 dark:text-slate-300
+                               bg-gray-50 dark:bg-slate-700 rounded px-2 py-1"
+                  >
+                    <span>{blocked.country || t('common:unknown')} • {blocked.language}</span>
+                    <span className="opacity-70">{new Date(blocked.created_at).toLocaleDateString()}</span>
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={handleClear}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-red-500 text-white
+                           rounded-lg hover:bg-red-600 transition-colors shadow-md"
+              >
+                <Trash2 className="w-4 h-4" />
+                {t('clearBlockList')} ({blockedUsers.length})
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useEffect, useRef } from 'react';
+import { Mic, MicOff, Video, VideoOff, PhoneOff, Loader, User } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { VideoCall } from '../hooks/useVideoCall';
+
+interface CallPanelProps {
+  call: VideoCall;
+}
+
+// srcObject can't be set from JSX
+const useStreamSource = <T extends HTMLMediaElement>(stream: MediaStream | null) => {
+  const ref = useRef<T>(null);
+  useEffect(() => {
+    if (ref.current) ref.current.srcObject = stream;
+  }, [stream]);
+  return ref;
+};
+
+// Remote video (or an avatar for audio calls) with the self-view in a corner and the call controls
+export const CallPanel: React.FC<CallPanelProps> = ({ call }) => {
+  const { t } = useTranslation('chat');
+  const remoteVideoRef = useStreamSource<HTMLVideoElement>(call.remoteStream);
+  const remoteAudioRef = useStreamSource<HTMLAudioElement>(call.remoteStream);
+  const selfViewRef = useStreamSource<HTMLVideoElement>(call.localStream);
+
+  const isVideo = call.media === 'video';
+  const isConnecting = call.callState !== 'active';
+
+  const controlClass = (isOn: boolean) =>
+    `w-10 h-10 rounded-full flex items-center justify-center transition-colors ${
+      isOn ? 'bg-white/20 hover:bg-white/30 text-white' : 'bg-white text-gray-900'
+    }`;
+
+  return (
+    <div className="relative bg-slate-900 text-white rounded-2xl overflow-hidden mx-4 mt-4 shadow-lg">
+      <div className="relative aspect-video max-h-72 w-full flex items-center justify-center">
+        {isVideo ? (
+          <video ref={remoteVideoRef} autoPlay playsInline className="w-full h-full object-cover" />
+        ) : (
+          <>
+            <div className="w-20 h-20 rounded-full bg-white/10 flex items-center justify-center">
+              <User className="w-10 h-10" />
+            </div>
+            <audio ref={remoteAudioRef} autoPlay />
+          </>
+        )}
+
+        {isConnecting && (
+          <div className="absolute inset-0 flex items-center justify-center gap-2 bg-black/40 text-sm">
+            <Loader className="w-4 h-4 animate-spin" />
+            <span>{call.callState === 'outgoing' ? t('call.calling') : t('call.connecting')}</span>
+          </div>
+        )}
+
+        {/* Self-view, muted so we don't hear ourselves */}
+        {isVideo && call.localStream && (
+          <video
+            ref={selfViewRef}
+            autoPlay
+            playsInline
+            muted
+            aria-label={t('call.selfView')}
+            className={`absolute bottom-3 end-3 w-28 aspect-video object-cover rounded-lg border border-white/30 shadow-md -scale-x-100 ${
+              call.isCameraOn ? '' : 'invisible'
+            }`}
+          />
+        )}
+      </div>
+
+      <div className="flex items-center justify-center gap-3 py-3 bg-black/30">
+        <button
+          onClick={call.toggleMicrophone}
+          title={call.isMicrophoneOn ? t('call.mute') : t('call.unmute')}
+          aria-label={call.isMicrophoneOn ? t('call.mute') : t('call.unmute')}
+          className={controlClass(call.isMicrophoneOn)}
+        >
+          {call.isMicrophoneOn ? <Mic className="w-5 h-5" /> : <MicOff className="w-5 h-5" />}
+        </button>
+
+        {isVideo && (
+          <button
+            onClick={call.toggleCamera}
+            title={call.isCameraOn ? t('call.cameraOff') : t('call.cameraOn')}
+            aria-label={call.isCameraOn ? t('call.cameraOff') : t('call.cameraOn')}
+            className={controlClass(call.isCameraOn)}
+          >
+            {call.isCameraOn ? <Video className="w-5 h-5" /> : <VideoOff className="w-5 h-5" />}
+          </button>
+        )}
+
+        <button
+          onClick={call.hangUp}
+          title={t('call.hangUp')}
+          aria-label={t('call.hangUp')}
+          className="w-10 h-10 rounded-full flex items-center justify-center bg-red-500 hover:bg-red-600 transition-colors"
+        >
+          <PhoneOff className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { VideoCall } from '../hooks/useVideoCall';
+
+interface CallPrivacyNoticeProps {
+  call: VideoCall;
+}
+
+// Shown before calling and answering: a direct connection reveals the IP address to the partner
+export const CallPrivacyNotice: React.FC<CallPrivacyNoticeProps> = ({ call }) => {
+  const { t } = useTranslation('chat');
+  const isHidden = call.canRelay && call.isRelayOnly;
+
+  return (
+    <div className="flex flex-col gap-1 text-xs opacity-90">
+      <p className="flex items-start gap-1">
+        {isHidden ? <ShieldCheck className="w-3 h-3 mt-0.5 flex-shrink-0" /> : <ShieldAlert className="w-3 h-3 mt-0.5 flex-shrink-0" />}
+        <span>{isHidden ? t('call.ipHidden') : t('call.ipWarning')}</span>
+      </p>
+      {call.canRelay && (
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={call.isRelayOnly}
+            onChange={event => call.setIsRelayOnly(event.target.checked)}
+          />
+          {t('call.relayOnly')}
+        </label>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,31 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Send, SkipForward, ArrowLeft, Loader, Globe, Volume2, MapPin, AlertCircle, Wifi, WifiOff, ArrowRight } from 'lucide-react';
+import { Send, SkipForward, ArrowLeft, Loader, Globe, Volume2, MapPin, AlertCircle, Wifi, WifiOff, ArrowRight, Sparkles, Ban, Flag, ShieldAlert, Link2Off, Timer, Check, CheckCheck, Clock, RotateCcw, Mic, MicOff, Speech, AudioLines, Headphones, SlidersHorizontal, ImagePlus, ImageOff, Phone, PhoneOff, Video, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
 import { useSupabaseChat } from '../hooks/useSupabaseChat';
-import { translateText, detectLanguage, SUPPORTED_LANGUAGES } from '../lib/translation';
+import { useTranslationSettings } from '../hooks/useTranslationSettings';
+import { useVoiceRecorder } from '../hooks/useVoiceRecorder';
+import { useDictation } from '../hooks/useDictation';
+import { useReadAloud } from '../hooks/useReadAloud';
+import { translateText, storedTranslation, getTranslationConfigError, SUPPORTED_LANGUAGES } from '../lib/translation';
+import { identifyLanguage, MIN_DETECTION_CONFIDENCE } from '../lib/languageDetection';
+import { hideLinks, loadHideLinks, saveHideLinks } from '../lib/messageFilter';
+import { loadContinuousDictation, saveContinuousDictation } from '../lib/speech';
+import { MessageStatus } from '../lib/supabase';
+import { isQueueState, StatusKey, StatusParams } from '../lib/connectionMachine';
+import { VoiceAttachment, isVoiceAttachment } from '../lib/voiceMessages';
+import { ImageAttachment, ImagePrepareError, isImageAttachment, isImageFile, prepareImage } from '../lib/imageMessages';
+import { CallMedia } from '../lib/callSignaling';
+import { ReportDialog } from './ReportDialog';
+import { CallPanel } from './CallPanel';
+import { CallPrivacyNotice } from './CallPrivacyNotice';
+import { VoiceMessagePlayer } from './VoiceMessagePlayer';
+import { ImageMessage } from './ImageMessage';
+import { SpeechSettingsPanel } from './SpeechSettingsPanel';
 
 interface ChatInterfaceProps {
-  translations: any;
   onBack: () => void;
   language: string;
+  interests: string[];
 }
 
 interface TranslatedMessage {
@@ -15,29 +34,70 @@ interface TranslatedMessage {
   content: string;
   translatedContent?: string;
   originalLanguage?: string;
+  languageConfidence?: number;
   timestamp: number;
   isTranslated?: boolean;
+  // Not translated yet, a tap asks the translator for it
+  translatesOnTap?: boolean;
+  status?: MessageStatus;
+  attachment?: VoiceAttachment;
+  image?: ImageAttachment;
 }
 
+// Ticks shown under own messages
+const MessageStatusIcon: React.FC<{ status: MessageStatus }> = ({ status }) => {
+  switch (status) {
+    case 'sending':
+      return <Clock className="w-3 h-3" />;
+    case 'sent':
+      return <Check className="w-3 h-3" />;
+    case 'delivered':
+      return <CheckCheck className="w-3 h-3" />;
+    case 'read':
+      return <CheckCheck className="w-3 h-3 text-sky-200" />;
+    default:
+      return null;
+  }
+};
+
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({
-  translations: t,
   onBack,
-  language
+  language,
+  interests
 }) => {
+  const { t } = useTranslation(['chat', 'common', 'report']);
+  // Connection context and system messages carry i18n keys set by the hooks
+  const tStatus = (key: string, params?: StatusParams) => t(key as StatusKey, params);
   const [currentMessage, setCurrentMessage] = useState('');
   const [translatedMessages, setTranslatedMessages] = useState<TranslatedMessage[]>([]);
-  const [showTranslations, setShowTranslations] = useState(true);
   const [isTranslating, setIsTranslating] = useState(false);
+  const [partnerPreview, setPartnerPreview] = useState<string | null>(null);
+  const [showReportDialog, setShowReportDialog] = useState(false);
+  const [filterNotice, setFilterNotice] = useState<'needs_confirmation' | 'blocked' | 'rate_limited' | null>(null);
+  const [hidePartnerLinks, setHidePartnerLinks] = useState(loadHideLinks);
+  const [continuousDictation, setContinuousDictation] = useState(loadContinuousDictation);
+  const [showSpeechSettings, setShowSpeechSettings] = useState(false);
+  const [isPreparingImage, setIsPreparingImage] = useState(false);
+  const [imageError, setImageError] = useState<ImagePrepareError | null>(null);
+  // Call about to be placed, waiting for the user to read the privacy notice
+  const [callPrompt, setCallPrompt] = useState<CallMedia | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // `${messageId}|${language}` pairs already written back to chat_messages
+  const savedTranslationsRef = useRef(new Set<string>());
+  // Partner messages already considered for conversation mode, read or not
+  const seenMessagesRef = useRef(new Set<string>());
 
   const {
     currentUser,
+    currentChat,
     messages,
     isConnecting,
     isConnected,
     partnerId,
     location,
     partnerLocation,
+    partnerLanguage,
     locationError,
     locationLoading,
     isIPBased,
@@ -48,27 +108,111 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     estimatedWait,
     waitTime,
     queueStats,
+    sharedInterests,
+    isPartnerTyping,
+    isOffline,
     showNextButton,
     nextButtonCountdown,
-    appState,
+    connectionState,
+    connectionContext,
     startChatWithLocation,
     sendMessage,
+    sendVoiceMessage,
+    sendImageMessage,
+    retryMessage,
+    saveTranslation,
+    translateForPartner,
+    notifyTyping,
     skipPartner,
+    blockPartner,
+    reportPartner,
     handleNextClick,
     handleRetry,
     disconnect,
-  } = useSupabaseChat(language);
+    call,
+  } = useSupabaseChat(language, interests);
+
+  const {
+    mode: translationMode,
+    cycleMode,
+    messageDisplayFor,
+    setMessageDisplay,
+    neverTranslate,
+    toggleNeverTranslate,
+  } = useTranslationSettings(currentChat?.chat_id);
+
+  const {
+    isRecording,
+    elapsedMs: recordingMs,
+    error: recorderError,
+    start: startRecording,
+    stop: stopRecording,
+    cancel: cancelRecording,
+  } = useVoiceRecorder();
+
+  // Dictated phrases are appended to whatever is already typed
+  const {
+    isSupported: isDictationAvailable,
+    isListening,
+    interimText,
+    error: dictationError,
+    start: startDictation,
+    stop: stopDictation,
+  } = useDictation(language, (text) => {
+    setCurrentMessage(previous => (previous.trim() ? `${previous.trimEnd()} ${text}` : text));
+    setFilterNotice(null);
+    notifyTyping();
+  });
+
+  // Nobody to dictate to once the chat is over
+  useEffect(() => {
+    if (!isConnected) stopDictation();
+  }, [isConnected, stopDictation]);
+
+  // Reading waits while the microphone is listening so it doesn't hear itself
+  const readAloud = useReadAloud(isListening || isRecording);
+  const { enqueue: readMessage, clear: clearReadQueue } = readAloud;
+  const conversationMode = readAloud.isSupported && readAloud.settings.conversationMode;
+
+  // Messages queued for the previous partner are not read to the next one
+  useEffect(() => {
+    clearReadQueue();
+  }, [currentChat?.chat_id, clearReadQueue]);
+
+  useEffect(() => {
+    setCallPrompt(null);
+  }, [currentChat?.chat_id]);
+
+  // Conversation mode: new partner messages are read in the user's language as they arrive
+  useEffect(() => {
+    translatedMessages.forEach(message => {
+      if (seenMessagesRef.current.has(message.id)) return;
+      seenMessagesRef.current.add(message.id);
+
+      if (!conversationMode || message.attachment || message.image) return;
+      if (message.senderId === currentUser?.id || message.senderId === 'system') return;
+
+      const text = message.translatedContent ?? message.content;
+      readMessage(
+        hidePartnerLinks ? hideLinks(text, t('filter.linkHidden')) : text,
+        message.isTranslated ? language : message.originalLanguage
+      );
+    });
+  }, [translatedMessages, conversationMode, currentUser?.id, hidePartnerLinks, language, readMessage, t]);
 
   // Auto-scroll to bottom
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [translatedMessages]);
 
-  // Process and translate messages
+  // Process and translate messages, dropping the result of a run overtaken by a newer one
   useEffect(() => {
+    let cancelled = false;
+
     const processMessages = async () => {
       if (!messages.length) {
         setTranslatedMessages([]);
+        setIsTranslating(false);
         return;
       }
 
@@ -77,42 +221,128 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       try {
         const processed = await Promise.all(
           messages.map(async (msg) => {
-            const originalLang = detectLanguage(msg.content);
+            // System notices are i18n keys, shown in the user's language without translation
+            if (msg.sender_id === 'system') {
+              return {
+                id: msg.id,
+                senderId: msg.sender_id,
+                content: msg.content,
+                timestamp: new Date(msg.created_at ?? 0).getTime(),
+                status: msg.status,
+              };
+            }
+
+            // Voice messages have no text to detect or translate
+            if (msg.kind === 'voice' && isVoiceAttachment(msg.attachment)) {
+              return {
+                id: msg.id,
+                senderId: msg.sender_id ?? '',
+                content: msg.content,
+                timestamp: new Date(msg.created_at ?? 0).getTime(),
+                status: msg.status,
+                attachment: msg.attachment,
+              };
+            }
+
+            if (msg.kind === 'image' && isImageAttachment(msg.attachment)) {
+              return {
+                id: msg.id,
+                senderId: msg.sender_id ?? '',
+                content: msg.content,
+                timestamp: new Date(msg.created_at ?? 0).getTime(),
+                status: msg.status,
+                image: msg.attachment,
+              };
+            }
+
+            const detection = identifyLanguage(msg.content);
+            const originalLang = detection.language;
             let translatedContent = msg.content;
             let isTranslated = false;
+            let translatesOnTap = false;
+
+            // Partner messages are translated unless their language is excluded here. Showing originals,
+            // only the tapped ones are sent to the translator; reading aloud needs them all.
+            if (msg.sender_id !== currentUser?.id && !neverTranslate.includes(originalLang)) {
+              const isShownTranslated = (messageDisplayFor(msg.id) ?? translationMode) !== 'original';
+              const canTranslate = detection.confidence >= MIN_DETECTION_CONFIDENCE && originalLang !== language;
+              // Translations stored by the sender are trusted, they knew the source language
+              const stored = storedTranslation(msg.translated_content, language);
+              if (stored) {
+                translatedContent = stored;
+              } else if (canTranslate && !isShownTranslated && !conversationMode) {
+                translatesOnTap = true;
+              } else if (canTranslate) {
+                try {
+                  translatedContent = await translateText(msg.content, language, originalLang);
+                } catch (error) {
+                  console.warn('Translation failed for message:', error);
+                }
+              }
+              isTranslated = translatedContent !== msg.content;
 
-            // Translate if needed and translation is enabled
-            if (showTranslations && originalLang !== language && msg.sender_id !== currentUser?.id) {
-              try {
-                translatedContent = await translateText(msg.content, language, originalLang);
-                isTranslated = translatedContent !== msg.content;
-              } catch (error) {
-                console.warn('Translation failed for message:', error);
+              const savedKey = `${msg.id}|${language}`;
+              if (!stored && isTranslated && !savedTranslationsRef.current.has(savedKey)) {
+                savedTranslationsRef.current.add(savedKey);
+                saveTranslation(msg.id, language, translatedContent);
               }
             }
 
             return {
               id: msg.id,
-              senderId: msg.sender_id,
+              senderId: msg.sender_id ?? '',
               content: msg.content,
               translatedContent: isTranslated ? translatedContent : undefined,
               originalLanguage: originalLang,
-              timestamp: new Date(msg.created_at).getTime(),
+              languageConfidence: detection.confidence,
+              timestamp: new Date(msg.created_at ?? 0).getTime(),
               isTranslated,
+              translatesOnTap,
+              status: msg.status,
             };
           })
         );
 
-        setTranslatedMessages(processed);
+        if (!cancelled) setTranslatedMessages(processed);
       } catch (error) {
         console.error('Error processing messages:', error);
       } finally {
-        setIsTranslating(false);
+        if (!cancelled) setIsTranslating(false);
       }
     };
 
     processMessages();
-  }, [messages, language, showTranslations, currentUser?.id]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [messages, language, neverTranslate, currentUser?.id, saveTranslation, translationMode, messageDisplayFor, conversationMode]);
+
+  // Preview of the draft in the partner's language, refreshed once typing pauses
+  useEffect(() => {
+    if (!currentMessage.trim() || !partnerLanguage) {
+      setPartnerPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const preview = await translateForPartner(currentMessage.trim());
+      if (!cancelled) setPartnerPreview(preview);
+    }, 600);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [currentMessage, partnerLanguage, translateForPartner]);
+
+  // Close the report dialog when the chat ends
+  useEffect(() => {
+    if (!isConnected) {
+      setShowReportDialog(false);
+    }
+  }, [isConnected]);
 
   // Initialize connection on mount
   useEffect(() => {
@@ -122,13 +352,100 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   }, [currentUser, isConnecting, startChatWithLocation]);
 
-  const handleSendMessage = async () => {
+  const showRateLimitNotice = (retryAfterMs: number) => {
+    setFilterNotice('rate_limited');
+    setTimeout(() => setFilterNotice(notice => notice === 'rate_limited' ? null : notice), retryAfterMs);
+  };
+
+  const handleSendMessage = async (confirmed: boolean = false) => {
     if (!currentMessage.trim() || !isConnected) return;
 
-    await sendMessage(currentMessage);
+    const result = await sendMessage(currentMessage, confirmed);
+    if (result.status === 'needs_confirmation' || result.status === 'blocked') {
+      setFilterNotice(result.status);
+      return;
+    }
+    if (result.status === 'rate_limited') {
+      // Keep the draft so it can be sent once the server accepts messages again
+      showRateLimitNotice(result.retryAfterMs);
+      return;
+    }
+
+    setFilterNotice(null);
     setCurrentMessage('');
   };
 
+  const handleRetryMessage = async (messageId: string) => {
+    const result = await retryMessage(messageId);
+    if (result.status === 'rate_limited') {
+      showRateLimitNotice(result.retryAfterMs);
+    }
+  };
+
+  // Push-to-talk: the recording is sent when the button is released
+  const handleRecordRelease = async () => {
+    const recording = await stopRecording();
+    if (!recording || !isConnected) return;
+
+    const result = await sendVoiceMessage(recording);
+    if (result.status === 'rate_limited') {
+      showRateLimitNotice(result.retryAfterMs);
+    }
+  };
+
+  // Picked or pasted images are stripped of their metadata and downscaled before anything is uploaded
+  const handleImageFile = async (file: File) => {
+    if (!isConnected || isPreparingImage) return;
+
+    setImageError(null);
+    setIsPreparingImage(true);
+    const { image, error } = await prepareImage(file);
+    setIsPreparingImage(false);
+    if (!image) {
+      setImageError(error);
+      return;
+    }
+
+    const result = await sendImageMessage(image);
+    if (result.status === 'rate_limited') {
+      showRateLimitNotice(result.retryAfterMs);
+    }
+  };
+
+  const handleImagePicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Picking the same file twice in a row must fire change again
+    e.target.value = '';
+    if (file) handleImageFile(file);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const file = Array.from(e.clipboardData.files).find(isImageFile);
+    if (!file) return;
+    e.preventDefault();
+    handleImageFile(file);
+  };
+
+  const toggleHidePartnerLinks = () => {
+    const next = !hidePartnerLinks;
+    setHidePartnerLinks(next);
+    saveHideLinks(next);
+  };
+
+  const toggleDictation = () => {
+    if (isListening) {
+      stopDictation();
+    } else {
+      startDictation(continuousDictation);
+    }
+  };
+
+  const toggleContinuousDictation = () => {
+    const next = !continuousDictation;
+    setContinuousDictation(next);
+    saveContinuousDictation(next);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -141,47 +458,47 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     onBack();
   };
 
-  const speakMessage = (text: string, lang?: string) => {
-    if ('speechSynthesis' in window) {
-      const utterance = new SpeechSynthesisUtterance(text);
-      if (lang) {
-        utterance.lang = lang;
-      }
-      speechSynthesis.speak(utterance);
+  const handleBlock = () => {
+    if (window.confirm(t('blockConfirm'))) {
+      blockPartner();
     }
   };
 
+  const toggleConversationMode = () => {
+    readAloud.setConversationMode(!readAloud.settings.conversationMode);
+  };
+
 
   // Show loading/search/error screens
-  if (appState.phase !== 'idle' && appState.phase !== 'connected' && !isConnected) {
+  if ((connectionState === 'locating' || connectionState === 'error' || isQueueState(connectionState)) && !isConnected) {
     return (
       <div className="h-screen bg-slate-50 dark:bg-slate-900 flex items-center justify-center">
         <div className="text-center p-8 bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-md mx-4">
           
           {/* Error State */}
-          {appState.phase === 'error' && (
+          {connectionState === 'error' && (
             <>
               <div className="w-16 h-16 bg-red-100 dark:bg-red-900/30 rounded-full flex items-center justify-center mx-auto mb-4">
                 <AlertCircle className="w-8 h-8 text-red-500 animate-pulse" />
               </div>
               <h2 className="text-xl font-semibold text-red-600 dark:text-red-400 mb-2">
-                Erreur de connexion
+                {t('connectionError')}
               </h2>
               <p className="text-gray-600 dark:text-slate-300 mb-4">
-                {appState.message}
+                {tStatus(connectionContext.message, connectionContext.params)}
               </p>
-              {appState.details && (
+              {connectionContext.details && (
                 <p className="text-xs text-gray-500 dark:text-slate-400 mb-4">
-                  {appState.details}
+                  {tStatus(connectionContext.details, connectionContext.params)}
                 </p>
               )}
-              {appState.canRetry && (
+              {connectionContext.canRetry && (
                 <button
                   onClick={handleRetry}
                   className="px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 
                              transition-colors shadow-md mb-4"
                 >
-                  Réessayer
+                  {t('common:retry')}
                 </button>
               )}
               <button
@@ -189,62 +506,57 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 className="block mx-auto text-gray-600 dark:text-slate-300 hover:text-blue-500 
                            transition-colors text-sm"
               >
-                Retour à l'accueil
+                {t('backHome')}
               </button>
             </>
           )}
           
           {/* Loading/Search States */}
-          {appState.phase !== 'error' && (
+          {connectionState !== 'error' && (
             <>
           <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center mx-auto mb-4">
-                {(appState.phase === 'loading' || appState.phase === 'geolocation') && <MapPin className="w-8 h-8 text-blue-500 animate-pulse" />}
-                {(appState.phase === 'joining_queue' || appState.phase === 'searching') && <Loader className="w-8 h-8 text-blue-500 animate-spin" />}
-                {appState.phase === 'matching' && <Globe className="w-8 h-8 text-green-500 animate-pulse" />}
-                {appState.phase === 'confirming' && <Wifi className="w-8 h-8 text-yellow-500 animate-pulse" />}
+                {connectionState === 'locating' && <MapPin className="w-8 h-8 text-blue-500 animate-pulse" />}
+                {(connectionState === 'queued' || connectionState === 'searching') && <Loader className="w-8 h-8 text-blue-500 animate-spin" />}
+                {connectionState === 'confirming' && <Wifi className="w-8 h-8 text-yellow-500 animate-pulse" />}
           </div>
           
           <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
-                {appState.phase === 'loading' && 'Chargement...'}
-                {appState.phase === 'geolocation' && 'Localisation'}
-                {appState.phase === 'joining_queue' && 'Connexion en cours'}
-                {appState.phase === 'searching' && 'Recherche de partenaire'}
-                {appState.phase === 'matching' && 'Partenaire trouvé !'}
-                {appState.phase === 'confirming' && 'Confirmation de connexion'}
+                {connectionState === 'locating' && t('status.locating')}
+                {connectionState === 'queued' && t('status.queued')}
+                {connectionState === 'searching' && t('status.searching')}
+                {connectionState === 'confirming' && t('status.confirming')}
           </h2>
           
           <p className="text-gray-600 dark:text-slate-300 mb-4">
-                {appState.message}
+                {connectionContext.message && tStatus(connectionContext.message, connectionContext.params)}
           </p>
           
-              {appState.details && (
+              {connectionContext.details && (
             <p className="text-sm text-gray-500 dark:text-slate-400 mb-4">
-                  {appState.details}
+                  {tStatus(connectionContext.details, connectionContext.params)}
             </p>
               )}
           
           {/* Enhanced dynamic progress indicators */}
           <div className="mb-4">
-                {(appState.phase === 'loading' || appState.phase === 'geolocation' || appState.phase === 'joining_queue') && (
+                {(connectionState === 'locating' || connectionState === 'queued') && (
               <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3 mb-2">
                 <div className="bg-blue-500 h-3 rounded-full transition-all duration-1000" 
                      style={{ 
-                           width: appState.phase === 'geolocation' ? '30%' : 
-                                  appState.phase === 'loading' ? '60%' : 
-                                  appState.phase === 'joining_queue' ? '90%' : '100%',
+                           width: connectionState === 'locating' ? '30%' : '90%',
                        animation: 'pulse 2s ease-in-out infinite'
                      }}>
                 </div>
               </div>
             )}
-                {appState.phase === 'searching' && (
+                {connectionState === 'searching' && (
               <div className="flex items-center justify-center gap-1 mb-2">
                 <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
                 <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
                 <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
               </div>
             )}
-                {appState.phase === 'confirming' && (
+                {connectionState === 'confirming' && (
               <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2 mb-2">
                 <div className="bg-yellow-500 h-2 rounded-full animate-pulse" style={{ width: '75%' }}></div>
               </div>
@@ -252,7 +564,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </div>
           
           {/* Progress indicators */}
-              {appState.phase === 'searching' && (
+              {connectionState === 'searching' && (
             <div className="space-y-2">
               {/* Timer display */}
               {waitTime > 0 && (
@@ -267,16 +579,16 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
               {/* Queue position */}
               {queuePosition !== null && (
                 <p className="text-sm text-blue-600 dark:text-blue-400 font-semibold">
-                  Position in queue: #{queuePosition + 1}
+                  {t('queuePosition', { position: queuePosition + 1 })}
                 </p>
               )}
               
               {queueStats && (
                 <div className="text-xs text-gray-500 dark:text-slate-400 space-y-1">
-                  <p>{queueStats.total_waiting} users online</p>
-                  {searchAttempts > 0 && <p>Search attempt: {searchAttempts}</p>}
+                  <p>{t('usersOnline', { count: queueStats.total_waiting })}</p>
+                  {searchAttempts > 0 && <p>{t('searchAttempt', { attempt: searchAttempts })}</p>}
                   {connectionQuality < 100 && (
-                    <p>Connection quality: {connectionQuality}%</p>
+                    <p>{t('connectionQuality', { quality: connectionQuality })}</p>
                   )}
                 </div>
               )}
@@ -284,14 +596,14 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
               {/* Encouraging message for long waits */}
               {waitTime > 30 && (
                 <p className="text-xs text-green-600 dark:text-green-400 animate-pulse">
-                  🌟 Hang tight! We're finding the perfect match for you...
+                  {t('hangTight')}
                 </p>
               )}
               
               {/* Auto-retry message */}
               {waitTime > 60 && (
                 <p className="text-xs text-yellow-600 dark:text-yellow-400">
-                  🌍 Expanding search globally for better matches...
+                  {t('expandingSearch')}
                 </p>
               )}
             </div>
@@ -304,7 +616,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 className="mt-6 px-4 py-2 text-gray-600 dark:text-slate-300 hover:text-blue-500 
                        transition-colors text-sm"
           >
-                Annuler
+                {t('common:cancel')}
           </button>
         </div>
       </div>
@@ -322,8 +634,8 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             className="flex items-center gap-2 text-gray-600 dark:text-slate-300 hover:text-blue-500 
                        transition-colors"
           >
-            <ArrowLeft className="w-5 h-5" />
-            <span className="hidden sm:inline">Back</span>
+            <ArrowLeft className="w-5 h-5 rtl:-scale-x-100" />
+            <span className="hidden sm:inline">{t('common:back')}</span>
           </button>
           
           <div className="flex items-center gap-4">
@@ -332,7 +644,10 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
               <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-slate-400 bg-gray-100 dark:bg-slate-700 px-3 py-1 rounded-full">
                 <MapPin className="w-4 h-4" />
                 <span className="text-xs">
-                  Partner: {partnerLocation.city || 'Unknown'}, {partnerLocation.country || 'Unknown'}
+                  {t('partnerLocation', {
+                    city: partnerLocation.city || t('common:unknown'),
+                    country: partnerLocation.country || t('common:unknown')
+                  })}
                 </span>
               </div>
             )}
@@ -342,62 +657,195 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
               {connectionError && (
                 <div className="flex items-center gap-2 text-red-500">
                   <AlertCircle className="w-4 h-4" />
-                  <span className="text-sm">Connection Error</span>
+                  <span className="text-sm">{t('connectionError')}</span>
                 </div>
               )}
               {isConnecting && (
                 <div className="flex items-center gap-2 text-yellow-500">
                   <Loader className="w-4 h-4 animate-spin" />
                   <span className="text-sm">
-                        {appState.message || t.chat.connecting}
-                        {searchAttempts > 0 && ` (Tentative ${searchAttempts})`}
+                        {connectionContext.message ? tStatus(connectionContext.message, connectionContext.params) : t('connecting')}
+                        {searchAttempts > 0 && ` (${t('searchAttempt', { attempt: searchAttempts })})`}
                   </span>
                 </div>
               )}
               {isConnected && (
                 <div className="flex items-center gap-2 text-green-500">
                   <Wifi className="w-4 h-4" />
-                  <span className="text-sm">{t.chat.connected}</span>
+                  <span className="text-sm">{t('connected')}</span>
                 </div>
               )}
               {!isConnecting && !isConnected && (
                 <div className="flex items-center gap-2 text-red-500">
                   <WifiOff className="w-4 h-4" />
-                  <span className="text-sm">{t.chat.disconnected}</span>
+                  <span className="text-sm">{t('disconnected')}</span>
                 </div>
               )}
             </div>
 
-            {/* Translation Toggle */}
+            {/* Translation display: both -> translation only -> original only */}
             <button
-              onClick={() => setShowTranslations(!showTranslations)}
+              onClick={cycleMode}
+              title={t('displayMode.hint')}
               className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-colors ${
-                showTranslations
+                translationMode !== 'original'
                   ? 'bg-blue-500 text-white'
                   : 'bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-slate-300'
               }`}
             >
               <Globe className="w-4 h-4" />
-              <span className="hidden sm:inline">
-                {showTranslations ? 'Auto-translate ON' : 'Auto-translate OFF'}
-              </span>
+              <span className="hidden sm:inline">{t(`displayMode.${translationMode}`)}</span>
             </button>
           </div>
           
-          <button
-            onClick={skipPartner}
-            disabled={!isConnected}
-            className="flex items-center gap-2 px-3 py-2 bg-blue-500 text-white rounded-lg 
-                       dark:bg-blue-600 hover:bg-blue-600 dark:hover:bg-blue-500
-                       disabled:opacity-50 disabled:cursor-not-allowed 
-                       transition-colors shadow-md dark:shadow-blue-500/20"
-          >
-            <SkipForward className="w-4 h-4" />
-            <span className="hidden sm:inline">{t.chat.skip}</span>
-          </button>
+          <div className="flex items-center gap-2">
+            {/* Optional call, the text chat stays available next to it */}
+            {call.isSupported && (
+              <>
+                <button
+                  onClick={() => setCallPrompt('audio')}
+                  disabled={!isConnected || call.callState !== 'idle'}
+                  title={t('call.startAudio')}
+                  aria-label={t('call.startAudio')}
+                  className="flex items-center gap-2 px-3 py-2 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-slate-300 rounded-lg 
+                             hover:bg-gray-300 dark:hover:bg-slate-600
+                             disabled:opacity-50 disabled:cursor-not-allowed 
+                             transition-colors"
+                >
+                  <Phone className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setCallPrompt('video')}
+                  disabled={!isConnected || call.callState !== 'idle'}
+                  title={t('call.startVideo')}
+                  aria-label={t('call.startVideo')}
+                  className="flex items-center gap-2 px-3 py-2 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-slate-300 rounded-lg 
+                             hover:bg-gray-300 dark:hover:bg-slate-600
+                             disabled:opacity-50 disabled:cursor-not-allowed 
+                             transition-colors"
+                >
+                  <Video className="w-4 h-4" />
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => setShowReportDialog(true)}
+              disabled={!isConnected}
+              className="flex items-center gap-2 px-3 py-2 bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-slate-300 rounded-lg 
+                         hover:bg-gray-300 dark:hover:bg-slate-600
+                         disabled:opacity-50 disabled:cursor-not-allowed 
+                         transition-colors"
+            >
+              <Flag className="w-4 h-4" />
+              <span className="hidden sm:inline">{t('report:button')}</span>
+            </button>
+            <button
+              onClick={handleBlock}
+              disabled={!isConnected}
+              className="flex items-center gap-2 px-3 py-2 bg-red-500 text-white rounded-lg 
+                         dark:bg-red-600 hover:bg-red-600 dark:hover:bg-red-500
+                         disabled:opacity-50 disabled:cursor-not-allowed 
+                         transition-colors shadow-md dark:shadow-red-500/20"
+            >
+              <Ban className="w-4 h-4" />
+              <span className="hidden sm:inline">{t('block')}</span>
+            </button>
+            <button
+              onClick={skipPartner}
+              disabled={!isConnected}
+              className="flex items-center gap-2 px-3 py-2 bg-blue-500 text-white rounded-lg 
+                         dark:bg-blue-600 hover:bg-blue-600 dark:hover:bg-blue-500
+                         disabled:opacity-50 disabled:cursor-not-allowed 
+                         transition-colors shadow-md dark:shadow-blue-500/20"
+            >
+              <SkipForward className="w-4 h-4 rtl:-scale-x-100" />
+              <span className="hidden sm:inline">{t('skip')}</span>
+            </button>
+          </div>
         </div>
       </div>
 
+      {/* Call in progress */}
+      {(call.callState === 'outgoing' || call.callState === 'connecting' || call.callState === 'active') && (
+        <CallPanel call={call} />
+      )}
+
+      {/* Outgoing call, placed once the user has seen the privacy notice */}
+      {callPrompt && isConnected && call.callState === 'idle' && (
+        <div className="mx-4 mt-4 flex flex-col sm:flex-row sm:items-center gap-3 bg-blue-50 dark:bg-blue-900/20 
+                       border border-blue-200 dark:border-blue-800 rounded-lg p-3 text-blue-800 dark:text-blue-200 text-sm">
+          <div className="flex flex-col gap-2 flex-1">
+            <div className="flex items-center gap-2">
+              {callPrompt === 'video' ? <Video className="w-4 h-4" /> : <Phone className="w-4 h-4" />}
+              <span>{callPrompt === 'video' ? t('call.confirmVideo') : t('call.confirmAudio')}</span>
+            </div>
+            <CallPrivacyNotice call={call} />
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setCallPrompt(null)}
+              className="flex items-center gap-1 px-3 py-1 rounded-lg bg-white dark:bg-slate-700 border border-blue-300 dark:border-blue-700 
+                         hover:bg-blue-100 dark:hover:bg-slate-600 transition-colors"
+            >
+              {t('common:cancel')}
+            </button>
+            <button
+              onClick={() => {
+                setCallPrompt(null);
+                call.startCall(callPrompt);
+              }}
+              className="flex items-center gap-1 px-3 py-1 rounded-lg bg-green-500 text-white hover:bg-green-600 transition-colors"
+            >
+              <Phone className="w-4 h-4" />
+              {t('call.call')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Incoming call */}
+      {call.callState === 'incoming' && (
+        <div className="mx-4 mt-4 flex flex-col sm:flex-row sm:items-center gap-3 bg-blue-50 dark:bg-blue-900/20 
+                       border border-blue-200 dark:border-blue-800 rounded-lg p-3 text-blue-800 dark:text-blue-200 text-sm">
+          <div className="flex flex-col gap-2 flex-1">
+            <div className="flex items-center gap-2">
+              {call.media === 'video' ? <Video className="w-4 h-4 animate-pulse" /> : <Phone className="w-4 h-4 animate-pulse" />}
+              <span>{call.media === 'video' ? t('call.incomingVideo') : t('call.incomingAudio')}</span>
+            </div>
+            <CallPrivacyNotice call={call} />
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={call.declineCall}
+              className="flex items-center gap-1 px-3 py-1 rounded-lg bg-white dark:bg-slate-700 border border-blue-300 dark:border-blue-700 
+                         hover:bg-blue-100 dark:hover:bg-slate-600 transition-colors"
+            >
+              <PhoneOff className="w-4 h-4" />
+              {t('call.decline')}
+            </button>
+            <button
+              onClick={call.acceptCall}
+              className="flex items-center gap-1 px-3 py-1 rounded-lg bg-green-500 text-white hover:bg-green-600 transition-colors"
+            >
+              <Phone className="w-4 h-4" />
+              {t('call.accept')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Why the call did not happen, the conversation goes on in text */}
+      {call.endReason && call.callState === 'idle' && (
+        <div className="mx-4 mt-4 flex items-center gap-2 bg-gray-50 dark:bg-slate-700/50 border border-gray-200 dark:border-slate-600 
+                       rounded-lg p-3 text-gray-700 dark:text-slate-200 text-sm">
+          <PhoneOff className="w-4 h-4 flex-shrink-0" />
+          <span className="flex-1">{t(`call.ended.${call.endReason}`)}</span>
+          <button onClick={call.dismissEndReason} aria-label={t('call.dismiss')} className="p-1 hover:text-blue-500">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {/* Connection Error */}
@@ -406,7 +854,18 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                          rounded-lg p-3 text-red-800 dark:text-red-200 text-sm">
             <div className="flex items-center gap-2">
               <AlertCircle className="w-4 h-4" />
-              <span>{connectionError}</span>
+              <span>{t(connectionError.key, connectionError.params)}</span>
+            </div>
+          </div>
+        )}
+
+        {/* Translation provider misconfigured, messages stay untranslated */}
+        {getTranslationConfigError() && (
+          <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 
+                         rounded-lg p-3 text-yellow-800 dark:text-yellow-200 text-sm">
+            <div className="flex items-center gap-2">
+              <Globe className="w-4 h-4" />
+              <span>{t('translationUnavailable')}</span>
             </div>
           </div>
         )}
@@ -432,20 +891,20 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             <div className="flex items-center gap-2">
               <Loader className="w-4 h-4 animate-spin" />
               <span>
-                    {appState.message || 'Connexion...'}
+                    {connectionContext.message || t('connecting')}
                 {waitTime > 0 && ` (${Math.floor(waitTime / 60)}:${(waitTime % 60).toString().padStart(2, '0')})`}
-                {searchAttempts > 0 && ` - Attempt ${searchAttempts}`}
-                {queueStats && ` - ${queueStats.total_waiting} users waiting`}
+                {searchAttempts > 0 && ` - ${t('searchAttempt', { attempt: searchAttempts })}`}
+                {queueStats && ` - ${t('usersWaiting', { count: queueStats.total_waiting })}`}
               </span>
             </div>
             {waitTime > 45 && (
               <div className="mt-2 text-xs opacity-75">
-                    Recherche en cours... Nous allons trouver quelqu'un de parfait pour vous !
+                    {t('searchingLong')}
               </div>
             )}
             {queuePosition !== null && estimatedWait && (
               <div className="mt-2 text-xs opacity-75">
-                    Position dans la file : {queuePosition + 1} • Attente estimée : {Math.round(estimatedWait)}s
+                    {t('queuePosition', { position: queuePosition + 1 })} • {t('estimatedWait', { count: Math.round(estimatedWait) })}
               </div>
             )}
           </div>
@@ -456,20 +915,37 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           <div className="bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 
                          rounded-lg p-3 text-gray-600 dark:text-gray-300 text-xs">
             <div className="flex items-center justify-between">
-              <span>Queue: {queueStats.total_waiting} waiting</span>
-              <span>Quality: {connectionQuality}%</span>
+              <span>{t('usersWaiting', { count: queueStats.total_waiting })}</span>
+              <span>{t('connectionQuality', { quality: connectionQuality })}</span>
             </div>
             <div className="flex items-center justify-between mt-1">
               {queueStats.by_continent && (
                 <span>
                   {Object.entries(queueStats.by_continent).map(([continent, count]) => (
-                    <span key={continent} className="ml-2">
+                    <span key={continent} className="ms-2">
                       {continent}: {count}
                     </span>
                   ))}
                 </span>
               )}
-              {searchAttempts > 0 && <span>Attempts: {searchAttempts}</span>}
+              {searchAttempts > 0 && <span>{t('searchAttempt', { attempt: searchAttempts })}</span>}
+            </div>
+          </div>
+        )}
+
+        {/* Shared interests icebreaker */}
+        {isConnected && sharedInterests.length > 0 && (
+          <div className="flex justify-center">
+            <div className="flex flex-wrap items-center justify-center gap-2 bg-purple-50 dark:bg-purple-900/20 
+                           border border-purple-200 dark:border-purple-800 rounded-lg px-4 py-2 
+                           text-purple-800 dark:text-purple-200 text-sm">
+              <Sparkles className="w-4 h-4" />
+              <span>{t('sharedInterests')}:</span>
+              {sharedInterests.map((tag) => (
+                <span key={tag} className="px-2 py-0.5 bg-purple-100 dark:bg-purple-800/40 rounded-full text-xs">
+                  #{tag}
+                </span>
+              ))}
             </div>
           </div>
         )}
@@ -477,9 +953,20 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         {translatedMessages.map((message) => {
           const isOwnMessage = message.senderId === currentUser?.id;
           const isSystemMessage = message.senderId === 'system';
-          const displayText = message.isTranslated && showTranslations 
-            ? message.translatedContent 
-            : message.content;
+          // A tapped message keeps its own side, the others follow the header toggle
+          const display = message.isTranslated ? messageDisplayFor(message.id) ?? translationMode : 'original';
+          const rawText = display === 'original' ? message.content : message.translatedContent;
+          const sourceLanguage = message.originalLanguage;
+          const sourceLanguageName = sourceLanguage
+            ? SUPPORTED_LANGUAGES[sourceLanguage as keyof typeof SUPPORTED_LANGUAGES] || sourceLanguage
+            : undefined;
+          const isExcluded = !!sourceLanguage && neverTranslate.includes(sourceLanguage);
+          const showSourceBadge = !!sourceLanguage && sourceLanguage !== language && (
+            message.isTranslated || isExcluded || (message.languageConfidence ?? 0) >= MIN_DETECTION_CONFIDENCE
+          );
+          const displayText = hidePartnerLinks && !isOwnMessage && !isSystemMessage && rawText
+            ? hideLinks(rawText, t('filter.linkHidden'))
+            : rawText;
 
           // System messages (like disconnection notices)
           if (isSystemMessage) {
@@ -489,7 +976,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                rounded-lg px-4 py-2 text-red-800 dark:text-red-200 text-sm">
                   <div className="flex items-center gap-2">
                     <AlertCircle className="w-4 h-4" />
-                    <span>{displayText}</span>
+                    <span dir="auto">{tStatus(message.content)}</span>
                   </div>
                 </div>
               </div>
@@ -509,36 +996,88 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
               >
                 <div className="flex items-start gap-2">
                   <div className="flex-1">
-                    <p className="text-sm">{displayText}</p>
+                    {/* Each message picks its own direction, an Arabic reply stays RTL in an English UI */}
+                    {message.attachment ? (
+                      <VoiceMessagePlayer attachment={message.attachment} isOwnMessage={isOwnMessage} userId={currentUser?.id} />
+                    ) : message.image ? (
+                      <ImageMessage attachment={message.image} isOwnMessage={isOwnMessage} userId={currentUser?.id} />
+                    ) : message.isTranslated || message.translatesOnTap ? (
+                      <p
+                        className="text-sm cursor-pointer"
+                        dir="auto"
+                        title={display === 'original' ? t('tapToShowTranslation') : t('tapToShowOriginal')}
+                        onClick={() => setMessageDisplay(message.id, display === 'original' ? 'translated' : 'original')}
+                      >
+                        {displayText}
+                      </p>
+                    ) : (
+                      <p className="text-sm" dir="auto">{displayText}</p>
+                    )}
                     
-                    {/* Show original text if translated */}
-                    {message.isTranslated && showTranslations && (
-                      <p className="text-xs opacity-70 mt-1 italic border-t border-gray-300 dark:border-slate-600 pt-1">
-                        Original: {message.content}
+                    {/* Failed send */}
+                    {isOwnMessage && message.status === 'failed' && (
+                      <button
+                        onClick={() => handleRetryMessage(message.id)}
+                        className="flex items-center gap-1 mt-1 text-xs text-red-100 hover:text-white transition-colors"
+                      >
+                        <AlertCircle className="w-3 h-3" />
+                        <span>{t('sendFailed')}</span>
+                        <RotateCcw className="w-3 h-3 ms-1" />
+                        <span className="underline">{t('retry')}</span>
+                      </button>
+                    )}
+
+                    {/* Original under the translation */}
+                    {display === 'both' && (
+                      <p className="text-xs opacity-70 mt-1 italic border-t border-gray-300 dark:border-slate-600 pt-1" dir="auto">
+                        {t('original', { text: message.content })}
                       </p>
                     )}
                     
                     <div className="flex items-center justify-between mt-1">
-                      <p className="text-xs opacity-70">
+                      <p className="flex items-center gap-1 text-xs opacity-70">
                         {new Date(message.timestamp).toLocaleTimeString()}
+                        {isOwnMessage && message.status && message.status !== 'failed' && (
+                          <MessageStatusIcon status={message.status} />
+                        )}
                       </p>
                       
-                      {/* Language indicator */}
-                      {message.originalLanguage && message.originalLanguage !== language && (
-                        <span className="text-xs opacity-60 ml-2">
-                          {SUPPORTED_LANGUAGES[message.originalLanguage as keyof typeof SUPPORTED_LANGUAGES] || message.originalLanguage}
+                      {/* Source language, partner messages can exclude it from translation for this chat */}
+                      {showSourceBadge && sourceLanguage && (
+                        <span className="flex items-center gap-1 ms-2 text-xs">
+                          <span
+                            className="px-1.5 rounded bg-black/5 dark:bg-white/10 opacity-80"
+                            title={t('sourceLanguage', { language: sourceLanguageName })}
+                          >
+                            {sourceLanguageName}
+                          </span>
+                          {!isOwnMessage && currentChat && (
+                            <button
+                              onClick={() => toggleNeverTranslate(sourceLanguage)}
+                              className="opacity-0 group-hover:opacity-70 hover:underline transition-opacity"
+                            >
+                              {isExcluded
+                                ? t('translateAgain', { language: sourceLanguageName })
+                                : t('neverTranslate', { language: sourceLanguageName })}
+                            </button>
+                          )}
                         </span>
                       )}
                     </div>
                   </div>
                   
                   {/* Text-to-speech button */}
-                  <button
-                    onClick={() => speakMessage(displayText || message.content, message.originalLanguage)}
-                    className="opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-gray-200 dark:hover:bg-slate-700 rounded"
-                  >
-                    <Volume2 className="w-3 h-3" />
-                  </button>
+                  {!message.attachment && !message.image && (
+                    <button
+                      onClick={() => readMessage(
+                        displayText || message.content,
+                        display === 'original' ? message.originalLanguage : language
+                      )}
+                      className="opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-gray-200 dark:hover:bg-slate-700 rounded"
+                    >
+                      <Volume2 className="w-3 h-3" />
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -549,7 +1088,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           <div className="flex justify-center">
             <div className="flex items-center gap-2 text-blue-500">
               <Loader className="w-4 h-4 animate-spin" />
-              <span className="text-sm">Translating...</span>
+              <span className="text-sm">{t('translating')}</span>
             </div>
           </div>
         )}
@@ -557,6 +1096,14 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         <div ref={messagesEndRef} />
       </div>
 
+      {/* Report Dialog */}
+      {showReportDialog && (
+        <ReportDialog
+          onSubmit={reportPartner}
+          onClose={() => setShowReportDialog(false)}
+        />
+      )}
+
       {/* Next Button Overlay */}
       {showNextButton && (
         <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -565,21 +1112,21 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
               <AlertCircle className="w-8 h-8 text-red-500" />
             </div>
             <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
-              User Disconnected
+              {t('partnerLeftTitle')}
             </h3>
             <p className="text-gray-600 dark:text-slate-300 mb-6">
-              Your chat partner has left the conversation.
+              {t('partnerLeftDescription')}
             </p>
             <button
               onClick={handleNextClick}
               className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-blue-500 text-white rounded-lg 
                          hover:bg-blue-600 transition-colors shadow-md"
             >
-              <ArrowRight className="w-5 h-5" />
+              <ArrowRight className="w-5 h-5 rtl:-scale-x-100" />
               {nextButtonCountdown > 0 ? (
-                <span>Next Chat ({nextButtonCountdown}s)</span>
+                <span>{t('nextIn', { count: nextButtonCountdown })}</span>
               ) : (
-                <span>Find Next Partner</span>
+                <span>{t('findNext')}</span>
               )}
             </button>
           </div>
@@ -589,13 +1136,151 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       {/* Input */}
       <div className="bg-white dark:bg-slate-800 border-t border-gray-200 dark:border-slate-700 p-4
                      shadow-lg dark:shadow-slate-900/20">
+        {/* Typing indicator */}
+        {isPartnerTyping && (
+          <div className="mb-2 flex items-center gap-2 text-xs text-gray-500 dark:text-slate-400">
+            <div className="flex gap-1">
+              <div className="w-1.5 h-1.5 bg-gray-400 dark:bg-slate-500 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
+              <div className="w-1.5 h-1.5 bg-gray-400 dark:bg-slate-500 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
+              <div className="w-1.5 h-1.5 bg-gray-400 dark:bg-slate-500 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+            </div>
+            <span>{t('partnerTyping')}</span>
+          </div>
+        )}
+
+        {/* Offline outbox notice */}
+        {isOffline && isConnected && (
+          <div className="mb-3 flex items-center gap-2 bg-gray-50 dark:bg-slate-700/50 border border-gray-200 dark:border-slate-600 
+                         rounded-lg p-3 text-gray-700 dark:text-slate-200 text-sm">
+            <WifiOff className="w-4 h-4 flex-shrink-0" />
+            <span>{t('offlineQueued')}</span>
+          </div>
+        )}
+
+        {/* Filter notices */}
+        {filterNotice === 'needs_confirmation' && (
+          <div className="mb-3 flex flex-col sm:flex-row sm:items-center gap-2 bg-yellow-50 dark:bg-yellow-900/20 
+                         border border-yellow-200 dark:border-yellow-800 rounded-lg p-3 
+                         text-yellow-800 dark:text-yellow-200 text-sm">
+            <div className="flex items-center gap-2 flex-1">
+              <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+              <span>{t('filter.personalInfoWarning')}</span>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setFilterNotice(null)}
+                className="px-3 py-1 rounded-lg bg-white dark:bg-slate-700 border border-yellow-300 dark:border-yellow-700 
+                           hover:bg-yellow-100 dark:hover:bg-slate-600 transition-colors"
+              >
+                {t('filter.edit')}
+              </button>
+              <button
+                onClick={() => handleSendMessage(true)}
+                className="px-3 py-1 rounded-lg bg-yellow-500 text-white hover:bg-yellow-600 transition-colors"
+              >
+                {t('filter.sendAnyway')}
+              </button>
+            </div>
+          </div>
+        )}
+        {filterNotice === 'blocked' && (
+          <div className="mb-3 flex items-center gap-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 
+                         rounded-lg p-3 text-red-800 dark:text-red-200 text-sm">
+            <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+            <span>{t('filter.blocked')}</span>
+          </div>
+        )}
+        {filterNotice === 'rate_limited' && (
+          <div className="mb-3 flex items-center gap-2 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 
+                         rounded-lg p-3 text-orange-800 dark:text-orange-200 text-sm">
+            <Timer className="w-4 h-4 flex-shrink-0" />
+            <span>{t('filter.slowDown')}</span>
+          </div>
+        )}
+
+        {/* Voice recording */}
+        {isRecording && (
+          <div className="mb-3 flex items-center gap-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 
+                         rounded-lg p-3 text-red-800 dark:text-red-200 text-sm">
+            <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse flex-shrink-0" />
+            <span className="tabular-nums">
+              {Math.floor(recordingMs / 60000)}:{Math.floor((recordingMs % 60000) / 1000).toString().padStart(2, '0')}
+            </span>
+            <span>{t('voice.recording')}</span>
+          </div>
+        )}
+        {recorderError && !isRecording && (
+          <div className="mb-3 flex items-center gap-2 bg-gray-50 dark:bg-slate-700/50 border border-gray-200 dark:border-slate-600 
+                         rounded-lg p-3 text-gray-700 dark:text-slate-200 text-sm">
+            <MicOff className="w-4 h-4 flex-shrink-0" />
+            <span>{t(`voice.errors.${recorderError}`)}</span>
+          </div>
+        )}
+
+        {imageError && (
+          <div className="mb-3 flex items-center gap-2 bg-gray-50 dark:bg-slate-700/50 border border-gray-200 dark:border-slate-600 
+                         rounded-lg p-3 text-gray-700 dark:text-slate-200 text-sm">
+            <ImageOff className="w-4 h-4 flex-shrink-0" />
+            <span className="flex-1">{t(`image.errors.${imageError}`)}</span>
+            <button onClick={() => setImageError(null)} aria-label={t('image.dismiss')} className="p-1 hover:text-blue-500">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {/* Read-aloud voice */}
+        {showSpeechSettings && readAloud.isSupported && (
+          <SpeechSettingsPanel readAloud={readAloud} language={language} onClose={() => setShowSpeechSettings(false)} />
+        )}
+
+        {/* Dictation */}
+        {isListening && (
+          <div className="mb-2 flex items-start gap-2 text-xs text-gray-600 dark:text-slate-300">
+            <span className="w-2 h-2 mt-1 rounded-full bg-blue-500 animate-pulse flex-shrink-0" />
+            {interimText ? (
+              <span className="italic" dir="auto">{interimText}</span>
+            ) : (
+              <span>{t('dictation.listening')}</span>
+            )}
+          </div>
+        )}
+        {dictationError && !isListening && (
+          <div className="mb-3 flex items-center gap-2 bg-gray-50 dark:bg-slate-700/50 border border-gray-200 dark:border-slate-600 
+                         rounded-lg p-3 text-gray-700 dark:text-slate-200 text-sm">
+            <MicOff className="w-4 h-4 flex-shrink-0" />
+            <span>{t(`dictation.errors.${dictationError}`)}</span>
+          </div>
+        )}
+
+        {/* What the partner will see */}
+        {partnerPreview && partnerLanguage && currentMessage.trim() && (
+          <div className="mb-2 flex items-start gap-2 text-xs text-gray-600 dark:text-slate-300">
+            <Globe className="w-3 h-3 mt-0.5 flex-shrink-0" />
+            <span>
+              <span className="font-medium">
+                {t('partnerPreview')} ({SUPPORTED_LANGUAGES[partnerLanguage as keyof typeof SUPPORTED_LANGUAGES] || partnerLanguage}):
+              </span>{' '}
+              <span className="italic" dir="auto">{partnerPreview}</span>
+            </span>
+          </div>
+        )}
+
         <div className="flex gap-2">
           <input
             type="text"
+            dir="auto"
             value={currentMessage}
-            onChange={(e) => setCurrentMessage(e.target.value)}
+            onChange={(e) => {
+              setCurrentMessage(e.target.value);
+              setFilterNotice(null);
+              readAloud.holdForTyping();
+              if (e.target.value.trim()) {
+                notifyTyping();
+              }
+            }}
             onKeyPress={handleKeyPress}
-            placeholder={t.chat.typeMessage}
+            onPaste={handlePaste}
+            placeholder={t('typeMessage')}
             disabled={!isConnected}
             className="flex-1 px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg 
                        bg-gray-50 dark:bg-slate-700 text-gray-900 dark:text-slate-100 
@@ -603,31 +1288,135 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                        focus:outline-none focus:ring-2 focus:ring-blue-500 
                        disabled:opacity-50 disabled:cursor-not-allowed"
           />
+          <input
+            ref={imageInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handleImagePicked}
+            className="hidden"
+          />
           <button
-            onClick={handleSendMessage}
+            onClick={() => imageInputRef.current?.click()}
+            disabled={!isConnected || isPreparingImage}
+            title={t('image.send')}
+            aria-label={t('image.send')}
+            className="px-3 py-2 rounded-lg transition-colors bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-slate-300 
+                       hover:bg-gray-300 dark:hover:bg-slate-600
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isPreparingImage ? <Loader className="w-5 h-5 animate-spin" /> : <ImagePlus className="w-5 h-5" />}
+          </button>
+          <button
+            onPointerDown={(e) => {
+              e.preventDefault();
+              startRecording();
+            }}
+            onPointerUp={handleRecordRelease}
+            onPointerLeave={() => isRecording && cancelRecording()}
+            onContextMenu={(e) => e.preventDefault()}
+            disabled={!isConnected || isListening}
+            title={t('voice.hold')}
+            aria-label={t('voice.hold')}
+            className={`px-3 py-2 rounded-lg transition-colors select-none touch-none
+                       disabled:opacity-50 disabled:cursor-not-allowed ${
+              isRecording
+                ? 'bg-red-500 text-white'
+                : 'bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-slate-300 hover:bg-gray-300 dark:hover:bg-slate-600'
+            }`}
+          >
+            <Mic className="w-5 h-5" />
+          </button>
+          {isDictationAvailable && (
+            <button
+              onClick={toggleDictation}
+              disabled={!isConnected || isRecording}
+              title={isListening ? t('dictation.stop') : t('dictation.start')}
+              aria-label={isListening ? t('dictation.stop') : t('dictation.start')}
+              aria-pressed={isListening}
+              className={`px-3 py-2 rounded-lg transition-colors
+                         disabled:opacity-50 disabled:cursor-not-allowed ${
+                isListening
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-slate-300 hover:bg-gray-300 dark:hover:bg-slate-600'
+              }`}
+            >
+              <Speech className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={() => handleSendMessage()}
             disabled={!currentMessage.trim() || !isConnected}
             className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 
                        dark:bg-blue-600 dark:hover:bg-blue-500
                        disabled:opacity-50 disabled:cursor-not-allowed transition-colors
                        shadow-md dark:shadow-blue-500/20"
           >
-            <Send className="w-5 h-5" />
+            <Send className="w-5 h-5 rtl:-scale-x-100" />
           </button>
         </div>
         
         {/* Connection info */}
-        <div className="mt-2 flex items-center justify-between text-xs text-gray-500 dark:text-slate-400">
+        <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-xs text-gray-500 dark:text-slate-400">
           {/* Your location */}
           {location && (
             <div className="flex items-center gap-1">
               <MapPin className="w-3 h-3" />
               <span>
-                You: {location.city}, {location.country}
-                {isIPBased && <span className="text-orange-500 ml-1">(IP-based)</span>}
+                {t('yourLocation', { city: location.city, country: location.country })}
+                {isIPBased && <span className="text-orange-500 ms-1">{t('ipBased')}</span>}
               </span>
             </div>
           )}
           
+          {/* Hide partner links */}
+          <button
+            onClick={toggleHidePartnerLinks}
+            className={`flex items-center gap-1 transition-colors ${
+              hidePartnerLinks ? 'text-blue-500' : 'hover:text-blue-500'
+            }`}
+          >
+            <Link2Off className="w-3 h-3" />
+            <span>{t('filter.hideLinks')}: {hidePartnerLinks ? t('common:on') : t('common:off')}</span>
+          </button>
+
+          {/* Hands-free: partner messages are read aloud */}
+          {readAloud.isSupported && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={toggleConversationMode}
+                title={t('readAloud.conversationModeHint')}
+                className={`flex items-center gap-1 transition-colors ${
+                  conversationMode ? 'text-blue-500' : 'hover:text-blue-500'
+                }`}
+              >
+                <Headphones className={`w-3 h-3 ${conversationMode && readAloud.isSpeaking && !readAloud.isPaused ? 'animate-pulse' : ''}`} />
+                <span>{t('readAloud.conversationMode')}: {conversationMode ? t('common:on') : t('common:off')}</span>
+              </button>
+              <button
+                onClick={() => setShowSpeechSettings(!showSpeechSettings)}
+                title={t('readAloud.settings')}
+                aria-label={t('readAloud.settings')}
+                aria-expanded={showSpeechSettings}
+                className={`transition-colors ${showSpeechSettings ? 'text-blue-500' : 'hover:text-blue-500'}`}
+              >
+                <SlidersHorizontal className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+
+          {/* Keep dictating across pauses */}
+          {isDictationAvailable && (
+            <button
+              onClick={toggleContinuousDictation}
+              className={`flex items-center gap-1 transition-colors ${
+                continuousDictation ? 'text-blue-500' : 'hover:text-blue-500'
+              }`}
+            >
+              <AudioLines className="w-3 h-3" />
+              <span>{t('dictation.continuous')}: {continuousDictation ? t('common:on') : t('common:off')}</span>
+            </button>
+          )}
+
           {/* Language */}
           <div className="flex items-center gap-1">
             <span>🌐 {SUPPORTED_LANGUAGES[language as keyof typeof SUPPORTED_LANGUAGES]}</span>
@@ -1,5 +1,7 @@
 import React, { Component, ReactNode } from 'react';
 import { AlertCircle, RefreshCw } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import i18n from '../lib/i18n';
 
 interface Props {
   children: ReactNode;
@@ -68,16 +70,16 @@ export class ErrorBoundary extends Component<Props, State> {
             </div>
             
             <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
-              Application Error
+              {i18n.t('errors.appTitle')}
             </h2>
             
             <p className="text-gray-600 dark:text-slate-300 mb-4">
-              {this.state.error?.message || 'Something went wrong'}
+              {this.state.error?.message || i18n.t('errors.generic')}
             </p>
             
             {process.env.NODE_ENV === 'development' && this.state.errorInfo && (
-              <details className="text-left text-xs text-gray-500 dark:text-slate-400 mb-4 bg-gray-50 dark:bg-slate-700 p-3 rounded">
-                <summary className="cursor-pointer font-medium">Error Details</summary>
+              <details className="text-start text-xs text-gray-500 dark:text-slate-400 mb-4 bg-gray-50 dark:bg-slate-700 p-3 rounded">
+                <summary className="cursor-pointer font-medium">{i18n.t('errors.details')}</summary>
                 <pre className="mt-2 whitespace-pre-wrap">
                   {this.state.error?.stack}
                 </pre>
@@ -90,7 +92,7 @@ export class ErrorBoundary extends Component<Props, State> {
                          hover:bg-blue-600 transition-colors shadow-md"
             >
               <RefreshCw className="w-5 h-5" />
-              Retry
+              {i18n.t('retry')}
             </button>
           </div>
         </div>
@@ -108,6 +110,8 @@ interface ChatErrorBoundaryProps {
 }
 
 export const ChatErrorBoundary: React.FC<ChatErrorBoundaryProps> = ({ children, onRetry }) => {
+  const { t } = useTranslation();
+
   return (
     <ErrorBoundary
       fallback={(error, retry) => (
@@ -118,11 +122,11 @@ export const ChatErrorBoundary: React.FC<ChatErrorBoundaryProps> = ({ children,
             </div>
             
             <h2 className="text-xl font-semibold text-red-600 dark:text-red-400 mb-2">
-              Chat Error
+              {t('errors.chatTitle')}
             </h2>
             
             <p className="text-gray-600 dark:text-slate-300 mb-6">
-              {error.message || 'Chat initialization failed'}
+              {error.message || t('errors.chatFailed')}
             </p>
             
             <div className="space-y-3">
@@ -135,7 +139,7 @@ export const ChatErrorBoundary: React.FC<ChatErrorBoundaryProps> = ({ children,
                            hover:bg-blue-600 transition-colors shadow-md"
               >
                 <RefreshCw className="w-5 h-5" />
-                Retry Chat
+                {t('errors.retryChat')}
               </button>
               
               <button
@@ -143,7 +147,7 @@ export const ChatErrorBoundary: React.FC<ChatErrorBoundaryProps> = ({ children,
                 className="w-full px-6 py-3 text-gray-600 dark:text-slate-300 hover:text-blue-500 
                            transition-colors text-sm"
               >
-                Reload Page
+                {t('reloadPage')}
               </button>
             </div>
           </div>
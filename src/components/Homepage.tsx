@@ -1,41 +1,48 @@
 import React from 'react';
 import { MessageCircle, Shield, Zap, Globe, Play } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
 import { RotatingGlobe } from './RotatingGlobe';
 import { LanguageSelector } from './LanguageSelector';
 import { ThemeToggle } from './ThemeToggle';
+import { InterestTagsInput } from './InterestTagsInput';
+import { BlockListSettings } from './BlockListSettings';
 
 interface HomepageProps {
   language: string;
   onLanguageChange: (lang: string) => void;
-  translations: any;
   theme: 'light' | 'dark';
   onThemeToggle: () => void;
+  interests: string[];
+  onInterestsChange: (interests: string[]) => void;
   onStartChat: () => void;
 }
 
 export const Homepage: React.FC<HomepageProps> = ({
   language,
   onLanguageChange,
-  translations: t,
   theme,
   onThemeToggle,
+  interests,
+  onInterestsChange,
   onStartChat
 }) => {
+  const { t } = useTranslation('home');
+
   const features = [
     {
       icon: Shield,
-      title: t.features.anonymous,
-      description: 'No registration required. Complete privacy guaranteed.'
+      title: t('features.anonymous'),
+      description: t('features.anonymousDescription')
     },
     {
       icon: Zap,
-      title: t.features.instant,
-      description: 'Connect with someone new in seconds.'
+      title: t('features.instant'),
+      description: t('features.instantDescription')
     },
     {
       icon: Globe,
-      title: t.features.global,
-      description: 'Chat with people from around the world.'
+      title: t('features.global'),
+      description: t('features.globalDescription')
     }
   ];
 
@@ -53,13 +60,14 @@ export const Homepage: React.FC<HomepageProps> = ({
           </div>
           <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 
                          dark:from-blue-400 dark:to-purple-400 bg-clip-text text-transparent">
-            {t.title}
+            {t('title')}
           </h1>
         </div>
         
         <div className="flex items-center gap-3">
           <LanguageSelector currentLanguage={language} onLanguageChange={onLanguageChange} />
           <ThemeToggle theme={theme} onToggle={onThemeToggle} />
+          <BlockListSettings />
         </div>
       </header>
 
@@ -68,13 +76,20 @@ export const Homepage: React.FC<HomepageProps> = ({
         <div className="text-center max-w-4xl mx-auto">
           <h2 className="text-4xl md:text-6xl font-bold text-gray-900 dark:text-slate-100 mb-6 
                          leading-tight">
-            {t.slogan}
+            {t('slogan')}
           </h2>
           
           <p className="text-xl text-gray-600 dark:text-slate-300 mb-12 max-w-2xl mx-auto">
-            {t.description}
+            {t('description')}
           </p>
           
+          <div className="mb-10">
+            <InterestTagsInput
+              interests={interests}
+              onChange={onInterestsChange}
+            />
+          </div>
+          
           <button
             onClick={onStartChat}
             className="group relative inline-flex items-center gap-3 px-8 py-4 text-lg font-semibold 
@@ -86,15 +101,15 @@ export const Homepage: React.FC<HomepageProps> = ({
                        hover:shadow-2xl hover:shadow-blue-500/40 dark:hover:shadow-blue-400/60"
           >
             <Play className="w-6 h-6 transition-transform group-hover:scale-110" />
-            {t.startChat}
-            <div className="absolute -top-1 -right-1 w-3 h-3 bg-green-400 rounded-full animate-pulse" />
+            {t('startChat')}
+            <div className="absolute -top-1 -end-1 w-3 h-3 bg-green-400 rounded-full animate-pulse" />
             <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-blue-400 to-purple-400
                            dark:from-blue-300 dark:to-purple-300 opacity-0 group-hover:opacity-20 
                            transition-opacity duration-300" />
           </button>
           
           <p className="text-sm text-gray-500 dark:text-slate-400 mt-4 max-w-md mx-auto">
-            📍 We'll request your location to find nearby people. You can refuse and we'll use IP location instead.
+            {t('locationNotice')}
           </p>
         </div>
 
@@ -126,7 +141,7 @@ export const Homepage: React.FC<HomepageProps> = ({
 
       {/* Footer */}
       <footer className="relative z-10 text-center p-6 text-gray-500 dark:text-slate-400">
-        <p>© 2024 LiberTalk. Made with ❤️ for global connections.</p>
+        <p>{t('footer')}</p>
       </footer>
     </div>
   );
@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import { Eye, ImageOff, Loader } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { ImageAttachment, getImageUrl } from '../lib/imageMessages';
+
+interface ImageMessageProps {
+  attachment: ImageAttachment;
+  isOwnMessage: boolean;
+  // Signs the image URL, images are only served to the participants of the chat
+  userId?: string;
+}
+
+// Partner images stay blurred until tapped, nobody gets an unwanted picture at full view
+export const ImageMessage: React.FC<ImageMessageProps> = ({
+  attachment,
+  isOwnMessage,
+  userId
+}) => {
+  const { t } = useTranslation('chat');
+  const [url, setUrl] = useState<string | null>(null);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+  const [isRevealed, setIsRevealed] = useState(isOwnMessage);
+
+  useEffect(() => {
+    let isCurrent = true;
+    getImageUrl(attachment.path, userId).then(imageUrl => {
+      if (!isCurrent) return;
+      if (imageUrl) {
+        setUrl(imageUrl);
+      } else {
+        setIsUnavailable(true);
+      }
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [attachment.path, userId]);
+
+  if (isUnavailable) {
+    return (
+      <p className="flex items-center gap-2 text-sm italic opacity-70">
+        <ImageOff className="w-4 h-4" />
+        {t('image.unavailable')}
+      </p>
+    );
+  }
+
+  return (
+    // Sized from the stored dimensions so the conversation doesn't jump when the image loads
+    <div
+      className="relative w-60 max-w-full overflow-hidden rounded-lg bg-gray-200 dark:bg-slate-700"
+      style={{ aspectRatio: `${attachment.width} / ${attachment.height}` }}
+    >
+      {url ? (
+        <img
+          src={url}
+          alt={t('image.alt')}
+          onError={() => setIsUnavailable(true)}
+          className={`w-full h-full object-cover transition-[filter] ${isRevealed ? '' : 'blur-2xl scale-110'}`}
+        />
+      ) : (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <Loader className="w-5 h-5 animate-spin opacity-70" />
+        </div>
+      )}
+
+      {!isRevealed && url && (
+        <button
+          onClick={() => setIsRevealed(true)}
+          className="absolute inset-0 flex flex-col items-center justify-center gap-1 bg-black/30 text-white text-sm"
+        >
+          <Eye className="w-5 h-5" />
+          {t('image.tapToReveal')}
+        </button>
+      )}
+    </div>
+  );
+};
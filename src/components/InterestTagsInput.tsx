@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Hash, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { addInterest, MAX_INTEREST_TAGS, MAX_INTEREST_LENGTH } from '../lib/interests';
+
+interface InterestTagsInputProps {
+  interests: string[];
+  onChange: (interests: string[]) => void;
+}
+
+export const InterestTagsInput: React.FC<InterestTagsInputProps> = ({
+  interests,
+  onChange
+}) => {
+  const { t } = useTranslation('home');
+  const [draft, setDraft] = useState('');
+  const isFull = interests.length >= MAX_INTEREST_TAGS;
+
+  const commitDraft = () => {
+    if (!draft.trim()) return;
+    onChange(addInterest(interests, draft));
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commitDraft();
+    } else if (e.key === 'Backspace' && !draft && interests.length > 0) {
+      onChange(interests.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md mx-auto text-start">
+      <label className="block text-sm font-medium text-gray-700 dark:text-slate-200 mb-2">
+        {t('interests.label')}
+      </label>
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 bg-white/80 dark:bg-slate-800/90 backdrop-blur-sm
+                      border border-gray-300 dark:border-slate-600 rounded-xl shadow-sm dark:shadow-slate-900/20
+                      focus-within:ring-2 focus-within:ring-blue-500">
+        {interests.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 px-2 py-1 text-sm bg-blue-100 dark:bg-blue-900/40
+                       text-blue-700 dark:text-blue-300 rounded-full"
+          >
+            <Hash className="w-3 h-3" />
+            {tag}
+            <button
+              onClick={() => onChange(interests.filter(other => other !== tag))}
+              className="ms-1 hover:text-blue-900 dark:hover:text-blue-100 transition-colors"
+              aria-label={t('interests.remove', { tag })}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        {!isFull && (
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={commitDraft}
+            maxLength={MAX_INTEREST_LENGTH}
+            placeholder={interests.length === 0 ? t('interests.placeholder') : ''}
+            className="flex-1 min-w-[8rem] bg-transparent text-sm text-gray-900 dark:text-slate-100
+                       placeholder-gray-500 dark:placeholder-slate-400 focus:outline-none"
+          />
+        )}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-slate-400 mt-2">
+        {t('interests.hint')} ({interests.length}/{MAX_INTEREST_TAGS})
+      </p>
+    </div>
+  );
+};
@@ -1,23 +1,39 @@
 import React from 'react';
 import { ChevronDown, Globe } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { SUPPORTED_LANGUAGES, SupportedLanguage } from '../lib/translation';
 
 interface LanguageSelectorProps {
   currentLanguage: string;
   onLanguageChange: (lang: string) => void;
 }
 
-const languages = [
-  { code: 'en', name: 'English', flag: '🇬🇧' },
-  { code: 'fr', name: 'Français', flag: '🇫🇷' },
-  { code: 'de', name: 'Deutsch', flag: '🇩🇪' },
-  { code: 'es', name: 'Español', flag: '🇪🇸' },
-  { code: 'it', name: 'Italiano', flag: '🇮🇹' }
-];
+const FLAGS: Record<SupportedLanguage, string> = {
+  en: '🇬🇧',
+  fr: '🇫🇷',
+  de: '🇩🇪',
+  es: '🇪🇸',
+  it: '🇮🇹',
+  pt: '🇵🇹',
+  ru: '🇷🇺',
+  zh: '🇨🇳',
+  ja: '🇯🇵',
+  ko: '🇰🇷',
+  ar: '🇸🇦',
+};
+
+// Every language with UI strings, names shown in their own language
+const languages = (Object.keys(SUPPORTED_LANGUAGES) as SupportedLanguage[]).map(code => ({
+  code,
+  name: SUPPORTED_LANGUAGES[code],
+  flag: FLAGS[code],
+}));
 
 export const LanguageSelector: React.FC<LanguageSelectorProps> = ({
   currentLanguage,
   onLanguageChange
 }) => {
+  const { t } = useTranslation();
   const [isOpen, setIsOpen] = React.useState(false);
   const currentLang = languages.find(lang => lang.code === currentLanguage);
 
@@ -25,6 +41,7 @@ export const LanguageSelector: React.FC<LanguageSelectorProps> = ({
     <div className="relative">
       <button
         onClick={() => setIsOpen(!isOpen)}
+        aria-label={t('language')}
         className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 dark:text-slate-200 
                    bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 rounded-lg 
                    hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors
@@ -37,7 +54,7 @@ export const LanguageSelector: React.FC<LanguageSelectorProps> = ({
       </button>
 
       {isOpen && (
-        <div className="absolute top-full left-0 mt-2 w-48 bg-white dark:bg-slate-800 border border-gray-300 
+        <div className="absolute top-full start-0 mt-2 w-48 max-h-80 overflow-y-auto bg-white dark:bg-slate-800 border border-gray-300 
                        dark:border-slate-600 rounded-lg shadow-lg dark:shadow-slate-900/40 z-50">
           {languages.map((lang) => (
             <button
@@ -46,7 +63,7 @@ export const LanguageSelector: React.FC<LanguageSelectorProps> = ({
                 onLanguageChange(lang.code);
                 setIsOpen(false);
               }}
-              className={`w-full flex items-center gap-3 px-4 py-3 text-sm text-left hover:bg-gray-50 
+              className={`w-full flex items-center gap-3 px-4 py-3 text-sm text-start hover:bg-gray-50 
                          dark:hover:bg-slate-700 transition-colors first:rounded-t-lg last:rounded-b-lg
                          ${currentLanguage === lang.code ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400' : 'text-gray-700 dark:text-slate-200'}`}
             >
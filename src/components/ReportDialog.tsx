@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Flag, Loader } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { REPORT_REASONS, ReportReason } from '../lib/moderation';
+
+interface ReportDialogProps {
+  onSubmit: (reason: ReportReason, details?: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export const ReportDialog: React.FC<ReportDialogProps> = ({
+  onSubmit,
+  onClose
+}) => {
+  const { t } = useTranslation('report');
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!reason || isSubmitting) return;
+
+    setIsSubmitting(true);
+    const submitted = await onSubmit(reason, details);
+    setIsSubmitting(false);
+
+    if (submitted) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-2xl max-w-sm w-full mx-4">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-10 h-10 bg-red-100 dark:bg-red-900/30 rounded-full flex items-center justify-center">
+            <Flag className="w-5 h-5 text-red-500" />
+          </div>
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white">
+            {t('title')}
+          </h3>
+        </div>
+
+        <p className="text-sm text-gray-600 dark:text-slate-300 mb-4">
+          {t('description')}
+        </p>
+
+        <div className="space-y-2 mb-4">
+          {REPORT_REASONS.map((option) => (
+            <label
+              key={option}
+              className={`flex items-center gap-3 px-3 py-2 rounded-lg border cursor-pointer transition-colors text-sm ${
+                reason === option
+                  ? 'border-red-400 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+                  : 'border-gray-200 dark:border-slate-700 text-gray-700 dark:text-slate-200 hover:bg-gray-50 dark:hover:bg-slate-700'
+              }`}
+            >
+              <input
+                type="radio"
+                name="report-reason"
+                value={option}
+                checked={reason === option}
+                onChange={() => setReason(option)}
+                className="accent-red-500"
+              />
+              {t(`reasons.${option}`)}
+            </label>
+          ))}
+        </div>
+
+        <textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          maxLength={1000}
+          rows={3}
+          placeholder={t('detailsPlaceholder')}
+          className="w-full px-3 py-2 mb-4 text-sm border border-gray-300 dark:border-slate-600 rounded-lg
+                     bg-gray-50 dark:bg-slate-700 text-gray-900 dark:text-slate-100
+                     placeholder-gray-500 dark:placeholder-slate-400
+                     focus:outline-none focus:ring-2 focus:ring-red-500 resize-none"
+        />
+
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="flex-1 px-4 py-2 text-gray-600 dark:text-slate-300 bg-gray-100 dark:bg-slate-700
+                       rounded-lg hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('cancel')}
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!reason || isSubmitting}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-red-500 text-white rounded-lg
+                       hover:bg-red-600 transition-colors shadow-md
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting && <Loader className="w-4 h-4 animate-spin" />}
+            {t('submit')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Play, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { ReadAloud } from '../hooks/useReadAloud';
+import { voicesFor, RATE_RANGE, PITCH_RANGE } from '../lib/speechSettings';
+
+interface SpeechSettingsPanelProps {
+  readAloud: ReadAloud;
+  language: string;
+  onClose: () => void;
+}
+
+// Voice, rate and pitch used to read messages in the user's language
+export const SpeechSettingsPanel: React.FC<SpeechSettingsPanelProps> = ({ readAloud, language, onClose }) => {
+  const { t } = useTranslation('chat');
+  const { settings, voices, enqueue, setVoice, setRate, setPitch } = readAloud;
+  const languageVoices = voicesFor(voices, language);
+
+  const inputClass = 'w-full accent-blue-500';
+
+  return (
+    <div className="mb-3 bg-gray-50 dark:bg-slate-700/50 border border-gray-200 dark:border-slate-600 rounded-lg p-3
+                   text-gray-700 dark:text-slate-200 text-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">{t('readAloud.settings')}</span>
+        <button onClick={onClose} aria-label={t('readAloud.close')} className="p-1 hover:text-blue-500">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <label className="block space-y-1">
+        <span>{t('readAloud.voice')}</span>
+        <select
+          value={settings.voiceURIs[language] ?? ''}
+          onChange={(e) => setVoice(language, e.target.value || null)}
+          className="w-full px-2 py-1 border border-gray-300 dark:border-slate-600 rounded-lg
+                     bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100"
+        >
+          <option value="">{t('readAloud.defaultVoice')}</option>
+          {languageVoices.map(voice => (
+            <option key={voice.voiceURI} value={voice.voiceURI}>
+              {voice.name} ({voice.lang})
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block space-y-1">
+        <span>{t('readAloud.rate')}: {settings.rate.toFixed(1)}×</span>
+        <input
+          type="range"
+          min={RATE_RANGE.min}
+          max={RATE_RANGE.max}
+          step={RATE_RANGE.step}
+          value={settings.rate}
+          onChange={(e) => setRate(Number(e.target.value))}
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span>{t('readAloud.pitch')}: {settings.pitch.toFixed(1)}</span>
+        <input
+          type="range"
+          min={PITCH_RANGE.min}
+          max={PITCH_RANGE.max}
+          step={PITCH_RANGE.step}
+          value={settings.pitch}
+          onChange={(e) => setPitch(Number(e.target.value))}
+          className={inputClass}
+        />
+      </label>
+
+      <button
+        onClick={() => enqueue(t('readAloud.sample'), language)}
+        className="flex items-center gap-1 px-3 py-1 rounded-lg bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+      >
+        <Play className="w-4 h-4 rtl:-scale-x-100" />
+        {t('readAloud.preview')}
+      </button>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React from 'react';
 import { Sun, Moon } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
 
 interface ThemeToggleProps {
   theme: 'light' | 'dark';
@@ -7,13 +8,15 @@ interface ThemeToggleProps {
 }
 
 export const ThemeToggle: React.FC<ThemeToggleProps> = ({ theme, onToggle }) => {
+  const { t } = useTranslation();
+
   return (
     <button
       onClick={onToggle}
       className="p-2 rounded-lg bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 
                  hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors
                  shadow-sm dark:shadow-slate-900/20"
-      aria-label="Toggle theme"
+      aria-label={t('toggleTheme')}
     >
       {theme === 'light' ? (
         <Moon className="w-5 h-5 text-gray-700 dark:text-slate-200" />
@@ -0,0 +1,143 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, Pause, Loader, MicOff } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { VoiceAttachment, getVoicePlaybackUrl } from '../lib/voiceMessages';
+
+interface VoiceMessagePlayerProps {
+  attachment: VoiceAttachment;
+  isOwnMessage: boolean;
+  // Signs the playback URL, recordings are only served to the participants of the chat
+  userId?: string;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+export const VoiceMessagePlayer: React.FC<VoiceMessagePlayerProps> = ({
+  attachment,
+  isOwnMessage,
+  userId
+}) => {
+  const { t } = useTranslation('chat');
+  const [url, setUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [progress, setProgress] = useState(0); // 0..1
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const playWhenReadyRef = useRef(false);
+
+  // The URL is only fetched on the first play, most recordings are heard once
+  const handlePlay = async () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (isPlaying) {
+      audio.pause();
+      return;
+    }
+
+    if (!url) {
+      setIsLoading(true);
+      const playbackUrl = await getVoicePlaybackUrl(attachment.path, userId);
+      setIsLoading(false);
+      if (!playbackUrl) {
+        setIsUnavailable(true);
+        return;
+      }
+      playWhenReadyRef.current = true;
+      setUrl(playbackUrl);
+      return;
+    }
+
+    audio.play().catch(error => console.warn('🎙️ Playback failed:', error));
+  };
+
+  useEffect(() => {
+    if (url && playWhenReadyRef.current) {
+      playWhenReadyRef.current = false;
+      audioRef.current?.play().catch(error => console.warn('🎙️ Playback failed:', error));
+    }
+  }, [url]);
+
+  // Clicking a bar jumps to that point of the recording
+  const seekTo = (bar: number) => {
+    const audio = audioRef.current;
+    if (!audio || !url) return;
+    const duration = Number.isFinite(audio.duration) ? audio.duration : attachment.duration_ms / 1000;
+    audio.currentTime = (bar / attachment.waveform.length) * duration;
+    setProgress(bar / attachment.waveform.length);
+  };
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    // MediaRecorder webm files report an infinite duration, fall back to the recorded one
+    const duration = Number.isFinite(audio.duration) ? audio.duration * 1000 : attachment.duration_ms;
+    setProgress(duration > 0 ? Math.min(1, (audio.currentTime * 1000) / duration) : 0);
+  };
+
+  if (isUnavailable) {
+    return (
+      <p className="flex items-center gap-2 text-sm italic opacity-70">
+        <MicOff className="w-4 h-4" />
+        {t('voice.unavailable')}
+      </p>
+    );
+  }
+
+  const playedColor = isOwnMessage ? 'bg-white' : 'bg-blue-500';
+  const remainingColor = isOwnMessage ? 'bg-white/40' : 'bg-gray-300 dark:bg-slate-600';
+
+  return (
+    <div className="flex items-center gap-2 min-w-[12rem]">
+      <button
+        onClick={handlePlay}
+        aria-label={isPlaying ? t('voice.pause') : t('voice.play')}
+        className={`w-8 h-8 flex-shrink-0 rounded-full flex items-center justify-center transition-colors ${
+          isOwnMessage ? 'bg-white/20 hover:bg-white/30' : 'bg-blue-100 dark:bg-blue-900/40 text-blue-600 dark:text-blue-300'
+        }`}
+      >
+        {isLoading ? (
+          <Loader className="w-4 h-4 animate-spin" />
+        ) : isPlaying ? (
+          <Pause className="w-4 h-4" />
+        ) : (
+          <Play className="w-4 h-4 rtl:-scale-x-100" />
+        )}
+      </button>
+
+      {/* Waveform, bars before the playhead are filled */}
+      <div className="flex items-center gap-px h-8 flex-1" dir="ltr">
+        {attachment.waveform.map((level, bar) => (
+          <span
+            key={bar}
+            onClick={() => seekTo(bar)}
+            className={`flex-1 rounded-full cursor-pointer ${
+              bar / attachment.waveform.length < progress ? playedColor : remainingColor
+            }`}
+            style={{ height: `${Math.max(12, level * 100)}%` }}
+          />
+        ))}
+      </div>
+
+      <span className="text-xs opacity-70 tabular-nums">{formatDuration(attachment.duration_ms)}</span>
+
+      <audio
+        ref={audioRef}
+        src={url ?? undefined}
+        preload="none"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setProgress(0);
+        }}
+        onTimeUpdate={handleTimeUpdate}
+        onError={() => url && setIsUnavailable(true)}
+      />
+    </div>
+  );
+};
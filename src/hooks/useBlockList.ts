@@ -0,0 +1,76 @@
+import { useState, useCallback } from 'react';
+import { getBlockList, clearBlockList, BlockListEntry } from '../lib/rpc';
+
+export type BlockedUser = BlockListEntry;
+
+export const useBlockList = () => {
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getDeviceId = () => {
+    try {
+      return localStorage.getItem('libertalk_device_id');
+    } catch {
+      return null;
+    }
+  };
+
+  // Load the blocks created from this device
+  const refresh = useCallback(async () => {
+    const deviceId = getDeviceId();
+    if (!deviceId) {
+      setBlockedUsers([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await getBlockList(deviceId);
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.error || 'Failed to load block list');
+      }
+      setBlockedUsers(data.blocks || []);
+    } catch (err) {
+      console.warn('🚫 Failed to load block list:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load block list');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Remove every block created from this device
+  const clearAll = useCallback(async () => {
+    const deviceId = getDeviceId();
+    if (!deviceId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await clearBlockList(deviceId);
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.error || 'Failed to clear block list');
+      }
+      console.log('🚫 Block list cleared:', data.removed, 'entries');
+      setBlockedUsers([]);
+    } catch (err) {
+      console.warn('🚫 Failed to clear block list:', err);
+      setError(err instanceof Error ? err.message : 'Failed to clear block list');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    blockedUsers,
+    loading,
+    error,
+    refresh,
+    clearAll,
+  };
+};
@@ -0,0 +1,47 @@
+import { useState, useCallback, useRef } from 'react';
+import {
+  ConnectionEffect,
+  ConnectionEvent,
+  ConnectionSnapshot,
+  ConnectionContext,
+  INITIAL_CONNECTION,
+  transition,
+} from '../lib/connectionMachine';
+
+export type ConnectionEffectHandlers = Partial<Record<ConnectionEffect, (context: ConnectionContext) => void>>;
+
+export const useConnectionMachine = (handlers: ConnectionEffectHandlers = {}) => {
+  const [snapshot, setSnapshot] = useState<ConnectionSnapshot>(INITIAL_CONNECTION);
+  const snapshotRef = useRef<ConnectionSnapshot>(INITIAL_CONNECTION);
+  const handlersRef = useRef<ConnectionEffectHandlers>(handlers);
+  handlersRef.current = handlers;
+
+  // Apply an event, returns false when the current state doesn't accept it
+  const send = useCallback((event: ConnectionEvent) => {
+    const result = transition(snapshotRef.current, event);
+    if (!result) {
+      if (event.type !== 'PROGRESS') {
+        console.log(`🚦 Ignored ${event.type} in state ${snapshotRef.current.state}`);
+      }
+      return false;
+    }
+
+    if (result.snapshot.state !== snapshotRef.current.state) {
+      console.log(`🚦 ${snapshotRef.current.state} → ${result.snapshot.state} (${event.type})`);
+    }
+
+    snapshotRef.current = result.snapshot;
+    setSnapshot(result.snapshot);
+    result.effects.forEach(effect => handlersRef.current[effect]?.(result.snapshot.context));
+    return true;
+  }, []);
+
+  return {
+    state: snapshot.state,
+    context: snapshot.context,
+    snapshotRef,
+    send,
+  };
+};
+
+export type ConnectionMachine = ReturnType<typeof useConnectionMachine>;
@@ -0,0 +1,120 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { getSpeechRecognition, isDictationSupported, speechLocale } from '../lib/speech';
+
+export type DictationError = 'unsupported' | 'permission_denied' | 'network' | 'failed';
+
+// Recognition errors that only mean nothing was said or we stopped it ourselves
+const BENIGN_ERRORS = ['no-speech', 'aborted'];
+
+// Dictation with the Web Speech API: final phrases go to onFinalText, the phrase being spoken is in interimText.
+// Continuous mode keeps listening across pauses until stop() is called.
+export const useDictation = (language: string, onFinalText: (text: string) => void) => {
+  const [isListening, setIsListening] = useState(false);
+  const [interimText, setInterimText] = useState('');
+  const [error, setError] = useState<DictationError | null>(null);
+
+  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  // Browsers end recognition after a silence even in continuous mode, it is restarted while this is set
+  const keepListeningRef = useRef<boolean>(false);
+  const onFinalTextRef = useRef(onFinalText);
+
+  useEffect(() => {
+    onFinalTextRef.current = onFinalText;
+  }, [onFinalText]);
+
+  const stop = useCallback(() => {
+    keepListeningRef.current = false;
+    recognitionRef.current?.stop();
+  }, []);
+
+  const start = useCallback((continuous: boolean) => {
+    const Recognition = getSpeechRecognition();
+    if (!Recognition) {
+      setError('unsupported');
+      return;
+    }
+    if (recognitionRef.current) return;
+
+    const recognition = new Recognition();
+    recognition.lang = speechLocale(language);
+    recognition.interimResults = true;
+    recognition.continuous = continuous;
+    recognition.maxAlternatives = 1;
+
+    recognition.onresult = (event) => {
+      let interim = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const transcript = result[0]?.transcript.trim();
+        if (!transcript) continue;
+
+        if (result.isFinal) {
+          onFinalTextRef.current(transcript);
+        } else {
+          interim += `${transcript} `;
+        }
+      }
+      setInterimText(interim.trim());
+    };
+
+    recognition.onerror = (event) => {
+      if (BENIGN_ERRORS.includes(event.error)) return;
+
+      console.warn('🎤 Dictation error:', event.error);
+      keepListeningRef.current = false;
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+        setError('permission_denied');
+      } else if (event.error === 'network') {
+        setError('network');
+      } else {
+        setError('failed');
+      }
+    };
+
+    recognition.onend = () => {
+      setInterimText('');
+      if (keepListeningRef.current) {
+        try {
+          recognition.start();
+          return;
+        } catch (restartError) {
+          console.warn('🎤 Could not resume dictation:', restartError);
+        }
+      }
+      keepListeningRef.current = false;
+      if (recognitionRef.current === recognition) recognitionRef.current = null;
+      setIsListening(false);
+    };
+
+    keepListeningRef.current = continuous;
+    recognitionRef.current = recognition;
+    setError(null);
+
+    try {
+      recognition.start();
+      setIsListening(true);
+    } catch (startError) {
+      console.warn('🎤 Could not start dictation:', startError);
+      keepListeningRef.current = false;
+      recognitionRef.current = null;
+      setError('failed');
+    }
+  }, [language]);
+
+  // A new language needs a new recognizer, and nothing keeps listening after leaving the chat
+  useEffect(() => {
+    return () => {
+      keepListeningRef.current = false;
+      recognitionRef.current?.abort();
+    };
+  }, [language]);
+
+  return {
+    isSupported: isDictationSupported(),
+    isListening,
+    interimText,
+    error,
+    start,
+    stop,
+  };
+};
@@ -0,0 +1,18 @@
+import { useState, useEffect, useRef } from 'react';
+import { heartbeat, HeartbeatResult } from '../lib/heartbeat';
+
+// Subscribe to the shared heartbeat, exposes its connection quality
+export const useHeartbeat = (onBeat?: (result: HeartbeatResult) => void) => {
+  const [connectionQuality, setConnectionQuality] = useState(heartbeat.getQuality());
+  const onBeatRef = useRef(onBeat);
+  onBeatRef.current = onBeat;
+
+  useEffect(() => {
+    return heartbeat.subscribe((result) => {
+      setConnectionQuality(result.quality);
+      onBeatRef.current?.(result);
+    });
+  }, []);
+
+  return { connectionQuality };
+};
@@ -1,54 +1,57 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { supabase } from '../lib/supabase';
+import {
+  joinWaitingQueue,
+  leaveWaitingQueue,
+  getQueueStatistics,
+  findBestMatch,
+  confirmBilateralMatch,
+  FoundMatch,
+  FindMatchResponse,
+  PartnerInfo,
+  QueueStatistics
+} from '../lib/rpc';
 import { useGeolocation } from './useGeolocation';
-
-interface QueueStats {
-  total_waiting: number;
-  by_continent: Record<string, number>;
-  by_language: Record<string, number>;
-  average_wait_time: number;
-  timestamp: string;
-}
+import { DEVICE_FLAGGED_ERROR } from '../lib/moderation';
+import { getDeviceKey } from '../lib/deviceKey';
+import { isQueueState, StatusText } from '../lib/connectionMachine';
+import { ConnectionMachine } from './useConnectionMachine';
+import { useHeartbeat } from './useHeartbeat';
+import { heartbeat } from '../lib/heartbeat';
 
 interface MatchResult {
   success: boolean;
   match_id?: string;
   partner_id?: string;
-  partner_info?: {
-    continent: string;
-    country: string;
-    city: string;
-    language: string;
-  };
+  partner_info?: PartnerInfo;
   chat_id?: string;
   match_score?: number;
-  distance_km?: number;
+  distance_km?: number | null;
   requires_confirmation?: boolean;
   confirmation_timeout?: number;
   message: string;
   error?: string;
   retry_in_seconds?: number;
   both_confirmed?: boolean;
+  shared_interests?: string[];
 }
 
-export const useMatchingQueue = (language: string) => {
-  const [isInQueue, setIsInQueue] = useState(false);
-  const [isSearching, setIsSearching] = useState(false);
+export const useMatchingQueue = (language: string, interests: string[], connection: ConnectionMachine) => {
+  const { send } = connection;
+  const isInQueue = isQueueState(connection.state);
+  const isSearching = connection.state === 'searching';
   const [waitTime, setWaitTime] = useState(0);
-  const [queueStats, setQueueStats] = useState<QueueStats | null>(null);
+  const [queueStats, setQueueStats] = useState<QueueStatistics | null>(null);
   const [matchResult, setMatchResult] = useState<MatchResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<StatusText | null>(null);
   const [searchAttempts, setSearchAttempts] = useState(0);
-  const [connectionQuality, setConnectionQuality] = useState(100);
+  const { connectionQuality } = useHeartbeat();
   const [queuePosition, setQueuePosition] = useState<number | null>(null);
   const [estimatedWait, setEstimatedWait] = useState<number | null>(null);
   
   const { location, requestLocation } = useGeolocation();
   const searchIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const waitTimeIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const heartbeatIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const statsIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const cleanupIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const currentUserIdRef = useRef<string | null>(null);
   const currentSessionIdRef = useRef<string | null>(null);
   const isActiveRef = useRef<boolean>(false);
@@ -93,46 +96,12 @@ export const useMatchingQueue = (language: string) => {
     setWaitTime(0);
   }, []);
 
-  // Enhanced heartbeat with connection quality monitoring
-  const sendHeartbeat = useCallback(async (userId: string) => {
-    if (!isActiveRef.current) return;
-    
-    try {
-      const startTime = Date.now();
-      const { data, error } = await supabase.rpc('send_heartbeat_v2', { 
-        p_user_id: userId,
-        p_connection_quality: connectionQuality
-      });
-
-      const responseTime = Date.now() - startTime;
-      
-      if (error) {
-        console.warn('💔 Heartbeat failed:', error.message);
-        setConnectionQuality(prev => Math.max(prev - 15, 0));
-      } else {
-        // Update connection quality based on response time
-        const newQuality = responseTime < 100 ? 100 : 
-                          responseTime < 300 ? 90 :
-                          responseTime < 500 ? 80 :
-                          responseTime < 1000 ? 70 : 50;
-        setConnectionQuality(prev => Math.min(prev + 2, newQuality));
-        
-        if (Math.random() < 0.1) { // Log every 10th heartbeat
-          console.log('💓 Heartbeat sent successfully, quality:', newQuality, 'response time:', responseTime + 'ms');
-        }
-      }
-    } catch (error) {
-      console.warn('💔 Heartbeat error:', error);
-      setConnectionQuality(prev => Math.max(prev - 20, 0));
-    }
-  }, [connectionQuality]);
-
   // Update queue statistics with enhanced logging
   const updateQueueStats = useCallback(async () => {
     if (!isActiveRef.current) return;
     
     try {
-      const { data, error } = await supabase.rpc('get_queue_statistics_v2');
+      const { data, error } = await getQueueStatistics();
       if (error) {
         console.warn('📊 Failed to update queue stats:', error.message);
         return;
@@ -154,39 +123,12 @@ export const useMatchingQueue = (language: string) => {
     }
   }, [queueStats?.total_waiting]);
 
-  // Cleanup inactive sessions
-  const runCleanup = useCallback(async () => {
-    if (!isActiveRef.current) return;
-    
-    try {
-      const { data, error } = await supabase.rpc('cleanup_inactive_sessions_v2');
-      if (error) {
-        console.warn('🧹 Cleanup failed:', error.message);
-      } else if (data && (data.cleaned_users > 0 || data.cleaned_sessions > 0)) {
-        console.log('🧹 Cleanup completed:', {
-          users: data.cleaned_users,
-          sessions: data.cleaned_sessions,
-          matches: data.cleaned_matches
-        });
-      }
-    } catch (error) {
-      console.warn('🧹 Cleanup error:', error);
-    }
-  }, []);
-
   // Start maintenance intervals with staggered timing
   const startMaintenanceIntervals = useCallback((userId: string, sessionId: string) => {
     console.log('🔄 Starting maintenance intervals for user:', userId);
     
-    // Heartbeat every 5 seconds (critical for connection)
-    if (heartbeatIntervalRef.current) {
-      clearInterval(heartbeatIntervalRef.current);
-    }
-    heartbeatIntervalRef.current = setInterval(() => {
-      if (isActiveRef.current) {
-        sendHeartbeat(userId);
-      }
-    }, 5000);
+    // Keep-alive goes through the shared heartbeat (critical for connection)
+    heartbeat.start(userId);
 
     // Stats every 8 seconds (offset from heartbeat)
     if (statsIntervalRef.current) {
@@ -199,25 +141,13 @@ export const useMatchingQueue = (language: string) => {
         }
       }, 8000);
     }, 2000);
-
-    // Cleanup every 30 seconds (offset from others)
-    if (cleanupIntervalRef.current) {
-      clearInterval(cleanupIntervalRef.current);
-    }
-    setTimeout(() => {
-      cleanupIntervalRef.current = setInterval(() => {
-        if (isActiveRef.current) {
-          runCleanup();
-        }
-      }, 30000);
-    }, 5000);
-  }, [sendHeartbeat, updateQueueStats, runCleanup]);
+  }, [updateQueueStats]);
 
   // Stop all intervals
   const stopAllIntervals = useCallback(() => {
     console.log('🛑 Stopping all maintenance intervals');
-    [searchIntervalRef, waitTimeIntervalRef, heartbeatIntervalRef, 
-     statsIntervalRef, cleanupIntervalRef, bilateralTimeoutRef].forEach(ref => {
+    [searchIntervalRef, waitTimeIntervalRef, 
+     statsIntervalRef, bilateralTimeoutRef].forEach(ref => {
       if (ref.current) {
         clearInterval(ref.current);
         ref.current = null;
@@ -235,8 +165,7 @@ export const useMatchingQueue = (language: string) => {
     try {
       console.log('🚀 FORCED QUEUE JOIN: Starting immediately regardless of location status');
       setError(null);
-      setIsInQueue(true);
-      setIsSearching(true);
+      send({ type: 'JOIN_QUEUE', message: 'progress.joiningQueue' });
       setSearchAttempts(0);
       setMatchResult(null);
       setQueuePosition(null);
@@ -260,16 +189,17 @@ export const useMatchingQueue = (language: string) => {
       let data, error;
       try {
         console.log('📡 FORCED RPC: Calling join_waiting_queue_v2 (will retry on fail)...');
-        const result = await supabase.rpc('join_waiting_queue_v2', {
+        const result = await joinWaitingQueue({
           p_device_id: deviceIdRef.current,
           p_continent: locationData?.continent || 'Unknown',
           p_country: locationData?.country || 'Unknown',
           p_city: locationData?.city || 'Unknown',
           p_language: language,
-          p_latitude: locationData?.latitude || null,
-          p_longitude: locationData?.longitude || null,
+          p_latitude: locationData?.latitude || undefined,
+          p_longitude: locationData?.longitude || undefined,
           p_user_agent: navigator.userAgent,
-          p_ip_address: null
+          p_interests: interests,
+          p_device_key: getDeviceKey()
         });
         data = result.data;
         error = result.error;
@@ -297,6 +227,14 @@ export const useMatchingQueue = (language: string) => {
         return;
       }
 
+      if (data && !data.success && data.error === DEVICE_FLAGGED_ERROR) {
+        console.warn('🚫 Device suspended by moderation, leaving queue');
+        isActiveRef.current = false;
+        send({ type: 'FAIL', message: 'common:errors.suspended', code: DEVICE_FLAGGED_ERROR, canRetry: false });
+        setError({ key: 'common:errors.suspended' });
+        return;
+      }
+
       if (!data?.success) {
         console.error('📡 FORCED RETRY: RPC returned failure, will retry:', data);
         // Force retry instead of throwing
@@ -328,6 +266,7 @@ export const useMatchingQueue = (language: string) => {
       // Start search process immediately
       console.log('🔍 FORCED SEARCH: Starting immediate search process...');
       if (isActiveRef.current) {
+        send({ type: 'QUEUE_JOINED', message: 'progress.lookingForPartner' });
         startSearchProcess(data.user_id);
       }
       
@@ -341,7 +280,7 @@ export const useMatchingQueue = (language: string) => {
     } catch (error: any) {
       console.error('❌ FORCED RETRY: Error joining queue, will auto-retry:', error);
       const errorMessage = error?.message || error?.toString() || 'Unknown queue error';
-      setError(`Retrying queue join: ${errorMessage}`);
+      setError({ key: 'progress.retryingJoin', params: { error: errorMessage } });
       
       // FORCED auto-retry after 2 seconds on any failure
       setTimeout(() => {
@@ -351,7 +290,7 @@ export const useMatchingQueue = (language: string) => {
         }
       }, 2000);
     }
-  }, [location, language, startWaitTimer, startMaintenanceIntervals, updateQueueStats]);
+  }, [location, language, interests, send, startWaitTimer, startMaintenanceIntervals, updateQueueStats]);
 
   // Enhanced search process with intelligent retry logic
   const startSearchProcess = useCallback((userId: string) => {
@@ -376,7 +315,7 @@ export const useMatchingQueue = (language: string) => {
       const elapsedTime = Date.now() - searchStartTime;
       if (elapsedTime > forceGlobalTimeout) {
         console.log('⏰ FORCED GLOBAL: 30s timeout reached, forcing global random match...');
-        setError('🌍 Expanding search globally for faster matching...');
+        setError({ key: 'expandingSearch' });
         attemptCount = 0; // Reset counter
         consecutiveFailures = 0; // Reset failures
       }
@@ -386,12 +325,10 @@ export const useMatchingQueue = (language: string) => {
         setSearchAttempts(attemptCount);
         console.log(`🔍 FORCED SEARCH: Attempt ${attemptCount} for user ${userId} (${Math.round(elapsedTime/1000)}s elapsed)`);
         
-        let data, error;
+        let data: FindMatchResponse | null, error;
         try {
           console.log('📡 FORCED MATCH: Calling find_best_match_v2 RPC...');
-          const result = await supabase.rpc('find_best_match_v2', {
-            p_user_id: userId
-          });
+          const result = await findBestMatch(userId);
           data = result.data;
           error = result.error;
         } catch (rpcError) {
@@ -413,11 +350,12 @@ export const useMatchingQueue = (language: string) => {
             matchId: data.match_id,
             partnerId: data.partner_id,
             score: data.match_score,
+            sharedInterests: data.shared_interests,
             distance: data.distance_km ? data.distance_km + 'km' : 'unknown'
           });
           
           consecutiveFailures = 0;
-          setIsSearching(false);
+          send({ type: 'MATCH_FOUND', message: 'progress.matchFound' });
           
           // Clear search interval
           if (searchInterval) {
@@ -444,16 +382,17 @@ export const useMatchingQueue = (language: string) => {
           
           console.log(`⏳ FORCED RETRY: No match found, retrying in ${retryDelay/1000}s (attempt ${attemptCount})`);
           
-          if (data?.total_waiting === 0) {
-            setError('🔍 FORCED SEARCH: Looking for someone to chat with... You might be the first one here!');
+          const totalWaiting = data && !data.success ? data.total_waiting : undefined;
+          if (totalWaiting === 0) {
+            setError({ key: 'progress.firstOne' });
           } else {
-            setError(`🔍 FORCED SEARCH: Finding the perfect match... ${data?.total_waiting || 0} users online`);
+            setError({ key: 'usersOnline', params: { count: totalWaiting || 0 } });
           }
           
           // FORCE global after many attempts
           if (attemptCount >= 20) { // After many attempts
             console.log('⏰ FORCED GLOBAL: Many attempts reached, forcing global random match...');
-            setError('🌍 FORCED GLOBAL: Expanding search globally...');
+            setError({ key: 'expandingSearch' });
             attemptCount = 0; // Reset counter
           }
           
@@ -473,7 +412,7 @@ export const useMatchingQueue = (language: string) => {
           console.log('🔄 FORCED RESET: Too many consecutive failures, resetting and forcing global search...');
           consecutiveFailures = 0;
           attemptCount = 0;
-          setError('🌍 FORCED GLOBAL: Switching to global search for better results...');
+          setError({ key: 'expandingSearch' });
         }
         
         const errorMessage = error?.message || error?.toString() || 'Unknown search error';
@@ -483,7 +422,7 @@ export const useMatchingQueue = (language: string) => {
           const backoffDelay = Math.min(1000 * Math.pow(1.1, Math.min(consecutiveFailures, maxConsecutiveFailures)), 3000);
           console.log(`🔄 FORCED RETRY: Retrying search in ${backoffDelay/1000}s (failure ${consecutiveFailures}/${maxConsecutiveFailures})`);
           
-          setError(`🔄 FORCED RETRY: Search continuing... (${errorMessage})`);
+          setError({ key: 'progress.searchRetrying', params: { error: errorMessage } });
           
           setTimeout(() => {
             if (isActiveRef.current) {
@@ -500,7 +439,7 @@ export const useMatchingQueue = (language: string) => {
       performSearch();
     } catch (searchError) {
       console.error('❌ FORCED CONTINUE: Failed to start search process, will retry:', searchError);
-      setError(`FORCED RETRY: Starting search... (${searchError.message || searchError})`);
+      setError({ key: 'progress.searchRetrying', params: { error: String(searchError.message || searchError) } });
       // Force retry instead of giving up
       setTimeout(() => {
         if (isActiveRef.current) {
@@ -533,12 +472,12 @@ export const useMatchingQueue = (language: string) => {
         searchInterval = null;
       }
     };
-  }, []);
+  }, [send]);
 
   // Bilateral confirmation process with timeout handling
-  const startBilateralConfirmation = useCallback((userId: string, matchData: any) => {
+  const startBilateralConfirmation = useCallback((userId: string, matchData: FoundMatch) => {
     console.log('⏳ Starting bilateral confirmation process');
-    setError('🤝 Match found! Confirming connection...');
+    setError({ key: 'progress.matchFound' });
     
     let confirmAttempts = 0;
     const maxConfirmAttempts = 10;
@@ -548,10 +487,7 @@ export const useMatchingQueue = (language: string) => {
         confirmAttempts++;
         console.log(`🤝 Confirmation attempt ${confirmAttempts}/${maxConfirmAttempts}`);
         
-        const { data, error } = await supabase.rpc('confirm_bilateral_match_v2', {
-          p_user_id: userId,
-          p_match_id: matchData.match_id
-        });
+        const { data, error } = await confirmBilateralMatch(userId, matchData.match_id);
 
         if (error) {
           throw new Error(`Confirmation failed: ${error.message}`);
@@ -571,12 +507,12 @@ export const useMatchingQueue = (language: string) => {
             chat_id: data.chat_id,
             match_score: matchData.match_score,
             distance_km: matchData.distance_km,
+            shared_interests: matchData.shared_interests || [],
             both_confirmed: true,
             message: 'Connection established successfully!'
           });
           
-          setIsInQueue(false);
-          setIsSearching(false);
+          send({ type: 'MATCH_CONFIRMED', chatId: data.chat_id, partnerId: data.partner_id });
           stopWaitTimer();
           stopAllIntervals();
           setError(null);
@@ -586,7 +522,7 @@ export const useMatchingQueue = (language: string) => {
 
         if (data?.success && !data.both_confirmed) {
           console.log(`⏳ Waiting for partner confirmation... (${confirmAttempts}/${maxConfirmAttempts})`);
-          setError('⏳ Waiting for partner to confirm connection...');
+          setError({ key: 'progress.waitingForPartner' });
           
           // Continue waiting for partner confirmation with attempt limit
           if (confirmAttempts < maxConfirmAttempts) {
@@ -597,12 +533,12 @@ export const useMatchingQueue = (language: string) => {
             }, 1000); // Poll every 1 second
           } else {
             console.log('⏰ Max confirmation attempts reached, restarting search...');
-            setError('⏰ Partner confirmation timeout, searching for another match...');
+            setError({ key: 'progress.confirmationTimeout' });
             
             // Fallback to re-search
             setTimeout(() => {
               if (isActiveRef.current) {
-                setIsSearching(true);
+                send({ type: 'CONFIRMATION_FAILED' });
                 startSearchProcess(userId);
               }
             }, 2000);
@@ -610,19 +546,19 @@ export const useMatchingQueue = (language: string) => {
           return;
         }
 
-        throw new Error(data?.error || 'Confirmation failed');
+        throw new Error((data && !data.success && data.error) || 'Confirmation failed');
 
       } catch (error: any) {
         console.error('❌ Bilateral confirmation failed:', error);
         
         if (confirmAttempts >= maxConfirmAttempts) {
           console.log('⏰ Max confirmation attempts reached, restarting search...');
-          setError('⏰ Connection failed after multiple attempts, searching for another match...');
+          setError({ key: 'progress.confirmationFailed' });
           
           // Restart search process
           setTimeout(() => {
             if (isActiveRef.current) {
-              setIsSearching(true);
+              send({ type: 'CONFIRMATION_FAILED' });
               startSearchProcess(userId);
             }
           }, 2000);
@@ -631,17 +567,17 @@ export const useMatchingQueue = (language: string) => {
 
         if (error.message.includes('timeout')) {
           console.log('⏰ Bilateral confirmation timeout, restarting search...');
-          setError('⏰ Connection timeout, searching for another match...');
+          setError({ key: 'progress.connectionTimeout' });
           
           // Restart search process
           setTimeout(() => {
             if (isActiveRef.current) {
-              setIsSearching(true);
+              send({ type: 'CONFIRMATION_FAILED' });
               startSearchProcess(userId);
             }
           }, 2000);
         } else {
-          setError(`🔄 Connection failed, retrying... (${confirmAttempts}/${maxConfirmAttempts})`);
+          setError({ key: 'progress.confirmRetrying', params: { attempt: confirmAttempts, max: maxConfirmAttempts } });
           setTimeout(() => {
             if (isActiveRef.current) {
               confirmMatch();
@@ -654,15 +590,15 @@ export const useMatchingQueue = (language: string) => {
     // Start confirmation with timeout
     bilateralTimeoutRef.current = setTimeout(() => {
       console.log('⏰ Bilateral confirmation timeout');
-      setError('⏰ Connection timeout, searching for another match...');
+      setError({ key: 'progress.connectionTimeout' });
       if (isActiveRef.current) {
-        setIsSearching(true);
+        send({ type: 'CONFIRMATION_FAILED' });
         startSearchProcess(userId);
       }
     }, 30000); // 30 second total timeout
 
     confirmMatch();
-  }, [startSearchProcess, stopWaitTimer, stopAllIntervals]);
+  }, [send, startSearchProcess, stopWaitTimer, stopAllIntervals]);
 
   // Leave queue safely with proper cleanup
   const leaveQueue = useCallback(async () => {
@@ -671,9 +607,7 @@ export const useMatchingQueue = (language: string) => {
       isActiveRef.current = false;
       
       if (currentUserIdRef.current) {
-        const { data, error } = await supabase.rpc('leave_waiting_queue_v2', {
-          p_user_id: currentUserIdRef.current
-        });
+        const { error } = await leaveWaitingQueue(currentUserIdRef.current);
 
         if (error) {
           console.warn('⚠️ Error leaving queue:', error.message);
@@ -683,8 +617,7 @@ export const useMatchingQueue = (language: string) => {
       }
 
       // Reset all state
-      setIsInQueue(false);
-      setIsSearching(false);
+      send({ type: 'LEAVE' });
       setMatchResult(null);
       setError(null);
       setSearchAttempts(0);
@@ -702,14 +635,14 @@ export const useMatchingQueue = (language: string) => {
     } catch (error) {
       console.error('❌ Error leaving queue:', error);
     }
-  }, [stopAllIntervals, stopWaitTimer]);
+  }, [send, stopAllIntervals, stopWaitTimer]);
 
   // Auto-reconnect on disconnect detection
   const handleDisconnectReconnect = useCallback(async () => {
     if (!isActiveRef.current) return;
     
     console.log('🔄 Disconnect detected, attempting auto-reconnect...');
-    setError('🔄 Connection lost, reconnecting...');
+    setError({ key: 'progress.reconnecting' });
     
     // Brief pause then rejoin
     setTimeout(() => {
@@ -738,7 +671,7 @@ export const useMatchingQueue = (language: string) => {
       } else {
         console.log('👁️ Page visible - resuming normal activity');
         if (currentUserIdRef.current && isActiveRef.current) {
-          sendHeartbeat(currentUserIdRef.current);
+          heartbeat.beat();
           updateQueueStats();
         }
       }
@@ -746,7 +679,7 @@ export const useMatchingQueue = (language: string) => {
 
     document.addEventListener('visibilitychange', handleVisibilityChange);
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [sendHeartbeat, updateQueueStats]);
+  }, [updateQueueStats]);
 
   // Handle online/offline events
   useEffect(() => {
@@ -757,7 +690,7 @@ export const useMatchingQueue = (language: string) => {
 
     const handleOffline = () => {
       console.log('📴 Gone offline - will reconnect when back online');
-      setError('📴 Connection lost - will reconnect when back online');
+      setError({ key: 'progress.offline' });
     };
 
     window.addEventListener('online', handleOnline);
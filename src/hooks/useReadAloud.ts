@@ -0,0 +1,170 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { isSpeechSynthesisSupported } from '../lib/speech';
+import { loadSpeechSettings, saveSpeechSettings, pickVoice } from '../lib/speechSettings';
+
+// Reading stays paused this long after the last keystroke
+const TYPING_HOLD_MS = 2000;
+
+interface QueuedUtterance {
+  text: string;
+  lang?: string;
+}
+
+// Messages read aloud one after another with the chosen voice, rate and pitch.
+// While paused the current message is cut off and read again from the start afterwards.
+export const useReadAloud = (paused: boolean) => {
+  const [settings, setSettings] = useState(loadSpeechSettings);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isTyping, setIsTyping] = useState(false);
+
+  const queueRef = useRef<QueuedUtterance[]>([]);
+  const currentRef = useRef<{ item: QueuedUtterance; utterance: SpeechSynthesisUtterance } | null>(null);
+  // Utterances are spoken outside React renders, they read the latest values from refs
+  const pausedRef = useRef<boolean>(false);
+  const settingsRef = useRef(settings);
+  const voicesRef = useRef<SpeechSynthesisVoice[]>([]);
+  const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  const isPaused = paused || isTyping;
+
+  useEffect(() => {
+    settingsRef.current = settings;
+    saveSpeechSettings(settings);
+  }, [settings]);
+
+  // Chrome loads the voice list asynchronously
+  useEffect(() => {
+    if (!isSpeechSynthesisSupported()) return;
+
+    const updateVoices = () => {
+      voicesRef.current = speechSynthesis.getVoices();
+      setVoices(voicesRef.current);
+    };
+    updateVoices();
+    speechSynthesis.addEventListener('voiceschanged', updateVoices);
+    return () => speechSynthesis.removeEventListener('voiceschanged', updateVoices);
+  }, []);
+
+  const speakNext = useCallback(() => {
+    if (pausedRef.current || currentRef.current) return;
+
+    const item = queueRef.current.shift();
+    if (!item) {
+      setIsSpeaking(false);
+      return;
+    }
+
+    const { voiceURIs, rate, pitch } = settingsRef.current;
+    const utterance = new SpeechSynthesisUtterance(item.text);
+    if (item.lang) {
+      utterance.lang = item.lang;
+      const voice = pickVoice(voicesRef.current, item.lang, voiceURIs);
+      if (voice) utterance.voice = voice;
+    }
+    utterance.rate = rate;
+    utterance.pitch = pitch;
+
+    // Also fires for an utterance we cancelled ourselves, that one is no longer current
+    const finish = () => {
+      if (currentRef.current?.utterance !== utterance) return;
+      currentRef.current = null;
+      speakNext();
+    };
+    utterance.onend = finish;
+    utterance.onerror = (event) => {
+      if (event.error !== 'interrupted' && event.error !== 'canceled') {
+        console.warn('🔊 Could not read message aloud:', event.error);
+      }
+      finish();
+    };
+
+    currentRef.current = { item, utterance };
+    setIsSpeaking(true);
+    speechSynthesis.speak(utterance);
+  }, []);
+
+  const enqueue = useCallback((text: string, lang?: string) => {
+    if (!isSpeechSynthesisSupported() || !text.trim()) return;
+    queueRef.current.push({ text, lang });
+    speakNext();
+  }, [speakNext]);
+
+  // Drop everything queued, e.g. when the chat changes
+  const clear = useCallback(() => {
+    queueRef.current = [];
+    currentRef.current = null;
+    setIsSpeaking(false);
+    if (isSpeechSynthesisSupported()) speechSynthesis.cancel();
+  }, []);
+
+  useEffect(() => {
+    pausedRef.current = isPaused;
+    if (!isSpeechSynthesisSupported()) return;
+
+    if (isPaused) {
+      const current = currentRef.current;
+      if (current) {
+        currentRef.current = null;
+        queueRef.current.unshift(current.item);
+        speechSynthesis.cancel();
+      }
+    } else {
+      speakNext();
+    }
+  }, [isPaused, speakNext]);
+
+  // Every keystroke holds reading back a little longer
+  const holdForTyping = useCallback(() => {
+    if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+    setIsTyping(true);
+    typingTimeoutRef.current = setTimeout(() => setIsTyping(false), TYPING_HOLD_MS);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+      queueRef.current = [];
+      currentRef.current = null;
+      if (isSpeechSynthesisSupported()) speechSynthesis.cancel();
+    };
+  }, []);
+
+  const setConversationMode = useCallback((conversationMode: boolean) => {
+    setSettings(prev => ({ ...prev, conversationMode }));
+    if (!conversationMode) clear();
+  }, [clear]);
+
+  const setVoice = useCallback((language: string, voiceURI: string | null) => {
+    setSettings(prev => {
+      const voiceURIs = { ...prev.voiceURIs };
+      delete voiceURIs[language];
+      return { ...prev, voiceURIs: voiceURI ? { ...voiceURIs, [language]: voiceURI } : voiceURIs };
+    });
+  }, []);
+
+  const setRate = useCallback((rate: number) => {
+    setSettings(prev => ({ ...prev, rate }));
+  }, []);
+
+  const setPitch = useCallback((pitch: number) => {
+    setSettings(prev => ({ ...prev, pitch }));
+  }, []);
+
+  return {
+    isSupported: isSpeechSynthesisSupported(),
+    settings,
+    voices,
+    isSpeaking,
+    isPaused,
+    enqueue,
+    clear,
+    holdForTyping,
+    setConversationMode,
+    setVoice,
+    setRate,
+    setPitch,
+  };
+};
+
+export type ReadAloud = ReturnType<typeof useReadAloud>;
@@ -1,10 +1,53 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { supabase, User, Chat, Message } from '../lib/supabase';
+import { supabase, User, Chat, Message, MessageStatus, MESSAGE_STATUS_RANK, getMessageStatus } from '../lib/supabase';
 import { useGeolocation } from './useGeolocation';
 import { useSupabaseRealtime } from './useSupabaseRealtime';
 import { useMatchingQueue } from './useMatchingQueue';
+import { useConnectionMachine } from './useConnectionMachine';
+import { StatusText } from '../lib/connectionMachine';
+import { useVideoCall } from './useVideoCall';
+import { heartbeat } from '../lib/heartbeat';
+import { joinWaitingQueue, endChatSession, blockUser, reportUser, updateMessageReceipts, saveMessageTranslation } from '../lib/rpc';
+import { ReportReason, REPORT_MESSAGE_COUNT, DEVICE_FLAGGED_ERROR, parseRateLimitError } from '../lib/moderation';
+import { getDeviceKey } from '../lib/deviceKey';
+import { runMessageFilters, FilterMatch } from '../lib/messageFilter';
+import { translateText } from '../lib/translation';
+import { identifyLanguage, MIN_DETECTION_CONFIDENCE } from '../lib/languageDetection';
+import { VoiceRecording, VoiceAttachment, createVoiceAttachment, uploadVoiceRecording, isVoiceAttachment } from '../lib/voiceMessages';
+import { ImageUpload, ImageAttachment, createImageAttachment, uploadImage, isImageAttachment } from '../lib/imageMessages';
+import { CallSignal } from '../lib/callSignaling';
 
-export const useSupabaseChat = (language: string) => {
+export type SendMessageResult =
+  | { status: 'sent' | 'skipped' | 'failed' }
+  | { status: 'needs_confirmation' | 'blocked'; matches: FilterMatch[] }
+  | { status: 'rate_limited'; retryAfterMs: number }
+  | { status: 'queued' };
+
+// File of a voice or image message, uploaded before the row pointing at it is inserted
+type MessageFile =
+  | { kind: 'voice'; attachment: VoiceAttachment }
+  | { kind: 'image'; attachment: ImageAttachment };
+
+// Unsent message waiting in the offline outbox
+interface OutboxEntry {
+  clientId: string;
+  chatId: string;
+  content: string;
+}
+
+const UNIQUE_VIOLATION = '23505';
+
+const createClientId = () => {
+  return (typeof crypto !== 'undefined' && crypto.randomUUID)
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).substring(2)}`;
+};
+
+// Typing broadcasts are sent at most every TYPING_THROTTLE_MS and shown for TYPING_EXPIRY_MS
+const TYPING_THROTTLE_MS = 2000;
+const TYPING_EXPIRY_MS = 4000;
+
+export const useSupabaseChat = (language: string, interests: string[]) => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [currentChat, setCurrentChat] = useState<Chat | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
@@ -12,23 +55,56 @@ export const useSupabaseChat = (language: string) => {
   const [isConnected, setIsConnected] = useState(false);
   const [partnerId, setPartnerId] = useState<string | null>(null);
   const [partnerLocation, setPartnerLocation] = useState<any>(null);
-  const [connectionError, setConnectionError] = useState<string | null>(null);
+  const [partnerLanguage, setPartnerLanguage] = useState<string | null>(null);
+  const [connectionError, setConnectionError] = useState<StatusText | null>(null);
   const [showNextButton, setShowNextButton] = useState(false);
   const [nextButtonCountdown, setNextButtonCountdown] = useState(0);
-  
-  // États explicites pour l'interface
-  const [appState, setAppState] = useState<{
-    phase: 'idle' | 'loading' | 'geolocation' | 'joining_queue' | 'searching' | 'matching' | 'confirming' | 'connected' | 'error';
-    message: string;
-    details?: string;
-    canRetry?: boolean;
-  }>({ phase: 'idle', message: '' });
+  const [isPartnerTyping, setIsPartnerTyping] = useState(false);
+  const [isOffline, setIsOffline] = useState(!navigator.onLine);
   
   const { location, requestLocationNonBlocking, loading: locationLoading, error: locationError, isIPBased } = useGeolocation();
   const nextButtonTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isActiveRef = useRef<boolean>(true);
   const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const heartbeatRef = useRef<NodeJS.Timeout | null>(null);
+  const isSuspendedRef = useRef<boolean>(false);
+  const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const lastTypingSentRef = useRef<number>(0);
+  const receiptsSentRef = useRef<Map<string, 'delivered' | 'read'>>(new Map());
+  // Receipts for stored ids that arrived while the message still showed under its client id
+  const earlyReceiptsRef = useRef<Map<string, 'delivered' | 'read'>>(new Map());
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const isFlushingRef = useRef<boolean>(false);
+  // Uploads of voice and image messages not stored yet, kept for the retry button
+  const pendingUploadsRef = useRef<Map<string, () => Promise<{ error: Error | null }>>>(new Map());
+
+  // Connection lifecycle, shared with useMatchingQueue
+  const connection = useConnectionMachine({
+    // Auto-retry après 3 secondes si possible
+    schedule_retry: () => {
+      if (!isActiveRef.current) return;
+      if (retryTimeoutRef.current) {
+        clearTimeout(retryTimeoutRef.current);
+      }
+      retryTimeoutRef.current = setTimeout(() => {
+        if (isActiveRef.current) {
+          console.log('🔄 Auto-retry after error...');
+          handleRetry();
+        }
+      }, 3000);
+    },
+    cancel_retry: () => {
+      if (retryTimeoutRef.current) {
+        clearTimeout(retryTimeoutRef.current);
+        retryTimeoutRef.current = null;
+      }
+    },
+    // Show "Next" button with 5s countdown, then auto-skip
+    show_next_button: () => {
+      setShowNextButton(true);
+      setNextButtonCountdown(5);
+    },
+  });
+  const { send } = connection;
 
   // Global error handler - moved to top to be available for all functions
   const handleError = useCallback((error: any, context: string, canRetry: boolean = true) => {
@@ -50,14 +126,15 @@ export const useSupabaseChat = (language: string) => {
     
     const errorMessage = error?.message || error?.toString() || 'Unknown error';
     
-    setAppState({
-      phase: 'error',
-      message: `Connection error: ${errorMessage}`,
-      details: `Context: ${context}`,
+    send({
+      type: 'FAIL',
+      message: 'progress.error',
+      details: 'progress.errorContext',
+      params: { error: errorMessage, context },
       canRetry
     });
     
-    setConnectionError(`${context}: ${errorMessage}`);
+    setConnectionError({ key: 'progress.error', params: { error: errorMessage } });
     
     // Show browser alert for critical errors
     if (!canRetry || context.includes('Fatal')) {
@@ -65,40 +142,21 @@ export const useSupabaseChat = (language: string) => {
         alert(`LiberTalk Error: ${errorMessage}\n\nContext: ${context}\n\nPlease refresh the page.`);
       }, 100);
     }
-    
-    // Auto-retry après 3 secondes si possible
-    if (canRetry && isActiveRef.current) {
-      if (retryTimeoutRef.current) {
-        clearTimeout(retryTimeoutRef.current);
-      }
-      retryTimeoutRef.current = setTimeout(() => {
-        if (isActiveRef.current) {
-          console.log('🔄 Auto-retry after error...');
-          handleRetry();
-        }
-      }, 3000);
-    }
-  }, []);
+  }, [send]);
 
   // Retry function
   const handleRetry = useCallback(() => {
     console.log('🔄 Manual retry initiated');
     setConnectionError(null);
-    setAppState({ phase: 'idle', message: '' });
-    
-    if (retryTimeoutRef.current) {
-      clearTimeout(retryTimeoutRef.current);
-      retryTimeoutRef.current = null;
-    }
+    send({ type: 'RETRY' });
     
     // Restart the connection process
     startChatWithLocation();
-  }, []);
+  }, [send]);
 
   // Use matching queue - moved before functions that depend on it
   const {
     isInQueue,
-    isSearching,
     waitTime,
     queueStats,
     matchResult,
@@ -110,7 +168,7 @@ export const useSupabaseChat = (language: string) => {
     joinQueue,
     leaveQueue,
     handleDisconnectReconnect,
-  } = useMatchingQueue(language);
+  } = useMatchingQueue(language, interests, connection);
 
   // Skip partner with error handling (moved before handleUserDisconnected)
   const skipPartner = useCallback(async () => {
@@ -119,10 +177,7 @@ export const useSupabaseChat = (language: string) => {
     try {
       console.log('⏭️ Skipping partner...');
       
-      const { error } = await supabase.rpc('end_chat_session', {
-        p_user_id: currentUser.id,
-        p_chat_id: currentChat.chat_id
-      });
+      const { error } = await endChatSession(currentUser.id, currentChat.chat_id);
       
       if (error) {
         console.error('💾 Supabase insert error:', error);
@@ -139,11 +194,11 @@ export const useSupabaseChat = (language: string) => {
       setCurrentChat(null);
       setPartnerId(null);
       setPartnerLocation(null);
+      setPartnerLanguage(null);
       setIsConnected(false);
       setMessages([]);
       setShowNextButton(false);
       setNextButtonCountdown(0);
-      setAppState({ phase: 'idle', message: '' });
 
       // Rejoin queue for new match
       setTimeout(async () => {
@@ -156,46 +211,138 @@ export const useSupabaseChat = (language: string) => {
     }
   }, [currentChat, currentUser, leaveQueue, joinQueue, handleError]);
 
+  // Block partner across sessions and devices, then move on to the next match
+  const blockPartner = useCallback(async () => {
+    if (!currentUser || !partnerId || !isActiveRef.current) return;
+
+    try {
+      console.log('🚫 Blocking partner...');
+
+      const { data, error } = await blockUser(currentUser.id, partnerId);
+
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.error || 'Failed to block user');
+      }
+
+      console.log('✅ Partner blocked');
+      await skipPartner();
+    } catch (error) {
+      handleError(error, 'blockPartner', false);
+    }
+  }, [currentUser, partnerId, skipPartner, handleError]);
+
+  // Report partner to the moderation queue, then move on to the next match
+  const reportPartner = useCallback(async (reason: ReportReason, details?: string) => {
+    if (!currentChat || !currentUser || !partnerId || !isActiveRef.current) return false;
+
+    try {
+      console.log('🚩 Reporting partner:', reason);
+
+      const { data, error } = await reportUser({
+        p_user_id: currentUser.id,
+        p_chat_id: currentChat.chat_id,
+        p_reported_user_id: partnerId,
+        p_reason: reason,
+        p_details: details?.trim() || undefined,
+        p_message_count: REPORT_MESSAGE_COUNT
+      });
+
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.error || 'Failed to submit report');
+      }
+
+      console.log('✅ Report submitted', data.flagged ? '(device flagged)' : '');
+      await skipPartner();
+      return true;
+    } catch (error) {
+      handleError(error, 'reportPartner', false);
+      return false;
+    }
+  }, [currentChat, currentUser, partnerId, skipPartner, handleError]);
+
+  // Partner typing indicator, expires on its own if the stop event is lost
+  const handleTypingUpdate = useCallback((isTyping: boolean) => {
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = null;
+    }
+
+    setIsPartnerTyping(isTyping);
+    if (isTyping) {
+      typingTimeoutRef.current = setTimeout(() => setIsPartnerTyping(false), TYPING_EXPIRY_MS);
+    }
+  }, []);
+
   // Handle realtime events with error handling
   const handleMessageReceived = useCallback((message: Message) => {
     if (!isActiveRef.current) return;
     try {
       console.log('📨 Message received:', message.content?.substring(0, 50) + '...');
+      handleTypingUpdate(false);
       setMessages(prev => {
         if (prev.some(m => m.id === message.id)) return prev;
         return [...prev, message].sort((a, b) => 
-          new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+          new Date(a.created_at ?? 0).getTime() - new Date(b.created_at ?? 0).getTime()
         );
       });
     } catch (error) {
       handleError(error, 'handleMessageReceived', false);
     }
-  }, [handleError]);
+  }, [handleTypingUpdate, handleError]);
+
+  // Partner acknowledged some of our messages
+  // The partner never re-sends a receipt, so ids not shown yet are kept until the insert response swaps them in
+  const handleReceipt = useCallback((messageIds: string[], status: 'delivered' | 'read') => {
+    setMessages(prev => {
+      messageIds
+        .filter(id => !prev.some(m => m.id === id))
+        .forEach(id => {
+          const early = earlyReceiptsRef.current.get(id);
+          if (!early || MESSAGE_STATUS_RANK[status] > MESSAGE_STATUS_RANK[early]) {
+            earlyReceiptsRef.current.set(id, status);
+          }
+        });
+
+      return prev.map(m => {
+        if (!messageIds.includes(m.id)) return m;
+        const current = m.status || 'sent';
+        return MESSAGE_STATUS_RANK[status] > MESSAGE_STATUS_RANK[current] ? { ...m, status } : m;
+      });
+    });
+  }, []);
 
   const handleUserDisconnected = useCallback(() => {
     if (!isActiveRef.current) return;
     try {
+      // Presence, chat and user updates can all report the same departure
+      if (!send({ type: 'PARTNER_LEFT' })) return;
+
       console.log('🚪 Partner disconnected detected');
       setIsConnected(false);
       setPartnerId(null);
       setPartnerLocation(null);
-      setAppState({ phase: 'idle', message: '' });
+      setPartnerLanguage(null);
       
       // Add system message
       const disconnectMessage: Message = {
         id: `disconnect-${Date.now()}`,
         chat_id: currentChat?.chat_id || 'system',
         sender_id: 'system',
-        content: 'User disconnected',
+        client_id: null,
+        // i18n key, system messages are resolved by the UI
+        content: 'progress.partnerDisconnected',
+        kind: 'text',
+        attachment: null,
         translated_content: {},
         created_at: new Date().toISOString(),
+        delivered: false,
+        read_at: null,
       };
       setMessages(prev => [...prev, disconnectMessage]);
       
-      // Show "Next" button with 5s countdown, then auto-skip
-      setShowNextButton(true);
-      setNextButtonCountdown(5);
-      
+      // The transition shows the "Next" button, count down then auto-skip
       const countdownInterval = setInterval(() => {
         setNextButtonCountdown(prev => {
           if (prev <= 1) {
@@ -216,7 +363,7 @@ export const useSupabaseChat = (language: string) => {
     } catch (error) {
       handleError(error, 'handleUserDisconnected');
     }
-  }, [currentChat, handleError, showNextButton, skipPartner]);
+  }, [currentChat, send, handleError, showNextButton, skipPartner]);
 
   const handleChatUpdate = useCallback((chat: any) => {
     if (!isActiveRef.current) return;
@@ -257,27 +404,25 @@ export const useSupabaseChat = (language: string) => {
       
       if (matchData.requires_confirmation && !matchData.both_confirmed) {
         console.log('⏳ Match requires bilateral confirmation...');
-        setAppState({ 
-          phase: 'confirming', 
-          message: '🤝 Match found! Confirming connection...',
-          details: 'Waiting for both users to confirm'
-        });
+        send({ type: 'MATCH_FOUND', message: 'progress.matchFound' });
       } else {
         console.log('✅ Match confirmed, activating chat');
-        setAppState({ 
-          phase: 'connected', 
-          message: '✅ Connected! Starting chat...' 
-        });
         handleMatchFound(matchData);
       }
       
     } catch (error) {
       handleError(error, 'handleBilateralMatchFound');
     }
-  }, [handleError]);
+  }, [send, handleError]);
 
   // Setup realtime subscriptions with error handling
-  const { updatePresence, broadcastMessage, refreshSubscriptions } = useSupabaseRealtime({
+  // Call signals are handled by useVideoCall, which itself sends through this channel
+  const callSignalHandlerRef = useRef<((signal: CallSignal) => void) | null>(null);
+  const handleCallSignal = useCallback((signal: CallSignal) => {
+    callSignalHandlerRef.current?.(signal);
+  }, []);
+
+  const { updatePresence, broadcastMessage, broadcastTyping, broadcastReceipt, broadcastCallSignal, refreshSubscriptions } = useSupabaseRealtime({
     userId: currentUser?.id,
     chatId: currentChat?.chat_id,
     onMessageReceived: handleMessageReceived,
@@ -285,8 +430,32 @@ export const useSupabaseChat = (language: string) => {
     onPresenceUpdate: handlePresenceUpdate,
     onChatUpdate: handleChatUpdate,
     onBilateralMatchFound: handleBilateralMatchFound,
+    onTypingUpdate: handleTypingUpdate,
+    onReceipt: handleReceipt,
+    onCallSignal: handleCallSignal,
+  });
+
+  const call = useVideoCall({
+    userId: currentUser?.id,
+    partnerId,
+    chatId: currentChat?.chat_id,
+    sendSignal: broadcastCallSignal,
   });
 
+  useEffect(() => {
+    callSignalHandlerRef.current = call.handleSignal;
+  }, [call.handleSignal]);
+
+  // Tell the partner we are typing, throttled so keystrokes don't flood the channel
+  const notifyTyping = useCallback(() => {
+    if (!isConnected) return;
+
+    const now = Date.now();
+    if (now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+    lastTypingSentRef.current = now;
+    broadcastTyping(true);
+  }, [isConnected, broadcastTyping]);
+
   // Initialize user session with error handling
   const initializeUser = useCallback(async (locationData: any) => {
     if (!isActiveRef.current) return null;
@@ -313,48 +482,47 @@ export const useSupabaseChat = (language: string) => {
         p_country: locationData?.country || 'Unknown',
         p_city: locationData?.city || 'Unknown',
         p_language: language,
-        p_latitude: locationData?.latitude || null,
-        p_longitude: locationData?.longitude || null,
+        p_latitude: locationData?.latitude || undefined,
+        p_longitude: locationData?.longitude || undefined,
         p_user_agent: navigator.userAgent,
-        p_ip_address: null // Will be detected server-side
+        p_interests: interests,
+        p_device_key: getDeviceKey()
       };
 
       console.log('💾 Inserting user data:', userData);
       
-      const { data, error } = await supabase.rpc('join_waiting_queue_v2', userData);
+      // Missing user_id / session_id come back as an error from the wrapper
+      const { data, error } = await joinWaitingQueue(userData);
 
       if (error) throw error;
-
-      // Log detailed response for debugging
-      console.log('🔍 RPC Response data:', data);
-      console.log('🔍 RPC Response type:', typeof data);
-      console.log('🔍 RPC Response keys:', data ? Object.keys(data) : 'null');
       
       if (!data) {
         throw new Error('No data returned from join_waiting_queue_v2 RPC call');
       }
       
       if (!data.success) {
+        if (data.error === DEVICE_FLAGGED_ERROR) {
+          console.warn('🚫 Device suspended by moderation, not retrying');
+          isSuspendedRef.current = true;
+          setIsConnecting(false);
+          send({
+            type: 'FAIL',
+            code: DEVICE_FLAGGED_ERROR,
+            message: 'common:errors.suspended',
+            canRetry: false
+          });
+          return null;
+        }
+
         const errorMsg = data.error || data.message || 'Failed to join queue - unknown error';
         console.error('🔍 RPC returned failure:', errorMsg);
-        console.error('🔍 Full RPC response:', JSON.stringify(data, null, 2));
         throw new Error(`RPC Error: ${errorMsg}`);
       }
       
-      if (!data.user_id) {
-        console.error('🔍 Missing user_id in response:', JSON.stringify(data, null, 2));
-        throw new Error('RPC returned success but missing user_id');
-      }
-      
-      if (!data.session_id) {
-        console.error('🔍 Missing session_id in response:', JSON.stringify(data, null, 2));
-        throw new Error('RPC returned success but missing session_id');
-      }
-      
       console.log('✅ User session initialized successfully');
       
       // Create user object from response
-      const userObject = {
+      const userObject: User = {
         id: data.user_id,
         device_id: deviceId,
         session_token: data.session_id,
@@ -363,8 +531,7 @@ export const useSupabaseChat = (language: string) => {
         city: locationData?.city || 'Unknown',
         language,
         status: 'searching',
-        connected_at: new Date().toISOString(),
-        last_activity: new Date().toISOString(),
+        previous_matches: [],
       };
       
       setCurrentUser(userObject);
@@ -382,58 +549,42 @@ export const useSupabaseChat = (language: string) => {
       handleError(error, 'initializeUser', true);
       return null;
     }
-  }, [language, updatePresence, handleError]);
+  }, [language, interests, updatePresence, send, handleError]);
 
-  // Start heartbeat system
-  const startHeartbeat = useCallback(() => {
-    if (heartbeatRef.current) {
-      clearInterval(heartbeatRef.current);
-    }
-    
-    console.log('💓 Starting heartbeat system (10s interval)');
-    heartbeatRef.current = setInterval(async () => {
-      if (!isActiveRef.current || !currentUser) return;
-      
-      try {
-        console.log('💓 Sending heartbeat ping...');
-        const { error } = await supabase.rpc('send_heartbeat', { 
-          p_user_id: currentUser.id,
-          p_connection_quality: connectionQuality
-        });
-        
-        if (error) {
-          console.warn('💔 Heartbeat failed:', error.message);
-          // Try to reconnect after 3 failed heartbeats
-          handleDisconnectReconnect();
-        } else {
-          console.log('✅ Heartbeat successful');
-        }
-      } catch (error) {
-        console.warn('💔 Heartbeat error:', error);
+  // Heartbeats are shared with the queue and presence, reconnect when they keep failing
+  const startHeartbeat = useCallback((userId: string) => {
+    console.log('💓 Starting shared heartbeat');
+    heartbeat.start(userId);
+  }, []);
+
+  useEffect(() => {
+    return heartbeat.subscribe((result) => {
+      if (!result.ok && result.consecutiveFailures === 3 && isActiveRef.current) {
+        console.warn('💔 3 heartbeats failed, reconnecting...');
         handleDisconnectReconnect();
       }
-    }, 10000); // Every 10 seconds
-  }, [currentUser, connectionQuality, handleDisconnectReconnect]);
+    });
+  }, [handleDisconnectReconnect]);
 
   // Start chat with comprehensive error handling
   const startChatWithLocation = useCallback(async () => {
-    if (!isActiveRef.current) return;
+    if (!isActiveRef.current || isSuspendedRef.current) return;
     
     try {
       console.log('🚀 FORCED START: Starting chat initialization (will proceed regardless)...');
       setIsConnecting(true);
       setConnectionError(null);
-      setAppState({ 
-        phase: 'loading', 
-        message: '🚀 FORCED START: Starting chat (will proceed regardless)...' 
+      send({ 
+        type: 'START', 
+        message: 'progress.starting'
       });
 
       // Step 1: FORCED location (non-blocking, 2s max, will proceed regardless)
       let locationData: any = null;
       try {
-        setAppState({ 
-          phase: 'geolocation', 
-          message: '📍 FORCED LOCATION: Getting location (2s max, will proceed regardless)...' 
+        send({ 
+          type: 'PROGRESS', 
+          message: 'progress.locating'
         });
         
         console.log('📍 FORCED LOCATION: Attempting geolocation (2s timeout, will proceed regardless)...');
@@ -464,19 +615,23 @@ export const useSupabaseChat = (language: string) => {
       if (locationError) {
         console.log('📍 FORCED PROGRESSION: Location error detected, setting null and proceeding:', locationError);
         locationData = null;
-        setAppState({ 
-          phase: 'joining_queue', 
-          message: '📍 FORCED PROGRESSION: Location unavailable, using global matching...' 
+        send({ 
+          type: 'PROGRESS', 
+          message: 'progress.locationUnavailable'
         });
       }
       
       // Step 2: FORCED user session initialization
-      setAppState({ 
-        phase: 'joining_queue', 
-        message: '👤 FORCED INIT: Initializing user session (will retry on fail)...' 
+      send({ 
+        type: 'LOCATED', 
+        message: 'progress.initializing'
       });
 
       const user = await initializeUser(locationData);
+      if (!user && isSuspendedRef.current) {
+        console.log('🚫 Device suspended, stopping chat initialization');
+        return;
+      }
       if (!user) {
         console.error('❌ FORCED RETRY: Failed to initialize user session, will retry...');
         // Force retry instead of throwing
@@ -491,9 +646,9 @@ export const useSupabaseChat = (language: string) => {
       
       // Step 3: FORCED queue join
       console.log('👤 FORCED QUEUE: User initialized, joining waiting queue (will retry on fail)...');
-      setAppState({ 
-        phase: 'joining_queue', 
-        message: '🔄 FORCED QUEUE: Joining waiting queue (will retry on fail)...' 
+      send({ 
+        type: 'PROGRESS', 
+        message: 'progress.joiningQueue'
       });
       
       try {
@@ -512,7 +667,7 @@ export const useSupabaseChat = (language: string) => {
       
       // Step 4: FORCED heartbeat system
       try {
-        startHeartbeat();
+        startHeartbeat(user.id);
       } catch (heartbeatError) {
         console.warn('⚠️ FORCED CONTINUE: Failed to start heartbeat, continuing anyway:', heartbeatError);
       }
@@ -530,7 +685,7 @@ export const useSupabaseChat = (language: string) => {
         }
       }, 3000);
     }
-  }, [requestLocationNonBlocking, initializeUser, joinQueue, startHeartbeat, handleError]);
+  }, [requestLocationNonBlocking, initializeUser, joinQueue, startHeartbeat, send, handleError]);
 
   // Handle match found with error handling
   const handleMatchFound = useCallback(async (match: any) => {
@@ -542,9 +697,11 @@ export const useSupabaseChat = (language: string) => {
       setIsConnecting(false);
       setIsConnected(true);
       setPartnerId(match.partner_id);
-      setAppState({ 
-        phase: 'connected', 
-        message: '✅ Connected! Chat is now active' 
+      send({ 
+        type: 'MATCH_CONFIRMED', 
+        chatId: match.chat_id,
+        partnerId: match.partner_id,
+        message: 'progress.connected'
       });
       
       setCurrentChat({ 
@@ -559,10 +716,13 @@ export const useSupabaseChat = (language: string) => {
       console.log('👤 Fetching partner information...');
       const { data: partnerData, error: partnerError } = await supabase
         .from('waiting_users')
-        .select('continent, country, city')
+        .select('continent, country, city, language')
         .eq('id', match.partner_id)
         .single();
 
+      // Messages are translated into this language when they are sent
+      setPartnerLanguage(match.partner_info?.language || partnerData?.language || null);
+
       if (partnerData && !partnerError) {
         console.log('👤 Partner info retrieved successfully');
         setPartnerLocation({
@@ -584,7 +744,7 @@ export const useSupabaseChat = (language: string) => {
       
       if (existingMessages && existingMessages.length > 0 && !messagesError) {
         console.log('📨 Loaded', existingMessages.length, 'existing messages');
-        setMessages(existingMessages);
+        setMessages(existingMessages.map((m: Message) => ({ ...m, status: getMessageStatus(m) })));
       } else if (messagesError) {
         console.warn('⚠️ Failed to load messages:', messagesError);
       }
@@ -594,40 +754,41 @@ export const useSupabaseChat = (language: string) => {
     } catch (error) {
       handleError(error, 'handleMatchFound');
     }
-  }, [currentUser, handleError]);
+  }, [currentUser, send, handleError]);
 
-  // Update app state based on queue state
+  // Update progress text while waiting in the queue
   useEffect(() => {
     // Show progress during searching with spinner/timer
-    if (isInQueue && isSearching) {
+    if (connection.state === 'searching') {
       const minutes = Math.floor(waitTime / 60);
       const seconds = waitTime % 60;
       const timeDisplay = `${minutes}:${seconds.toString().padStart(2, '0')}`;
       
+      // Position and connection quality have their own lines on the search screen
+      const totalWaiting = queueStats?.total_waiting || 0;
       if (searchAttempts === 0) {
-        setAppState({ 
-          phase: 'searching', 
-          message: `🔍 FORCED SEARCH: Searching for someone to chat with... (${timeDisplay})`,
-          details: queuePosition !== null ? `Position: ${queuePosition + 1} | ${queueStats?.total_waiting || 0} users online` : `${queueStats?.total_waiting || 0} users online`
+        send({ 
+          type: 'PROGRESS', 
+          message: 'progress.searching',
+          details: 'usersOnline',
+          params: { time: timeDisplay, count: totalWaiting }
         });
       } else {
-        const totalWaiting = queueStats?.total_waiting || 0;
-        setAppState({ 
-          phase: 'searching', 
-          message: `🔍 FORCED SEARCH: Finding perfect match... (${timeDisplay} | attempt ${searchAttempts})`,
-          details: totalWaiting > 0 ? `${totalWaiting} users online | Quality: ${connectionQuality}%` : 'You might be the first one here!'
+        send({ 
+          type: 'PROGRESS', 
+          message: 'progress.searchingAgain',
+          details: totalWaiting > 0 ? 'usersOnline' : 'progress.firstOne',
+          params: { time: timeDisplay, attempt: searchAttempts, count: totalWaiting }
         });
       }
-    } else if (isInQueue && !isSearching) {
-      setAppState({ 
-        phase: 'joining_queue', 
-        message: '⏳ FORCED QUEUE: In queue, starting matching soon...',
-        details: 'Preparing search algorithm...'
+    } else if (connection.state === 'queued') {
+      send({ 
+        type: 'PROGRESS', 
+        message: 'progress.queued',
+        details: 'progress.preparing'
       });
-    } else if (!isInQueue && !isConnected && appState.phase !== 'error') {
-      setAppState({ phase: 'idle', message: '' });
     }
-  }, [isInQueue, isSearching, searchAttempts, queueStats, queuePosition, appState.phase, waitTime, connectionQuality]);
+  }, [connection.state, send, searchAttempts, queueStats, waitTime]);
 
   // Handle match found from queue
   useEffect(() => {
@@ -637,43 +798,382 @@ export const useSupabaseChat = (language: string) => {
     }
   }, [matchResult, currentUser, handleMatchFound]);
 
-  // Send message with error handling
-  const sendMessage = useCallback(async (content: string) => {
-    if (!currentChat || !currentUser || !content.trim() || !isActiveRef.current) return;
+  // What the partner will see, null when their language needs no translation
+  const translateForPartner = useCallback(async (content: string): Promise<string | null> => {
+    if (!partnerLanguage || !content.trim()) return null;
+
+    // Short or ambiguous drafts are assumed to be in the sender's own language
+    const detection = identifyLanguage(content);
+    const source = detection.confidence >= MIN_DETECTION_CONFIDENCE ? detection.language : language;
+
+    const translated = await translateText(content, partnerLanguage, source);
+    return translated !== content ? translated : null;
+  }, [partnerLanguage, language]);
+
+  // Insert an optimistic message, the local copy is replaced by the stored row on success
+  const insertMessage = useCallback(async (
+    clientId: string,
+    content: string,
+    file?: MessageFile
+  ): Promise<SendMessageResult> => {
+    if (!currentChat || !currentUser) return { status: 'skipped' };
+
+    const setStatus = (status: MessageStatus) => {
+      setMessages(prev => prev.map(m => m.id === clientId ? { ...m, status } : m));
+    };
 
     try {
-      console.log('📤 Sending message:', content.substring(0, 50) + '...');
-      
+      console.log('📤 Sending message:', file ? `${file.kind} ${file.attachment.path}` : content.substring(0, 50) + '...');
+
+      // Translated once here so the partner renders it without calling the provider,
+      // the preview already put it in the translation cache
+      const translation = await translateForPartner(content);
+
       const messageData = {
         chat_id: currentChat.chat_id,
         sender_id: currentUser.id,
-        content: content.trim(),
+        client_id: clientId,
+        content,
+        kind: file?.kind ?? 'text',
+        attachment: file?.attachment ?? null,
+        translated_content: translation && partnerLanguage ? { [partnerLanguage]: translation } : {},
       };
 
-      const { data, error } = await supabase
+      let { data, error } = await supabase
         .from('chat_messages')
         .insert(messageData)
         .select()
         .single();
 
-      if (error) throw error;
+      // Already stored by an earlier attempt whose response was lost
+      if (error?.code === UNIQUE_VIOLATION) {
+        ({ data, error } = await supabase
+          .from('chat_messages')
+          .select('*')
+          .eq('sender_id', currentUser.id)
+          .eq('client_id', clientId)
+          .single());
+      }
+
+      // Throttled by the server: tell the user to slow down, no error screen or retry
+      const rateLimit = parseRateLimitError(error);
+      if (rateLimit) {
+        console.warn(`🐢 Message rate limited (${rateLimit.scope}), retry in ${rateLimit.retryAfterMs}ms`);
+        setStatus('failed');
+        return { status: 'rate_limited', retryAfterMs: rateLimit.retryAfterMs };
+      }
+
+      if (error || !data) throw error || new Error('Message insert returned no row');
 
       console.log('✅ Message sent successfully');
       
-      // Add message to local state immediately
-      setMessages(prev => [...prev, data]);
+      const earlyReceipt = earlyReceiptsRef.current.get(data.id);
+      earlyReceiptsRef.current.delete(data.id);
+      setMessages(prev => prev.map(m => m.id === clientId ? { ...data, status: earlyReceipt ?? 'sent' } : m));
       await broadcastMessage(data);
 
+      // The message itself ends the typing state
+      lastTypingSentRef.current = 0;
+      broadcastTyping(false);
+
       // Update user activity
       await supabase
         .from('waiting_users')
         .update({ last_heartbeat: new Date().toISOString() })
         .eq('id', currentUser.id);
 
+      return { status: 'sent' };
     } catch (error) {
-      handleError(error, 'sendMessage', false);
+      // Lost the network mid-send: keep it pending for the outbox
+      if (!navigator.onLine) {
+        console.log('📴 Offline while sending, message kept in outbox');
+        return { status: 'queued' };
+      }
+
+      // Failed sends stay in the conversation with a retry button
+      console.warn('⚠️ Failed to send message:', error);
+      setStatus('failed');
+      return { status: 'failed' };
+    }
+  }, [currentChat, currentUser, partnerLanguage, translateForPartner, broadcastMessage, broadcastTyping]);
+
+  // Send queued messages in order, stops at the first one that can't go out yet
+  const flushOutbox = useCallback(async () => {
+    if (isFlushingRef.current || !navigator.onLine || outboxRef.current.length === 0) return;
+    isFlushingRef.current = true;
+
+    try {
+      console.log('📬 Flushing outbox:', outboxRef.current.length, 'messages');
+
+      while (outboxRef.current.length > 0 && isActiveRef.current) {
+        const entry = outboxRef.current[0];
+
+        // The chat ended while offline
+        if (entry.chatId !== currentChat?.chat_id) {
+          outboxRef.current.shift();
+          continue;
+        }
+
+        const result = await insertMessage(entry.clientId, entry.content);
+        if (result.status === 'queued') break;
+
+        if (result.status === 'rate_limited') {
+          setMessages(prev => prev.map(m => m.id === entry.clientId ? { ...m, status: 'sending' } : m));
+          setTimeout(() => flushOutbox(), result.retryAfterMs);
+          break;
+        }
+
+        outboxRef.current.shift();
+      }
+    } finally {
+      isFlushingRef.current = false;
+    }
+  }, [currentChat, insertMessage]);
+
+  const enqueueMessage = useCallback((clientId: string, content: string): SendMessageResult => {
+    if (!currentChat) return { status: 'skipped' };
+
+    outboxRef.current.push({ clientId, chatId: currentChat.chat_id, content });
+    return { status: 'queued' };
+  }, [currentChat]);
+
+  // Send message with error handling
+  const sendMessage = useCallback(async (content: string, confirmed: boolean = false): Promise<SendMessageResult> => {
+    if (!currentChat || !currentUser || !content.trim() || !isActiveRef.current) return { status: 'skipped' };
+
+    // Run profanity / personal info filters before anything leaves the browser
+    const filtered = runMessageFilters(content.trim(), language);
+    if (filtered.action === 'block') {
+      console.warn('🛑 Message blocked by filter:', filtered.matches.map(m => m.category));
+      return { status: 'blocked', matches: filtered.matches };
+    }
+    if (filtered.action === 'warn' && !confirmed) {
+      console.log('⚠️ Message needs confirmation:', filtered.matches.map(m => m.category));
+      return { status: 'needs_confirmation', matches: filtered.matches };
+    }
+
+    const clientId = createClientId();
+    setMessages(prev => [...prev, {
+      id: clientId,
+      chat_id: currentChat.chat_id,
+      sender_id: currentUser.id,
+      client_id: clientId,
+      content: filtered.content,
+      kind: 'text',
+      attachment: null,
+      translated_content: {},
+      created_at: new Date().toISOString(),
+      delivered: false,
+      read_at: null,
+      status: 'sending',
+    }]);
+
+    // Keep order behind messages already waiting in the outbox
+    if (!navigator.onLine || outboxRef.current.length > 0) {
+      return enqueueMessage(clientId, filtered.content);
+    }
+
+    const result = await insertMessage(clientId, filtered.content);
+
+    if (result.status === 'queued') {
+      return enqueueMessage(clientId, filtered.content);
+    }
+
+    // A rate limited draft goes back to the input instead of the conversation
+    if (result.status === 'rate_limited') {
+      setMessages(prev => prev.filter(m => m.id !== clientId));
+    }
+
+    return result;
+  }, [currentChat, currentUser, language, insertMessage, enqueueMessage]);
+
+  // Upload the file, then store the message pointing at it
+  const deliverFileMessage = useCallback(async (clientId: string, file: MessageFile): Promise<SendMessageResult> => {
+    const upload = pendingUploadsRef.current.get(clientId);
+    if (!upload) return { status: 'skipped' };
+
+    const setFailed = () => {
+      setMessages(prev => prev.map(m => m.id === clientId ? { ...m, status: 'failed' } : m));
+    };
+
+    if (!navigator.onLine) {
+      setFailed();
+      return { status: 'failed' };
+    }
+
+    const { error } = await upload();
+    if (error) {
+      console.warn(`⚠️ Failed to upload ${file.kind} message:`, error);
+      setFailed();
+      return { status: 'failed' };
+    }
+
+    const result = await insertMessage(clientId, '', file);
+    // Files skip the outbox, they wait for the retry button instead
+    if (result.status === 'queued') {
+      setFailed();
+      return { status: 'failed' };
+    }
+    if (result.status === 'sent') {
+      pendingUploadsRef.current.delete(clientId);
+    }
+    return result;
+  }, [insertMessage]);
+
+  // Show the message right away, failures stay in the conversation with a retry button
+  const sendFileMessage = useCallback(async (
+    prepare: (chatId: string, clientId: string, userId: string) => { file: MessageFile; upload: () => Promise<{ error: Error | null }> }
+  ): Promise<SendMessageResult> => {
+    if (!currentChat || !currentUser || !isActiveRef.current) return { status: 'skipped' };
+
+    const clientId = createClientId();
+    const { file, upload } = prepare(currentChat.chat_id, clientId, currentUser.id);
+    pendingUploadsRef.current.set(clientId, upload);
+
+    setMessages(prev => [...prev, {
+      id: clientId,
+      chat_id: currentChat.chat_id,
+      sender_id: currentUser.id,
+      client_id: clientId,
+      content: '',
+      kind: file.kind,
+      attachment: file.attachment,
+      translated_content: {},
+      created_at: new Date().toISOString(),
+      delivered: false,
+      read_at: null,
+      status: 'sending',
+    }]);
+
+    return deliverFileMessage(clientId, file);
+  }, [currentChat, currentUser, deliverFileMessage]);
+
+  // Send a push-to-talk recording
+  const sendVoiceMessage = useCallback((recording: VoiceRecording) => sendFileMessage((chatId, clientId, userId) => {
+    const attachment = createVoiceAttachment(chatId, userId, clientId, recording);
+    return { file: { kind: 'voice', attachment }, upload: () => uploadVoiceRecording(userId, attachment, recording) };
+  }), [sendFileMessage]);
+
+  // Send an image already stripped and downscaled by prepareImage
+  const sendImageMessage = useCallback((image: ImageUpload) => sendFileMessage((chatId, clientId, userId) => {
+    const attachment = createImageAttachment(chatId, userId, clientId, image);
+    return { file: { kind: 'image', attachment }, upload: () => uploadImage(userId, attachment, image) };
+  }), [sendFileMessage]);
+
+  // Retry a message that failed to send
+  const retryMessage = useCallback(async (messageId: string): Promise<SendMessageResult> => {
+    const failed = messages.find(m => m.id === messageId && m.status === 'failed');
+    if (!failed || !isActiveRef.current) return { status: 'skipped' };
+
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, status: 'sending' } : m));
+    if (failed.kind === 'voice' && isVoiceAttachment(failed.attachment)) {
+      return deliverFileMessage(messageId, { kind: 'voice', attachment: failed.attachment });
+    }
+    if (failed.kind === 'image' && isImageAttachment(failed.attachment)) {
+      return deliverFileMessage(messageId, { kind: 'image', attachment: failed.attachment });
+    }
+
+    if (!navigator.onLine) {
+      return enqueueMessage(messageId, failed.content);
+    }
+
+    const result = await insertMessage(messageId, failed.content);
+    return result.status === 'queued' ? enqueueMessage(messageId, failed.content) : result;
+  }, [messages, insertMessage, enqueueMessage, deliverFileMessage]);
+
+  // Track connectivity and flush the outbox when the network comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOffline(false);
+      flushOutbox();
+    };
+    const handleOffline = () => setIsOffline(true);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [flushOutbox]);
+
+  // Queued messages belong to the chat they were written in
+  useEffect(() => {
+    outboxRef.current = outboxRef.current.filter(entry => entry.chatId === currentChat?.chat_id);
+    pendingUploadsRef.current.clear();
+  }, [currentChat?.chat_id]);
+
+  // Acknowledge partner messages: read while the tab is visible, delivered otherwise
+  const sendReceipts = useCallback(async () => {
+    if (!currentChat || !currentUser || !isConnected) return;
+
+    const status = document.visibilityState === 'visible' ? 'read' : 'delivered';
+    const messageIds = messages
+      .filter(m => m.sender_id !== currentUser.id && m.sender_id !== 'system')
+      .filter(m => {
+        const sent = receiptsSentRef.current.get(m.id);
+        return status === 'read' ? sent !== 'read' : !sent;
+      })
+      .map(m => m.id);
+
+    if (messageIds.length === 0) return;
+    messageIds.forEach(id => receiptsSentRef.current.set(id, status));
+
+    broadcastReceipt(messageIds, status);
+
+    const { data, error } = await updateMessageReceipts({
+      p_user_id: currentUser.id,
+      p_chat_id: currentChat.chat_id,
+      p_message_ids: messageIds,
+      p_status: status
+    });
+
+    if (error || !data?.success) {
+      console.warn('⚠️ Failed to store message receipts:', error || (data && !data.success && data.error));
     }
-  }, [currentChat, currentUser, broadcastMessage, handleError]);
+  }, [currentChat, currentUser, isConnected, messages, broadcastReceipt]);
+
+  useEffect(() => {
+    sendReceipts();
+  }, [sendReceipts]);
+
+  // Messages received in the background become read when the tab comes back
+  useEffect(() => {
+    const handleVisible = () => {
+      if (document.visibilityState === 'visible') {
+        sendReceipts();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisible);
+    return () => document.removeEventListener('visibilitychange', handleVisible);
+  }, [sendReceipts]);
+
+  useEffect(() => {
+    receiptsSentRef.current.clear();
+    earlyReceiptsRef.current.clear();
+  }, [currentChat?.chat_id]);
+
+  // Store a translation on the message so the partner and later reloads reuse it
+  const saveTranslation = useCallback(async (messageId: string, language: string, translation: string) => {
+    if (!currentChat || !currentUser) return;
+
+    const message = messages.find(m => m.id === messageId);
+    // Pending and system messages have no row yet
+    if (!message || message.sender_id === 'system' || message.id === message.client_id) return;
+
+    const { data, error } = await saveMessageTranslation({
+      p_user_id: currentUser.id,
+      p_chat_id: currentChat.chat_id,
+      p_message_id: messageId,
+      p_language: language,
+      p_translation: translation
+    });
+
+    if (error || !data?.success) {
+      console.warn('⚠️ Failed to store message translation:', error || (data && !data.success && data.error));
+    }
+  }, [currentChat, currentUser, messages]);
 
   // Handle next button click
   const handleNextClick = useCallback(async () => {
@@ -683,7 +1183,6 @@ export const useSupabaseChat = (language: string) => {
       console.log('➡️ Next button clicked');
       setShowNextButton(false);
       setNextButtonCountdown(0);
-      setAppState({ phase: 'idle', message: '' });
       
       if (currentUser) {
         // Small delay before rejoining
@@ -707,7 +1206,7 @@ export const useSupabaseChat = (language: string) => {
 
     try {
       // Clear all timeouts
-      [retryTimeoutRef, nextButtonTimeoutRef, heartbeatRef].forEach(ref => {
+      [retryTimeoutRef, nextButtonTimeoutRef, typingTimeoutRef].forEach(ref => {
         if (ref.current) {
           clearTimeout(ref.current);
           ref.current = null;
@@ -724,10 +1223,7 @@ export const useSupabaseChat = (language: string) => {
         .eq('id', currentUser.id);
 
       if (currentChat) {
-        await supabase.rpc('end_chat_session', {
-          p_user_id: currentUser.id,
-          p_chat_id: currentChat.chat_id
-        });
+        await endChatSession(currentUser.id, currentChat.chat_id);
       }
 
       await updatePresence('offline');
@@ -791,6 +1287,7 @@ export const useSupabaseChat = (language: string) => {
     partnerId,
     location,
     partnerLocation,
+    partnerLanguage,
     locationError,
     locationLoading,
     isIPBased,
@@ -801,15 +1298,28 @@ export const useSupabaseChat = (language: string) => {
     estimatedWait,
     waitTime,
     queueStats,
+    isPartnerTyping: isConnected && isPartnerTyping,
+    isOffline,
+    sharedInterests: isConnected ? matchResult?.shared_interests || [] : [],
     showNextButton,
     nextButtonCountdown,
-    appState, // État explicite pour l'interface
+    connectionState: connection.state, // État explicite pour l'interface
+    connectionContext: connection.context,
     startChatWithLocation,
     sendMessage,
+    sendVoiceMessage,
+    sendImageMessage,
+    retryMessage,
+    saveTranslation,
+    translateForPartner,
+    notifyTyping,
     skipPartner,
+    blockPartner,
+    reportPartner,
     handleNextClick,
     handleRetry, // Fonction retry pour l'interface
     disconnect,
     refreshSubscriptions,
+    call,
   };
 };
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
+import { checkUserStatus } from '../lib/rpc';
 import { RealtimeChannel } from '@supabase/supabase-js';
+import { heartbeat } from '../lib/heartbeat';
+import { CallSignal, parseCallSignal } from '../lib/callSignaling';
 
 interface UseSupabaseRealtimeProps {
   userId?: string;
@@ -10,6 +13,9 @@ interface UseSupabaseRealtimeProps {
   onPresenceUpdate?: (presence: any) => void;
   onChatUpdate?: (chat: any) => void;
   onBilateralMatchFound?: (matchData: any) => void;
+  onTypingUpdate?: (isTyping: boolean) => void;
+  onReceipt?: (messageIds: string[], status: 'delivered' | 'read') => void;
+  onCallSignal?: (signal: CallSignal) => void;
 }
 
 export const useSupabaseRealtime = ({
@@ -19,50 +25,31 @@ export const useSupabaseRealtime = ({
   onUserDisconnected,
   onPresenceUpdate,
   onChatUpdate,
-  onBilateralMatchFound
+  onBilateralMatchFound,
+  onTypingUpdate,
+  onReceipt,
+  onCallSignal
 }: UseSupabaseRealtimeProps) => {
   const channelRef = useRef<RealtimeChannel | null>(null);
   const presenceChannelRef = useRef<RealtimeChannel | null>(null);
   const matchingChannelRef = useRef<RealtimeChannel | null>(null);
-  const heartbeatRef = useRef<NodeJS.Timeout | null>(null);
-  const cleanupRef = useRef<NodeJS.Timeout | null>(null);
   const isActiveRef = useRef<boolean>(true);
-  const reconnectAttemptsRef = useRef<number>(0);
-  const maxReconnectAttempts = 10;
-  const baseReconnectDelay = 1000; // 1 second base delay
 
-  // Enhanced presence update with heartbeat
+  // Presence is kept alive by the shared heartbeat, this only starts it or beats now
   const updatePresence = useCallback(async (status: 'online' | 'offline' | 'away' = 'online') => {
-    if (!userId || !isActiveRef.current) return;
+    if (!userId) return;
 
-    try {
-      if (Math.random() < 0.1) { // Log only 10% to reduce spam
-        console.log('💓 Updating presence:', status);
-      }
-      const { error } = await supabase.rpc('send_heartbeat_v2', { 
-        p_user_id: userId,
-        p_connection_quality: 100
-      });
+    if (status === 'offline') {
+      heartbeat.stop();
+      return;
+    }
+    if (!isActiveRef.current) return;
 
-      if (error) {
-        console.warn('💔 Failed to update presence:', error.message);
-      } else {
-        if (Math.random() < 0.05) { // Log only 5% of successes
-          console.log('✅ Presence updated successfully');
-        }
-        reconnectAttemptsRef.current = 0; // Reset on success
-      }
-    } catch (error) {
-      console.warn('💔 Error updating presence:', error);
-      
-      // Auto-reconnect logic with exponential backoff
-      if (reconnectAttemptsRef.current < maxReconnectAttempts) {
-        reconnectAttemptsRef.current++;
-        const delay = Math.min(baseReconnectDelay * Math.pow(2, reconnectAttemptsRef.current - 1), 30000);
-        console.log(`🔄 Attempting reconnect ${reconnectAttemptsRef.current}/${maxReconnectAttempts} in ${delay}ms`);
-        setTimeout(() => updatePresence(status), delay);
-      }
+    if (Math.random() < 0.1) { // Log only 10% to reduce spam
+      console.log('💓 Updating presence:', status);
     }
+    heartbeat.start(userId);
+    await heartbeat.beat();
   }, [userId]);
 
   // Setup bilateral matching channel for real-time match notifications
@@ -177,6 +164,8 @@ export const useSupabaseRealtime = ({
     isActiveRef.current = true;
     console.log('👥 Setting up presence tracking for user:', userId);
 
+    let unsubscribeHeartbeat: (() => void) | null = null;
+
     const setupPresence = async () => {
       try {
         // Create presence channel with enhanced config
@@ -227,9 +216,7 @@ export const useSupabaseRealtime = ({
                 setTimeout(async () => {
                   if (!isActiveRef.current) return;
                   try {
-                    const { data, error } = await supabase.rpc('check_user_status', {
-                      p_user_id: key
-                    });
+                    const { data, error } = await checkUserStatus(key);
                     
                     if (error || !data?.is_active) {
                       console.log('✅ Confirmed: Partner disconnected');
@@ -259,7 +246,7 @@ export const useSupabaseRealtime = ({
                   online_at: new Date().toISOString(),
                   status: 'online',
                   last_heartbeat: new Date().toISOString(),
-                  connection_quality: 100
+                  connection_quality: heartbeat.getQuality()
                 });
                 
                 await updatePresence('online');
@@ -275,48 +262,22 @@ export const useSupabaseRealtime = ({
             }
           });
 
-        // Setup enhanced heartbeat every 5 seconds (reduced from 10s)
-        if (heartbeatRef.current) {
-          clearInterval(heartbeatRef.current);
-        }
-        heartbeatRef.current = setInterval(async () => {
-          if (!isActiveRef.current) return;
-          try {
-            if (Math.random() < 0.1) { // Log only 10% to reduce spam
-              console.log('💓 Sending presence heartbeat');
-            }
-            await updatePresence('online');
-            
-            // Update presence tracking
-            if (presenceChannelRef.current) {
-              await presenceChannelRef.current.track({
-                user_id: userId,
-                online_at: new Date().toISOString(),
-                status: 'online',
-                last_heartbeat: new Date().toISOString(),
-                connection_quality: 100
-              });
-            }
-          } catch (error) {
-            console.warn('💔 Heartbeat failed:', error);
-          }
-        }, 3000); // Every 3 seconds for keep-alive (reduced from 5s)
-
-        // Setup cleanup interval - reduced frequency
-        if (cleanupRef.current) {
-          clearInterval(cleanupRef.current);
-        }
-        cleanupRef.current = setInterval(async () => {
-          if (!isActiveRef.current) return;
+        // Refresh presence tracking on every shared heartbeat
+        unsubscribeHeartbeat?.();
+        unsubscribeHeartbeat = heartbeat.subscribe(async (result) => {
+          if (!isActiveRef.current || !presenceChannelRef.current) return;
           try {
-            if (Math.random() < 0.2) { // Log only 20% to reduce spam
-              console.log('🧹 Running periodic cleanup');
-            }
-            await supabase.rpc('cleanup_inactive_sessions_v2');
+            await presenceChannelRef.current.track({
+              user_id: userId,
+              online_at: new Date().toISOString(),
+              status: 'online',
+              last_heartbeat: new Date().toISOString(),
+              connection_quality: result.quality
+            });
           } catch (error) {
-            console.warn('🧹 Cleanup failed:', error);
+            console.warn('💔 Presence tracking failed:', error);
           }
-        }, 60000); // Every 60 seconds (reduced from 90s)
+        });
 
       } catch (error) {
         console.error('❌ Error setting up presence:', error);
@@ -329,14 +290,7 @@ export const useSupabaseRealtime = ({
     return () => {
       console.log('🧹 Cleaning up presence tracking');
       isActiveRef.current = false;
-      if (heartbeatRef.current) {
-        clearInterval(heartbeatRef.current);
-        heartbeatRef.current = null;
-      }
-      if (cleanupRef.current) {
-        clearInterval(cleanupRef.current);
-        cleanupRef.current = null;
-      }
+      unsubscribeHeartbeat?.();
       if (presenceChannelRef.current) {
         presenceChannelRef.current.unsubscribe();
         presenceChannelRef.current = null;
@@ -379,6 +333,28 @@ export const useSupabaseRealtime = ({
               }
             }
           )
+          // Partner typing notifications, never stored
+          .on('broadcast', { event: 'typing' }, ({ payload }) => {
+            if (!isActiveRef.current || payload?.sender_id === userId) return;
+            onTypingUpdate?.(Boolean(payload?.is_typing));
+          })
+          // Delivery and read acknowledgements from the partner
+          .on('broadcast', { event: 'receipt' }, ({ payload }) => {
+            if (!isActiveRef.current || payload?.reader_id === userId) return;
+            if (Array.isArray(payload?.message_ids) && (payload.status === 'delivered' || payload.status === 'read')) {
+              onReceipt?.(payload.message_ids, payload.status);
+            }
+          })
+          // WebRTC offer/answer/ICE and call invites from the partner
+          .on('broadcast', { event: 'call' }, ({ payload }) => {
+            if (!isActiveRef.current || payload?.sender_id === userId) return;
+            const signal = parseCallSignal(payload?.signal);
+            if (signal) {
+              onCallSignal?.(signal);
+            } else {
+              console.warn('📞 Ignoring malformed call signal:', payload);
+            }
+          })
           .on(
             'postgres_changes',
             {
@@ -466,7 +442,7 @@ export const useSupabaseRealtime = ({
         channelRef.current = null;
       }
     };
-  }, [chatId, onMessageReceived, onUserDisconnected, onChatUpdate, userId]);
+  }, [chatId, onMessageReceived, onUserDisconnected, onChatUpdate, onTypingUpdate, onReceipt, onCallSignal, userId]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -493,6 +469,51 @@ export const useSupabaseRealtime = ({
     }
   }, []);
 
+  // Broadcast typing state to the partner
+  const broadcastTyping = useCallback(async (isTyping: boolean) => {
+    if (!channelRef.current || !userId || !isActiveRef.current) return;
+
+    try {
+      await channelRef.current.send({
+        type: 'broadcast',
+        event: 'typing',
+        payload: { sender_id: userId, is_typing: isTyping }
+      });
+    } catch (error) {
+      console.warn('⚠️ Failed to broadcast typing:', error);
+    }
+  }, [userId]);
+
+  // Acknowledge partner messages as delivered or read
+  const broadcastReceipt = useCallback(async (messageIds: string[], status: 'delivered' | 'read') => {
+    if (!channelRef.current || !userId || !isActiveRef.current) return;
+
+    try {
+      await channelRef.current.send({
+        type: 'broadcast',
+        event: 'receipt',
+        payload: { reader_id: userId, message_ids: messageIds, status }
+      });
+    } catch (error) {
+      console.warn('⚠️ Failed to broadcast receipt:', error);
+    }
+  }, [userId]);
+
+  // Call signaling rides on the chat channel, nothing is stored
+  const broadcastCallSignal = useCallback(async (signal: CallSignal) => {
+    if (!channelRef.current || !userId || !isActiveRef.current) return;
+
+    try {
+      await channelRef.current.send({
+        type: 'broadcast',
+        event: 'call',
+        payload: { sender_id: userId, signal }
+      });
+    } catch (error) {
+      console.warn('⚠️ Failed to broadcast call signal:', error);
+    }
+  }, [userId]);
+
   // Broadcast bilateral match found
   const broadcastMatchFound = useCallback(async (matchData: any) => {
     if (!matchingChannelRef.current || !isActiveRef.current) return;
@@ -549,6 +570,9 @@ export const useSupabaseRealtime = ({
   return {
     updatePresence,
     broadcastMessage,
+    broadcastTyping,
+    broadcastReceipt,
+    broadcastCallSignal,
     broadcastMatchFound,
     refreshSubscriptions,
   };
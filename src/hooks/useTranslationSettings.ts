@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  loadTranslationSettings,
+  saveTranslationSettings,
+  nextDisplayMode,
+  MessageDisplay,
+} from '../lib/translationSettings';
+
+const NO_LANGUAGES: string[] = [];
+
+export const useTranslationSettings = (chatId?: string) => {
+  const [settings, setSettings] = useState(loadTranslationSettings);
+
+  useEffect(() => {
+    saveTranslationSettings(settings);
+  }, [settings]);
+
+  const cycleMode = useCallback(() => {
+    setSettings(prev => ({ ...prev, mode: nextDisplayMode(prev.mode) }));
+  }, []);
+
+  // Side a translated message shows on its own, undefined when it follows the global mode
+  const messageDisplayFor = useCallback(
+    (messageId: string): MessageDisplay | undefined => settings.messageDisplays[messageId],
+    [settings.messageDisplays]
+  );
+
+  const setMessageDisplay = useCallback((messageId: string, display: MessageDisplay) => {
+    setSettings(prev => {
+      // Re-inserted last so the most recently flipped messages survive trimming
+      const messageDisplays = { ...prev.messageDisplays };
+      delete messageDisplays[messageId];
+      return { ...prev, messageDisplays: { ...messageDisplays, [messageId]: display } };
+    });
+  }, []);
+
+  const neverTranslate = (chatId && settings.neverTranslate[chatId]) || NO_LANGUAGES;
+
+  const toggleNeverTranslate = useCallback((sourceLanguage: string) => {
+    if (!chatId) return;
+    setSettings(prev => {
+      const current = prev.neverTranslate[chatId] || [];
+      const languages = current.includes(sourceLanguage)
+        ? current.filter(lang => lang !== sourceLanguage)
+        : [...current, sourceLanguage];
+      const neverTranslate = { ...prev.neverTranslate };
+      delete neverTranslate[chatId];
+      return {
+        ...prev,
+        neverTranslate: languages.length > 0 ? { ...neverTranslate, [chatId]: languages } : neverTranslate,
+      };
+    });
+  }, [chatId]);
+
+  return {
+    mode: settings.mode,
+    cycleMode,
+    messageDisplayFor,
+    setMessageDisplay,
+    neverTranslate,
+    toggleNeverTranslate,
+  };
+};
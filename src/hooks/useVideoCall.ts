@@ -0,0 +1,334 @@
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import {
+  CallMedia,
+  CallSignal,
+  CallEndReason,
+  CALL_RING_TIMEOUT_MS,
+  readIceServers,
+  hasTurnServer,
+  isCallSupported,
+} from '../lib/callSignaling';
+
+export type CallState = 'idle' | 'outgoing' | 'incoming' | 'connecting' | 'active';
+
+interface UseVideoCallProps {
+  userId?: string;
+  partnerId?: string | null;
+  chatId?: string;
+  sendSignal: (signal: CallSignal) => Promise<void>;
+}
+
+// Optional peer-to-peer call next to the text chat. The caller invites, the callee accepts,
+// then the caller sends the offer. Any refusal or failure drops back to text with a reason.
+export const useVideoCall = ({ userId, partnerId, chatId, sendSignal }: UseVideoCallProps) => {
+  const [callState, setCallState] = useState<CallState>('idle');
+  const [media, setMedia] = useState<CallMedia>('video');
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [isCameraOn, setIsCameraOn] = useState(true);
+  const [isMicrophoneOn, setIsMicrophoneOn] = useState(true);
+  const [endReason, setEndReason] = useState<CallEndReason | null>(null);
+
+  // Direct connections show the partner our IP address, relaying through TURN avoids it when configured
+  const iceServers = useMemo(() => readIceServers(), []);
+  const canRelay = useMemo(() => hasTurnServer(iceServers), [iceServers]);
+  const [isRelayOnly, setIsRelayOnly] = useState(canRelay);
+
+  // Signals arrive outside React renders, they read the latest state from refs
+  const stateRef = useRef<CallState>('idle');
+  const mediaRef = useRef<CallMedia>('video');
+  const peerRef = useRef<RTCPeerConnection | null>(null);
+  const localStreamRef = useRef<MediaStream | null>(null);
+  // Candidates that arrived before the remote description
+  const pendingCandidatesRef = useRef<RTCIceCandidateInit[]>([]);
+  const ringTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  const updateState = useCallback((state: CallState) => {
+    stateRef.current = state;
+    setCallState(state);
+  }, []);
+
+  const clearRingTimeout = () => {
+    if (ringTimeoutRef.current) {
+      clearTimeout(ringTimeoutRef.current);
+      ringTimeoutRef.current = null;
+    }
+  };
+
+  // Close the connection and release the camera and microphone, null ends without a notice
+  const endCall = useCallback((reason: CallEndReason | null) => {
+    clearRingTimeout();
+
+    const peer = peerRef.current;
+    if (peer) {
+      peer.onicecandidate = null;
+      peer.ontrack = null;
+      peer.onconnectionstatechange = null;
+      peer.close();
+      peerRef.current = null;
+    }
+
+    localStreamRef.current?.getTracks().forEach(track => track.stop());
+    localStreamRef.current = null;
+    pendingCandidatesRef.current = [];
+
+    setLocalStream(null);
+    setRemoteStream(null);
+    setIsCameraOn(true);
+    setIsMicrophoneOn(true);
+    setEndReason(reason);
+    updateState('idle');
+  }, [updateState]);
+
+  const acquireMedia = useCallback(async (kind: CallMedia): Promise<MediaStream | null> => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: kind === 'video' });
+      localStreamRef.current = stream;
+      setLocalStream(stream);
+      return stream;
+    } catch (error) {
+      console.warn('📞 Camera or microphone unavailable:', error);
+      return null;
+    }
+  }, []);
+
+  // Media acquired for a call that ended while the browser asked for permission
+  const discardMedia = useCallback((stream: MediaStream | null) => {
+    stream?.getTracks().forEach(track => track.stop());
+    if (localStreamRef.current === stream) {
+      localStreamRef.current = null;
+      setLocalStream(null);
+    }
+  }, []);
+
+  const createPeer = useCallback((stream: MediaStream) => {
+    const peer = new RTCPeerConnection({
+      iceServers,
+      iceTransportPolicy: canRelay && isRelayOnly ? 'relay' : 'all',
+    });
+    stream.getTracks().forEach(track => peer.addTrack(track, stream));
+
+    peer.onicecandidate = ({ candidate }) => {
+      if (candidate) sendSignal({ type: 'ice', candidate: candidate.toJSON() });
+    };
+    peer.ontrack = ({ streams }) => {
+      setRemoteStream(streams[0] ?? null);
+    };
+    peer.onconnectionstatechange = () => {
+      if (peer.connectionState === 'connected') {
+        updateState('active');
+      } else if (peer.connectionState === 'failed') {
+        console.warn('📞 Call connection failed');
+        sendSignal({ type: 'hangup' });
+        endCall('failed');
+      }
+    };
+
+    peerRef.current = peer;
+    return peer;
+  }, [iceServers, canRelay, isRelayOnly, sendSignal, updateState, endCall]);
+
+  const flushPendingCandidates = async (peer: RTCPeerConnection) => {
+    const candidates = pendingCandidatesRef.current;
+    pendingCandidatesRef.current = [];
+    for (const candidate of candidates) {
+      await peer.addIceCandidate(candidate).catch(error => console.warn('📞 Ignoring ICE candidate:', error));
+    }
+  };
+
+  const startCall = useCallback(async (kind: CallMedia) => {
+    if (stateRef.current !== 'idle' || !chatId) return;
+    if (!isCallSupported()) {
+      setEndReason('unavailable');
+      return;
+    }
+
+    mediaRef.current = kind;
+    setMedia(kind);
+    setEndReason(null);
+    updateState('outgoing');
+
+    const stream = await acquireMedia(kind);
+    // Cancelled during the await, the ref may have changed
+    if ((stateRef.current as CallState) !== 'outgoing') {
+      discardMedia(stream);
+      return;
+    }
+    if (!stream) {
+      endCall('unavailable');
+      return;
+    }
+
+    await sendSignal({ type: 'invite', media: kind });
+    ringTimeoutRef.current = setTimeout(() => {
+      if (stateRef.current !== 'outgoing') return;
+      sendSignal({ type: 'hangup' });
+      endCall('unanswered');
+    }, CALL_RING_TIMEOUT_MS);
+  }, [chatId, acquireMedia, discardMedia, sendSignal, updateState, endCall]);
+
+  const acceptCall = useCallback(async () => {
+    if (stateRef.current !== 'incoming') return;
+    updateState('connecting');
+
+    const stream = isCallSupported() ? await acquireMedia(mediaRef.current) : null;
+    // The caller hung up during the await
+    if ((stateRef.current as CallState) !== 'connecting') {
+      discardMedia(stream);
+      return;
+    }
+    if (!stream) {
+      sendSignal({ type: 'decline', reason: 'unavailable' });
+      endCall('unavailable');
+      return;
+    }
+
+    createPeer(stream);
+    await sendSignal({ type: 'accept' });
+  }, [acquireMedia, discardMedia, createPeer, sendSignal, updateState, endCall]);
+
+  const declineCall = useCallback(() => {
+    if (stateRef.current !== 'incoming') return;
+    sendSignal({ type: 'decline', reason: 'declined' });
+    endCall(null);
+  }, [sendSignal, endCall]);
+
+  // Cancel an outgoing invite or leave the call
+  const hangUp = useCallback(() => {
+    if (stateRef.current === 'idle') return;
+    sendSignal({ type: 'hangup' });
+    endCall(null);
+  }, [sendSignal, endCall]);
+
+  const handleSignal = useCallback(async (signal: CallSignal) => {
+    const state = stateRef.current;
+
+    try {
+      switch (signal.type) {
+        case 'invite':
+          if (state === 'idle') {
+            mediaRef.current = signal.media;
+            setMedia(signal.media);
+            setEndReason(null);
+            updateState('incoming');
+          } else if (state === 'outgoing' && localStreamRef.current && userId && partnerId && userId > partnerId) {
+            // Both called at once: the larger id answers the other invite, the smaller one ignores it
+            clearRingTimeout();
+            updateState('connecting');
+            createPeer(localStreamRef.current);
+            await sendSignal({ type: 'accept' });
+          }
+          break;
+
+        case 'accept': {
+          if (state !== 'outgoing' || !localStreamRef.current) return;
+          clearRingTimeout();
+          updateState('connecting');
+
+          const peer = createPeer(localStreamRef.current);
+          const offer = await peer.createOffer();
+          await peer.setLocalDescription(offer);
+          await sendSignal({ type: 'offer', sdp: offer.sdp ?? '' });
+          break;
+        }
+
+        case 'offer': {
+          const peer = peerRef.current;
+          if (!peer || state !== 'connecting') return;
+
+          await peer.setRemoteDescription({ type: 'offer', sdp: signal.sdp });
+          await flushPendingCandidates(peer);
+          const answer = await peer.createAnswer();
+          await peer.setLocalDescription(answer);
+          await sendSignal({ type: 'answer', sdp: answer.sdp ?? '' });
+          break;
+        }
+
+        case 'answer': {
+          const peer = peerRef.current;
+          if (!peer || peer.signalingState !== 'have-local-offer') return;
+
+          await peer.setRemoteDescription({ type: 'answer', sdp: signal.sdp });
+          await flushPendingCandidates(peer);
+          break;
+        }
+
+        case 'ice': {
+          const peer = peerRef.current;
+          if (peer?.remoteDescription) {
+            await peer.addIceCandidate(signal.candidate);
+          } else if (state !== 'idle') {
+            pendingCandidatesRef.current.push(signal.candidate);
+          }
+          break;
+        }
+
+        case 'decline':
+          if (state === 'outgoing') endCall(signal.reason);
+          break;
+
+        case 'hangup':
+          if (state !== 'idle') endCall('hung_up');
+          break;
+      }
+    } catch (error) {
+      console.warn(`📞 Could not handle ${signal.type} signal:`, error);
+      sendSignal({ type: 'hangup' });
+      endCall('failed');
+    }
+  }, [userId, partnerId, createPeer, sendSignal, updateState, endCall]);
+
+  const toggleCamera = useCallback(() => {
+    const next = !isCameraOn;
+    localStreamRef.current?.getVideoTracks().forEach(track => {
+      track.enabled = next;
+    });
+    setIsCameraOn(next);
+  }, [isCameraOn]);
+
+  const toggleMicrophone = useCallback(() => {
+    const next = !isMicrophoneOn;
+    localStreamRef.current?.getAudioTracks().forEach(track => {
+      track.enabled = next;
+    });
+    setIsMicrophoneOn(next);
+  }, [isMicrophoneOn]);
+
+  const dismissEndReason = useCallback(() => setEndReason(null), []);
+
+  // The partner left the chat mid-call
+  useEffect(() => {
+    if (!partnerId && stateRef.current !== 'idle') {
+      endCall('hung_up');
+    }
+  }, [partnerId, endCall]);
+
+  // Calls never outlive their chat
+  useEffect(() => {
+    return () => endCall(null);
+  }, [chatId, endCall]);
+
+  return {
+    callState,
+    media,
+    localStream,
+    remoteStream,
+    isCameraOn,
+    isMicrophoneOn,
+    endReason,
+    canRelay,
+    isRelayOnly,
+    setIsRelayOnly,
+    isSupported: isCallSupported(),
+    startCall,
+    acceptCall,
+    declineCall,
+    hangUp,
+    toggleCamera,
+    toggleMicrophone,
+    dismissEndReason,
+    handleSignal,
+  };
+};
+
+export type VideoCall = ReturnType<typeof useVideoCall>;
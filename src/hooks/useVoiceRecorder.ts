@@ -0,0 +1,134 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import {
+  VoiceRecording,
+  MAX_VOICE_DURATION_MS,
+  MIN_VOICE_DURATION_MS,
+  isVoiceRecordingSupported,
+  pickRecordingMimeType,
+  computeWaveform,
+} from '../lib/voiceMessages';
+
+export type VoiceRecorderError = 'unsupported' | 'permission_denied' | 'failed';
+
+// Push-to-talk: start() when the button is pressed, stop() on release resolves to the recording
+export const useVoiceRecorder = () => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [error, setError] = useState<VoiceRecorderError | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef<number>(0);
+  const tickRef = useRef<NodeJS.Timeout | null>(null);
+  const limitRef = useRef<NodeJS.Timeout | null>(null);
+  // Released before getUserMedia resolved, the recording is dropped as soon as it starts
+  const releasedRef = useRef<boolean>(false);
+  const stopPromiseRef = useRef<Promise<VoiceRecording | null> | null>(null);
+
+  const releaseMicrophone = useCallback(() => {
+    if (tickRef.current) clearInterval(tickRef.current);
+    if (limitRef.current) clearTimeout(limitRef.current);
+    tickRef.current = null;
+    limitRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    recorderRef.current = null;
+    setIsRecording(false);
+    setElapsedMs(0);
+  }, []);
+
+  const stop = useCallback((): Promise<VoiceRecording | null> => {
+    releasedRef.current = true;
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === 'inactive') {
+      return stopPromiseRef.current || Promise.resolve(null);
+    }
+
+    stopPromiseRef.current = new Promise<VoiceRecording | null>((resolve) => {
+      recorder.onstop = async () => {
+        const durationMs = Math.min(Date.now() - startedAtRef.current, MAX_VOICE_DURATION_MS);
+        const mimeType = recorder.mimeType || chunksRef.current[0]?.type || 'audio/webm';
+        const blob = new Blob(chunksRef.current, { type: mimeType });
+        chunksRef.current = [];
+        releaseMicrophone();
+
+        if (durationMs < MIN_VOICE_DURATION_MS || blob.size === 0) {
+          resolve(null);
+          return;
+        }
+
+        resolve({ blob, mimeType, durationMs, waveform: await computeWaveform(blob) });
+      };
+      recorder.stop();
+    }).finally(() => {
+      stopPromiseRef.current = null;
+    });
+
+    return stopPromiseRef.current;
+  }, [releaseMicrophone]);
+
+  // Discard the recording, e.g. when the pointer leaves the button
+  const cancel = useCallback(() => {
+    releasedRef.current = true;
+    // Already released, the recording is on its way
+    if (stopPromiseRef.current) return;
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    chunksRef.current = [];
+    releaseMicrophone();
+  }, [releaseMicrophone]);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current) return;
+    if (!isVoiceRecordingSupported()) {
+      setError('unsupported');
+      return;
+    }
+
+    releasedRef.current = false;
+    setError(null);
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (releasedRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      const mimeType = pickRecordingMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+
+      streamRef.current = stream;
+      recorderRef.current = recorder;
+      chunksRef.current = [];
+      startedAtRef.current = Date.now();
+      recorder.start();
+      setIsRecording(true);
+
+      tickRef.current = setInterval(() => {
+        setElapsedMs(Math.min(Date.now() - startedAtRef.current, MAX_VOICE_DURATION_MS));
+      }, 200);
+      // Paused at the limit, releasing the button still sends what was recorded
+      limitRef.current = setTimeout(() => {
+        if (recorder.state === 'recording') recorder.requestData();
+        if (recorder.state !== 'inactive') recorder.pause();
+      }, MAX_VOICE_DURATION_MS);
+    } catch (err) {
+      console.warn('🎙️ Could not start recording:', err);
+      setError(err instanceof DOMException && err.name === 'NotAllowedError' ? 'permission_denied' : 'failed');
+      releaseMicrophone();
+    }
+  }, [releaseMicrophone]);
+
+  // Never leave the microphone on after leaving the chat
+  useEffect(() => cancel, [cancel]);
+
+  return { isRecording, elapsedMs, error, start, stop, cancel };
+};
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { parseCallSignal, readIceServers, hasTurnServer } from './callSignaling';
+
+const env = (iceServers?: string) => ({ VITE_ICE_SERVERS: iceServers }) as ImportMetaEnv;
+
+// Payloads come straight from the partner's broadcasts
+describe('parseCallSignal', () => {
+  it('accepts every well-formed signal', () => {
+    const candidate = { candidate: 'candidate:1 1 udp 2122260223 192.0.2.1 54400 typ host', sdpMid: '0', sdpMLineIndex: 0 };
+    expect(parseCallSignal({ type: 'invite', media: 'video' })).toEqual({ type: 'invite', media: 'video' });
+    expect(parseCallSignal({ type: 'accept' })).toEqual({ type: 'accept' });
+    expect(parseCallSignal({ type: 'offer', sdp: 'v=0' })).toEqual({ type: 'offer', sdp: 'v=0' });
+    expect(parseCallSignal({ type: 'answer', sdp: 'v=0' })).toEqual({ type: 'answer', sdp: 'v=0' });
+    expect(parseCallSignal({ type: 'ice', candidate })).toEqual({ type: 'ice', candidate });
+    expect(parseCallSignal({ type: 'hangup' })).toEqual({ type: 'hangup' });
+  });
+
+  it('keeps only the known fields', () => {
+    expect(parseCallSignal({ type: 'hangup', reason: 'x', sdp: 'v=0' })).toEqual({ type: 'hangup' });
+    expect(parseCallSignal({ type: 'invite', media: 'audio', sdp: 'v=0' })).toEqual({ type: 'invite', media: 'audio' });
+  });
+
+  it('drops malformed invites', () => {
+    expect(parseCallSignal({ type: 'invite' })).toBeNull();
+    expect(parseCallSignal({ type: 'invite', media: 'screen' })).toBeNull();
+    expect(parseCallSignal({ type: 'invite', media: ['video'] })).toBeNull();
+  });
+
+  it('drops offers and answers without an sdp string', () => {
+    expect(parseCallSignal({ type: 'offer' })).toBeNull();
+    expect(parseCallSignal({ type: 'offer', sdp: { type: 'offer' } })).toBeNull();
+    expect(parseCallSignal({ type: 'answer', sdp: null })).toBeNull();
+  });
+
+  it('drops ice without a candidate string', () => {
+    expect(parseCallSignal({ type: 'ice' })).toBeNull();
+    expect(parseCallSignal({ type: 'ice', candidate: 'candidate:1' })).toBeNull();
+    expect(parseCallSignal({ type: 'ice', candidate: ['candidate:1'] })).toBeNull();
+    expect(parseCallSignal({ type: 'ice', candidate: { sdpMid: '0' } })).toBeNull();
+  });
+
+  it('drops unknown types and payloads that are not objects', () => {
+    expect(parseCallSignal({ type: 'transfer' })).toBeNull();
+    expect(parseCallSignal({ type: 'INVITE', media: 'audio' })).toBeNull();
+    expect(parseCallSignal({})).toBeNull();
+    expect(parseCallSignal(null)).toBeNull();
+    expect(parseCallSignal('hangup')).toBeNull();
+    expect(parseCallSignal([{ type: 'hangup' }])).toBeNull();
+  });
+
+  it('reads any decline other than unavailable as declined', () => {
+    expect(parseCallSignal({ type: 'decline', reason: 'unavailable' })).toEqual({ type: 'decline', reason: 'unavailable' });
+    expect(parseCallSignal({ type: 'decline', reason: 'declined' })).toEqual({ type: 'decline', reason: 'declined' });
+    expect(parseCallSignal({ type: 'decline' })).toEqual({ type: 'decline', reason: 'declined' });
+    expect(parseCallSignal({ type: 'decline', reason: 'busy' })).toEqual({ type: 'decline', reason: 'declined' });
+    expect(parseCallSignal({ type: 'decline', reason: 42 })).toEqual({ type: 'decline', reason: 'declined' });
+  });
+});
+
+describe('readIceServers', () => {
+  it('uses the configured servers', () => {
+    const servers = [{ urls: 'turn:turn.example.com', username: 'u', credential: 'p' }];
+    expect(readIceServers(env(JSON.stringify(servers)))).toEqual(servers);
+  });
+
+  it('falls back to STUN without a valid configuration', () => {
+    expect(readIceServers(env())).toEqual([{ urls: 'stun:stun.l.google.com:19302' }]);
+    expect(readIceServers(env('[{"url": "turn:turn.example.com"}]'))).toEqual([{ urls: 'stun:stun.l.google.com:19302' }]);
+  });
+});
+
+describe('hasTurnServer', () => {
+  it('offers relaying only with a TURN server', () => {
+    expect(hasTurnServer([{ urls: 'stun:stun.l.google.com:19302' }])).toBe(false);
+    expect(hasTurnServer([{ urls: 'turn:turn.example.com:3478' }])).toBe(true);
+    expect(hasTurnServer([{ urls: ['stun:stun.example.com', 'turns:turn.example.com:443'] }])).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+// WebRTC signaling for audio/video calls, carried as `call` broadcasts on the `chat:${chatId}` channel.
+// Nothing is stored: the invite is answered, then the caller sends the offer and both sides trade ICE.
+//
+// Locally: open the app in a normal and a private window (separate device ids) of a browser started
+// with --use-fake-device-for-media-stream --use-fake-ui-for-media-stream, then call from either side.
+
+export type CallMedia = 'audio' | 'video';
+
+// Why a call did not happen or stopped, the chat carries on in text
+export type CallEndReason = 'declined' | 'unavailable' | 'unanswered' | 'failed' | 'hung_up';
+
+export type CallSignal =
+  | { type: 'invite'; media: CallMedia }
+  | { type: 'accept' }
+  | { type: 'decline'; reason: 'declined' | 'unavailable' }
+  | { type: 'offer'; sdp: string }
+  | { type: 'answer'; sdp: string }
+  | { type: 'ice'; candidate: RTCIceCandidateInit }
+  | { type: 'hangup' };
+
+// How long an invite rings before the caller gives up
+export const CALL_RING_TIMEOUT_MS = 30000;
+
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Broadcast payloads come from the partner's browser, anything unexpected is dropped
+export const parseCallSignal = (payload: unknown): CallSignal | null => {
+  if (!isRecord(payload)) return null;
+
+  switch (payload.type) {
+    case 'invite':
+      return payload.media === 'audio' || payload.media === 'video' ? { type: 'invite', media: payload.media } : null;
+    case 'accept':
+    case 'hangup':
+      return { type: payload.type };
+    case 'decline':
+      return { type: 'decline', reason: payload.reason === 'unavailable' ? 'unavailable' : 'declined' };
+    case 'offer':
+    case 'answer':
+      return typeof payload.sdp === 'string' ? { type: payload.type, sdp: payload.sdp } : null;
+    case 'ice':
+      return isRecord(payload.candidate) && typeof payload.candidate.candidate === 'string'
+        ? { type: 'ice', candidate: payload.candidate as RTCIceCandidateInit }
+        : null;
+    default:
+      return null;
+  }
+};
+
+// STUN/TURN servers from VITE_ICE_SERVERS, a JSON array of RTCIceServer, Google STUN otherwise
+export const readIceServers = (env: ImportMetaEnv = import.meta.env): RTCIceServer[] => {
+  if (!env.VITE_ICE_SERVERS) return DEFAULT_ICE_SERVERS;
+
+  try {
+    const servers = JSON.parse(env.VITE_ICE_SERVERS);
+    if (Array.isArray(servers) && servers.every(server => isRecord(server) && 'urls' in server)) {
+      return servers;
+    }
+  } catch {
+    // Reported below
+  }
+  console.warn('📞 VITE_ICE_SERVERS is not a JSON array of ICE servers, using the default STUN server');
+  return DEFAULT_ICE_SERVERS;
+};
+
+// A relay-only call hides each side's IP address from the other, which needs a TURN server
+export const hasTurnServer = (servers: RTCIceServer[]) =>
+  servers.some(server => [server.urls].flat().some(url => /^turns?:/.test(url)));
+
+export const isCallSupported = () =>
+  typeof RTCPeerConnection !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
@@ -0,0 +1,51 @@
+import { supabase } from './supabase';
+import { getDeviceKey } from './deviceKey';
+
+// Chat media buckets are private with no storage policies. The chat-media Edge Function checks
+// that the user takes part in the open chat of a path, then signs an upload or a download.
+// The device key proves the request comes from that user, chat participants are public.
+
+export type ChatMediaBucket = 'voice-messages' | 'chat-images';
+
+interface ChatMediaResponse {
+  success: boolean;
+  message?: string;
+  token?: string;
+  signed_url?: string;
+}
+
+const requestChatMedia = async (action: 'upload' | 'download', bucket: ChatMediaBucket, userId: string, path: string) => {
+  const { data, error } = await supabase.functions.invoke<ChatMediaResponse>('chat-media', {
+    body: { action, bucket, user_id: userId, device_key: getDeviceKey(), path },
+  });
+  if (error || !data?.success) {
+    return { data: null, error: error ?? new Error(data?.message || `chat-media ${action} refused`) };
+  }
+  return { data, error: null };
+};
+
+export const uploadChatMedia = async (
+  bucket: ChatMediaBucket,
+  userId: string,
+  path: string,
+  blob: Blob,
+  contentType: string
+): Promise<{ error: Error | null }> => {
+  const { data, error } = await requestChatMedia('upload', bucket, userId, path);
+  const token = data?.token;
+  if (error || !token) return { error: error ?? new Error('chat-media upload returned no token') };
+
+  const { error: uploadError } = await supabase.storage.from(bucket).uploadToSignedUrl(path, token, blob, { contentType });
+  return { error: uploadError };
+};
+
+// Null once the chat has ended, its media is purged then
+export const getChatMediaUrl = async (bucket: ChatMediaBucket, userId: string, path: string): Promise<string | null> => {
+  const { data, error } = await requestChatMedia('download', bucket, userId, path);
+  const signedUrl = data?.signed_url;
+  if (error || !signedUrl) {
+    console.warn(`📎 ${bucket} file unavailable:`, error);
+    return null;
+  }
+  return signedUrl;
+};
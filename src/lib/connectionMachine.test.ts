@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ConnectionEvent,
+  ConnectionSnapshot,
+  ConnectionState,
+  INITIAL_CONNECTION,
+  transition,
+  isQueueState,
+} from './connectionMachine';
+
+const at = (state: ConnectionState, context: ConnectionSnapshot['context'] = { message: '' }): ConnectionSnapshot => ({
+  state,
+  context,
+});
+
+// Apply events in order, failing the test on the first one that is ignored
+const run = (snapshot: ConnectionSnapshot, events: ConnectionEvent[]) =>
+  events.reduce((current, event) => {
+    const result = transition(current, event);
+    if (!result) throw new Error(`${event.type} ignored in ${current.state}`);
+    return result.snapshot;
+  }, snapshot);
+
+describe('transition', () => {
+  describe('valid transitions', () => {
+    it.each<[ConnectionState, ConnectionEvent, ConnectionState]>([
+      ['idle', { type: 'START' }, 'locating'],
+      ['idle', { type: 'JOIN_QUEUE' }, 'queued'],
+      ['locating', { type: 'LOCATED' }, 'queued'],
+      ['locating', { type: 'LEAVE' }, 'ended'],
+      ['queued', { type: 'QUEUE_JOINED' }, 'searching'],
+      ['queued', { type: 'JOIN_QUEUE' }, 'queued'],
+      ['searching', { type: 'MATCH_FOUND' }, 'confirming'],
+      ['searching', { type: 'MATCH_CONFIRMED', chatId: 'c1', partnerId: 'p1' }, 'chatting'],
+      ['confirming', { type: 'MATCH_CONFIRMED', chatId: 'c1', partnerId: 'p1' }, 'chatting'],
+      ['confirming', { type: 'CONFIRMATION_FAILED' }, 'searching'],
+      ['chatting', { type: 'PARTNER_LEFT' }, 'partner_left'],
+      ['chatting', { type: 'JOIN_QUEUE' }, 'queued'],
+      ['chatting', { type: 'LEAVE' }, 'ended'],
+      ['partner_left', { type: 'START' }, 'locating'],
+      ['partner_left', { type: 'JOIN_QUEUE' }, 'queued'],
+      ['ended', { type: 'START' }, 'locating'],
+      ['ended', { type: 'JOIN_QUEUE' }, 'queued'],
+    ])('%s + %o -> %s', (from, event, to) => {
+      expect(transition(at(from), event)?.snapshot.state).toBe(to);
+    });
+
+    it('walks the whole happy path from idle to ended', () => {
+      const snapshot = run(INITIAL_CONNECTION, [
+        { type: 'START' },
+        { type: 'LOCATED' },
+        { type: 'QUEUE_JOINED' },
+        { type: 'MATCH_FOUND' },
+        { type: 'MATCH_CONFIRMED', chatId: 'c1', partnerId: 'p1' },
+        { type: 'PARTNER_LEFT' },
+        { type: 'LEAVE' },
+      ]);
+      expect(snapshot).toEqual({ state: 'ended', context: { message: '' } });
+    });
+
+    it('keeps the chat in context until the partner leaves', () => {
+      const chatting = run(at('confirming'), [{ type: 'MATCH_CONFIRMED', chatId: 'c1', partnerId: 'p1', message: 'Hi' }]);
+      expect(chatting.context).toEqual({ message: 'Hi', chatId: 'c1', partnerId: 'p1' });
+
+      const left = run(chatting, [{ type: 'PARTNER_LEFT', message: 'Gone' }]);
+      expect(left.context).toEqual({ message: 'Gone', chatId: 'c1', partnerId: 'p1' });
+    });
+
+    it('fails into error from every state', () => {
+      const states: ConnectionState[] = [
+        'idle', 'locating', 'queued', 'searching', 'confirming', 'chatting', 'partner_left', 'ended', 'error',
+      ];
+      states.forEach(state => {
+        const result = transition(at(state), { type: 'FAIL', message: 'Boom', code: 'X' });
+        expect(result?.snapshot).toEqual({
+          state: 'error',
+          context: { message: 'Boom', details: undefined, code: 'X', canRetry: true },
+        });
+      });
+    });
+  });
+
+  describe('ignored events', () => {
+    it.each<[ConnectionState, ConnectionEvent]>([
+      ['idle', { type: 'MATCH_FOUND' }],
+      ['idle', { type: 'LEAVE' }],
+      ['idle', { type: 'RETRY' }],
+      ['locating', { type: 'MATCH_CONFIRMED', chatId: 'c1', partnerId: 'p1' }],
+      ['queued', { type: 'PARTNER_LEFT' }],
+      ['searching', { type: 'START' }],
+      ['chatting', { type: 'MATCH_FOUND' }],
+      ['chatting', { type: 'START' }],
+      ['partner_left', { type: 'PARTNER_LEFT' }],
+      ['ended', { type: 'LEAVE' }],
+      ['ended', { type: 'PARTNER_LEFT' }],
+    ])('%s ignores %o', (state, event) => {
+      expect(transition(at(state), event)).toBeNull();
+    });
+
+    it('needs a chat and a partner to confirm a match', () => {
+      expect(transition(at('confirming'), { type: 'MATCH_CONFIRMED', chatId: '', partnerId: 'p1' })).toBeNull();
+      expect(transition(at('searching'), { type: 'MATCH_CONFIRMED', chatId: 'c1', partnerId: '' })).toBeNull();
+    });
+
+    it('reports a departure only once', () => {
+      const left = run(at('chatting'), [{ type: 'PARTNER_LEFT' }]);
+      expect(transition(left, { type: 'PARTNER_LEFT' })).toBeNull();
+    });
+
+    it('only updates progress text in active states', () => {
+      const progress: ConnectionEvent = { type: 'PROGRESS', message: 'Still looking', details: '2 users' };
+      const result = transition(at('searching', { message: 'Looking', chatId: 'c0' }), progress);
+      expect(result).toEqual({
+        snapshot: { state: 'searching', context: { message: 'Still looking', details: '2 users', chatId: 'c0' } },
+        effects: [],
+      });
+
+      const counted = transition(at('searching'), { type: 'PROGRESS', message: 'progress.searching', params: { count: 3 } });
+      expect(counted?.snapshot.context).toEqual({ message: 'progress.searching', details: undefined, params: { count: 3 } });
+
+      expect(transition(at('idle'), progress)).toBeNull();
+      expect(transition(at('ended'), progress)).toBeNull();
+      expect(transition(at('error'), progress)).toBeNull();
+    });
+  });
+
+  describe('retry and reset paths', () => {
+    it('schedules a retry for recoverable errors', () => {
+      expect(transition(at('searching'), { type: 'FAIL', message: 'Timeout' })?.effects).toEqual(['schedule_retry']);
+    });
+
+    it('does not schedule a retry for unrecoverable errors', () => {
+      const result = transition(at('searching'), { type: 'FAIL', message: 'Suspended', canRetry: false });
+      expect(result?.effects).toEqual([]);
+      expect(result?.snapshot.context.canRetry).toBe(false);
+    });
+
+    it('retries back to idle and clears the error', () => {
+      const failed = run(at('queued'), [{ type: 'FAIL', message: 'Timeout', details: 'rpc' }]);
+      expect(transition(failed, { type: 'RETRY' })).toEqual({
+        snapshot: { state: 'idle', context: { message: '' } },
+        effects: ['cancel_retry'],
+      });
+    });
+
+    it('refuses to retry an unrecoverable error', () => {
+      const failed = run(at('queued'), [{ type: 'FAIL', message: 'Suspended', canRetry: false }]);
+      expect(transition(failed, { type: 'RETRY' })).toBeNull();
+    });
+
+    it('leaves an error and cancels the pending retry', () => {
+      const failed = run(at('chatting'), [{ type: 'FAIL', message: 'Lost' }]);
+      expect(transition(failed, { type: 'LEAVE' })).toEqual({
+        snapshot: { state: 'ended', context: { message: '' } },
+        effects: ['cancel_retry'],
+      });
+    });
+
+    it('shows the next button when the partner leaves, even after an error', () => {
+      expect(transition(at('chatting'), { type: 'PARTNER_LEFT' })?.effects).toEqual(['show_next_button']);
+      expect(transition(at('error'), { type: 'PARTNER_LEFT' })?.effects).toEqual(['cancel_retry', 'show_next_button']);
+    });
+
+    it('cancels a pending retry when starting again', () => {
+      expect(transition(at('idle'), { type: 'START' })?.effects).toEqual(['cancel_retry']);
+      expect(transition(at('ended'), { type: 'START' })?.effects).toEqual(['cancel_retry']);
+    });
+
+    it('starts a new search after the chat ended', () => {
+      const snapshot = run(at('chatting', { message: '', chatId: 'c1', partnerId: 'p1' }), [
+        { type: 'LEAVE' },
+        { type: 'START' },
+        { type: 'LOCATED' },
+      ]);
+      expect(snapshot).toEqual({ state: 'queued', context: { message: '' } });
+    });
+  });
+});
+
+describe('isQueueState', () => {
+  it('is true only while waiting for a partner', () => {
+    expect(['queued', 'searching', 'confirming'].every(state => isQueueState(state as ConnectionState))).toBe(true);
+    expect(['idle', 'locating', 'chatting', 'partner_left', 'ended', 'error'].some(state => isQueueState(state as ConnectionState))).toBe(false);
+  });
+});
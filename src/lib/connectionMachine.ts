@@ -0,0 +1,193 @@
+// Connection lifecycle shared by useSupabaseChat and useMatchingQueue
+//
+// idle → locating → queued → searching → confirming → chatting → partner_left → ended
+// Any state can fail into error; error goes back to idle on retry.
+
+import type { ParseKeys } from 'i18next';
+
+export type ConnectionState =
+  | 'idle'
+  | 'locating'
+  | 'queued'
+  | 'searching'
+  | 'confirming'
+  | 'chatting'
+  | 'partner_left'
+  | 'ended'
+  | 'error';
+
+// i18n key in the chat namespace, other namespaces are prefixed like 'common:errors.suspended'
+export type StatusKey = ParseKeys<['chat', 'common']>;
+
+// Values for the placeholders of a status message
+export type StatusParams = Record<string, string | number>;
+
+// Text for the user, resolved by the UI
+export interface StatusText {
+  key: StatusKey;
+  params?: StatusParams;
+}
+
+export type ConnectionEvent =
+  | { type: 'START'; message?: string }
+  | { type: 'LOCATED'; message?: string }
+  | { type: 'JOIN_QUEUE'; message?: string }
+  | { type: 'QUEUE_JOINED'; message?: string }
+  | { type: 'MATCH_FOUND'; message?: string }
+  | { type: 'MATCH_CONFIRMED'; chatId: string; partnerId: string; message?: string }
+  | { type: 'CONFIRMATION_FAILED'; message?: string }
+  | { type: 'PARTNER_LEFT'; message?: string }
+  | { type: 'LEAVE' }
+  | { type: 'FAIL'; message: string; details?: string; params?: StatusParams; code?: string; canRetry?: boolean }
+  | { type: 'RETRY' }
+  | { type: 'PROGRESS'; message: string; details?: string; params?: StatusParams };
+
+export type ConnectionEventType = ConnectionEvent['type'];
+
+// Side-effects requested by a transition, run by the hook that owns the handler
+export type ConnectionEffect = 'schedule_retry' | 'cancel_retry' | 'show_next_button';
+
+// `message` and `details` are i18n keys like StatusText, sharing `params`
+export interface ConnectionContext {
+  message: string;
+  details?: string;
+  params?: StatusParams;
+  code?: string;
+  canRetry?: boolean;
+  chatId?: string;
+  partnerId?: string;
+}
+
+export interface ConnectionSnapshot {
+  state: ConnectionState;
+  context: ConnectionContext;
+}
+
+interface TransitionRule {
+  target: ConnectionState;
+  guard?: (snapshot: ConnectionSnapshot, event: ConnectionEvent) => boolean;
+  effects?: ConnectionEffect[];
+}
+
+type TransitionTable = Record<ConnectionState, Partial<Record<ConnectionEventType, TransitionRule>>>;
+
+const ACTIVE_STATES: ConnectionState[] = ['locating', 'queued', 'searching', 'confirming', 'chatting', 'partner_left'];
+
+const hasChat = (_: ConnectionSnapshot, event: ConnectionEvent) =>
+  event.type === 'MATCH_CONFIRMED' && Boolean(event.chatId && event.partnerId);
+
+const canRetry = (snapshot: ConnectionSnapshot) => snapshot.context.canRetry !== false;
+
+// Events every state accepts
+const COMMON_RULES: Partial<Record<ConnectionEventType, TransitionRule>> = {
+  FAIL: { target: 'error', effects: ['schedule_retry'] },
+};
+
+const withCommon = (rules: Partial<Record<ConnectionEventType, TransitionRule>>) => ({ ...COMMON_RULES, ...rules });
+
+export const CONNECTION_TRANSITIONS: TransitionTable = {
+  idle: withCommon({
+    START: { target: 'locating', effects: ['cancel_retry'] },
+    JOIN_QUEUE: { target: 'queued' },
+  }),
+  locating: withCommon({
+    LOCATED: { target: 'queued' },
+    JOIN_QUEUE: { target: 'queued' },
+    LEAVE: { target: 'ended' },
+  }),
+  queued: withCommon({
+    JOIN_QUEUE: { target: 'queued' },
+    QUEUE_JOINED: { target: 'searching' },
+    LEAVE: { target: 'ended' },
+  }),
+  searching: withCommon({
+    JOIN_QUEUE: { target: 'queued' },
+    MATCH_FOUND: { target: 'confirming' },
+    MATCH_CONFIRMED: { target: 'chatting', guard: hasChat },
+    LEAVE: { target: 'ended' },
+  }),
+  confirming: withCommon({
+    JOIN_QUEUE: { target: 'queued' },
+    MATCH_CONFIRMED: { target: 'chatting', guard: hasChat },
+    CONFIRMATION_FAILED: { target: 'searching' },
+    LEAVE: { target: 'ended' },
+  }),
+  chatting: withCommon({
+    PARTNER_LEFT: { target: 'partner_left', effects: ['show_next_button'] },
+    JOIN_QUEUE: { target: 'queued' },
+    LEAVE: { target: 'ended' },
+  }),
+  partner_left: withCommon({
+    START: { target: 'locating' },
+    JOIN_QUEUE: { target: 'queued' },
+    LEAVE: { target: 'ended' },
+  }),
+  ended: withCommon({
+    START: { target: 'locating', effects: ['cancel_retry'] },
+    JOIN_QUEUE: { target: 'queued' },
+  }),
+  error: withCommon({
+    RETRY: { target: 'idle', guard: canRetry, effects: ['cancel_retry'] },
+    PARTNER_LEFT: { target: 'partner_left', effects: ['cancel_retry', 'show_next_button'] },
+    LEAVE: { target: 'ended', effects: ['cancel_retry'] },
+  }),
+};
+
+export const INITIAL_CONNECTION: ConnectionSnapshot = { state: 'idle', context: { message: '' } };
+
+// Context carried into the next state
+const nextContext = (snapshot: ConnectionSnapshot, event: ConnectionEvent): ConnectionContext => {
+  switch (event.type) {
+    case 'FAIL':
+      return {
+        message: event.message,
+        details: event.details,
+        params: event.params,
+        code: event.code,
+        canRetry: event.canRetry ?? true,
+      };
+    case 'MATCH_CONFIRMED':
+      return { message: event.message || '', chatId: event.chatId, partnerId: event.partnerId };
+    case 'PARTNER_LEFT':
+      return { ...snapshot.context, message: event.message || '' };
+    case 'LEAVE':
+    case 'RETRY':
+      return { message: '' };
+    default:
+      return { message: event.message || '' };
+  }
+};
+
+export interface TransitionResult {
+  snapshot: ConnectionSnapshot;
+  effects: ConnectionEffect[];
+}
+
+// Pure transition function, null when the event is not allowed in the current state
+export const transition = (snapshot: ConnectionSnapshot, event: ConnectionEvent): TransitionResult | null => {
+  // Progress updates only refresh the text of an active state
+  if (event.type === 'PROGRESS') {
+    if (!ACTIVE_STATES.includes(snapshot.state)) return null;
+    return {
+      snapshot: { state: snapshot.state, context: { ...snapshot.context, message: event.message, details: event.details, params: event.params } },
+      effects: [],
+    };
+  }
+
+  const rule = CONNECTION_TRANSITIONS[snapshot.state][event.type];
+  if (!rule || (rule.guard && !rule.guard(snapshot, event))) return null;
+
+  // An unrecoverable error can't be auto-retried
+  const effects = (rule.effects || []).filter((effect) =>
+    effect !== 'schedule_retry' || (event.type === 'FAIL' && event.canRetry !== false)
+  );
+
+  return {
+    snapshot: { state: rule.target, context: nextContext(snapshot, event) },
+    effects,
+  };
+};
+
+// States where the user is waiting for a partner
+export const isQueueState = (state: ConnectionState) =>
+  state === 'queued' || state === 'searching' || state === 'confirming';
@@ -0,0 +1,685 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      blocked_devices: {
+        Row: {
+          blocked_country: string | null
+          blocked_device_id: string
+          blocked_language: string | null
+          blocker_device_id: string
+          created_at: string | null
+          id: string
+        }
+        Insert: {
+          blocked_country?: string | null
+          blocked_device_id: string
+          blocked_language?: string | null
+          blocker_device_id: string
+          created_at?: string | null
+          id?: string
+        }
+        Update: {
+          blocked_country?: string | null
+          blocked_device_id?: string
+          blocked_language?: string | null
+          blocker_device_id?: string
+          created_at?: string | null
+          id?: string
+        }
+        Relationships: []
+      }
+      chat_media_buckets: {
+        Row: {
+          bucket_id: string
+        }
+        Insert: {
+          bucket_id: string
+        }
+        Update: {
+          bucket_id?: string
+        }
+        Relationships: []
+      }
+      chat_media_deletions: {
+        Row: {
+          attempts: number
+          chat_id: string
+          last_error: string | null
+          requested_at: string
+        }
+        Insert: {
+          attempts?: number
+          chat_id: string
+          last_error?: string | null
+          requested_at?: string
+        }
+        Update: {
+          attempts?: number
+          chat_id?: string
+          last_error?: string | null
+          requested_at?: string
+        }
+        Relationships: []
+      }
+      chat_messages: {
+        Row: {
+          attachment: Json | null
+          chat_id: string | null
+          client_id: string | null
+          content: string
+          created_at: string | null
+          delivered: boolean | null
+          id: string
+          kind: string
+          read_at: string | null
+          sender_id: string | null
+          translated_content: Json | null
+        }
+        Insert: {
+          attachment?: Json | null
+          chat_id?: string | null
+          client_id?: string | null
+          content: string
+          created_at?: string | null
+          delivered?: boolean | null
+          id?: string
+          kind?: string
+          read_at?: string | null
+          sender_id?: string | null
+          translated_content?: Json | null
+        }
+        Update: {
+          attachment?: Json | null
+          chat_id?: string | null
+          client_id?: string | null
+          content?: string
+          created_at?: string | null
+          delivered?: boolean | null
+          id?: string
+          kind?: string
+          read_at?: string | null
+          sender_id?: string | null
+          translated_content?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["chat_id"]
+          },
+        ]
+      }
+      chat_sessions: {
+        Row: {
+          chat_id: string
+          connection_established_at: string | null
+          created_at: string | null
+          ended_at: string | null
+          last_activity: string | null
+          last_message_at: string | null
+          status: string | null
+          user1_confirmed: boolean | null
+          user1_id: string | null
+          user2_confirmed: boolean | null
+          user2_id: string | null
+        }
+        Insert: {
+          chat_id?: string
+          connection_established_at?: string | null
+          created_at?: string | null
+          ended_at?: string | null
+          last_activity?: string | null
+          last_message_at?: string | null
+          status?: string | null
+          user1_confirmed?: boolean | null
+          user1_id?: string | null
+          user2_confirmed?: boolean | null
+          user2_id?: string | null
+        }
+        Update: {
+          chat_id?: string
+          connection_established_at?: string | null
+          created_at?: string | null
+          ended_at?: string | null
+          last_activity?: string | null
+          last_message_at?: string | null
+          status?: string | null
+          user1_confirmed?: boolean | null
+          user1_id?: string | null
+          user2_confirmed?: boolean | null
+          user2_id?: string | null
+        }
+        Relationships: []
+      }
+      cleanup_settings: {
+        Row: {
+          id: number
+          match_attempt_timeout: unknown
+          rate_limit_bucket_ttl: unknown
+          session_timeout: unknown
+          updated_at: string | null
+          user_timeout: unknown
+        }
+        Insert: {
+          id?: number
+          match_attempt_timeout?: unknown
+          rate_limit_bucket_ttl?: unknown
+          session_timeout?: unknown
+          updated_at?: string | null
+          user_timeout?: unknown
+        }
+        Update: {
+          id?: number
+          match_attempt_timeout?: unknown
+          rate_limit_bucket_ttl?: unknown
+          session_timeout?: unknown
+          updated_at?: string | null
+          user_timeout?: unknown
+        }
+        Relationships: []
+      }
+      device_keys: {
+        Row: {
+          created_at: string | null
+          key_hash: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          key_hash: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          key_hash?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_keys_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "waiting_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      flagged_devices: {
+        Row: {
+          device_id: string
+          expires_at: string | null
+          flagged_at: string | null
+          reason: string | null
+          report_count: number | null
+        }
+        Insert: {
+          device_id: string
+          expires_at?: string | null
+          flagged_at?: string | null
+          reason?: string | null
+          report_count?: number | null
+        }
+        Update: {
+          device_id?: string
+          expires_at?: string | null
+          flagged_at?: string | null
+          reason?: string | null
+          report_count?: number | null
+        }
+        Relationships: []
+      }
+      match_attempts: {
+        Row: {
+          confirmation_timeout: string | null
+          confirmed_at: string | null
+          connection_quality_user1: number | null
+          connection_quality_user2: number | null
+          continent_match: boolean | null
+          created_at: string | null
+          distance_km: number | null
+          ended_at: string | null
+          id: string
+          language_match: boolean | null
+          match_score: number | null
+          retry_attempts: number | null
+          status: string | null
+          user1_confirmed: boolean | null
+          user1_id: string | null
+          user2_confirmed: boolean | null
+          user2_id: string | null
+        }
+        Insert: {
+          confirmation_timeout?: string | null
+          confirmed_at?: string | null
+          connection_quality_user1?: number | null
+          connection_quality_user2?: number | null
+          continent_match?: boolean | null
+          created_at?: string | null
+          distance_km?: number | null
+          ended_at?: string | null
+          id?: string
+          language_match?: boolean | null
+          match_score?: number | null
+          retry_attempts?: number | null
+          status?: string | null
+          user1_confirmed?: boolean | null
+          user1_id?: string | null
+          user2_confirmed?: boolean | null
+          user2_id?: string | null
+        }
+        Update: {
+          confirmation_timeout?: string | null
+          confirmed_at?: string | null
+          connection_quality_user1?: number | null
+          connection_quality_user2?: number | null
+          continent_match?: boolean | null
+          created_at?: string | null
+          distance_km?: number | null
+          ended_at?: string | null
+          id?: string
+          language_match?: boolean | null
+          match_score?: number | null
+          retry_attempts?: number | null
+          status?: string | null
+          user1_confirmed?: boolean | null
+          user1_id?: string | null
+          user2_confirmed?: boolean | null
+          user2_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_attempts_user1_id_fkey"
+            columns: ["user1_id"]
+            isOneToOne: false
+            referencedRelation: "waiting_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_attempts_user2_id_fkey"
+            columns: ["user2_id"]
+            isOneToOne: false
+            referencedRelation: "waiting_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_rate_limits: {
+        Row: {
+          bucket: string
+          tokens: number
+          updated_at: string | null
+        }
+        Insert: {
+          bucket: string
+          tokens: number
+          updated_at?: string | null
+        }
+        Update: {
+          bucket?: string
+          tokens?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      user_reports: {
+        Row: {
+          chat_id: string
+          created_at: string | null
+          details: string | null
+          id: string
+          message_snapshot: Json | null
+          reason: string
+          reported_device_id: string
+          reported_user_id: string | null
+          reporter_device_id: string
+          reporter_user_id: string | null
+          reviewed_at: string | null
+          status: string | null
+        }
+        Insert: {
+          chat_id: string
+          created_at?: string | null
+          details?: string | null
+          id?: string
+          message_snapshot?: Json | null
+          reason: string
+          reported_device_id: string
+          reported_user_id?: string | null
+          reporter_device_id: string
+          reporter_user_id?: string | null
+          reviewed_at?: string | null
+          status?: string | null
+        }
+        Update: {
+          chat_id?: string
+          created_at?: string | null
+          details?: string | null
+          id?: string
+          message_snapshot?: Json | null
+          reason?: string
+          reported_device_id?: string
+          reported_user_id?: string | null
+          reporter_device_id?: string
+          reporter_user_id?: string | null
+          reviewed_at?: string | null
+          status?: string | null
+        }
+        Relationships: []
+      }
+      user_sessions: {
+        Row: {
+          connected_at: string | null
+          connection_type: string | null
+          device_fingerprint: string | null
+          disconnect_reason: string | null
+          disconnected_at: string | null
+          heartbeat_interval: number | null
+          id: string
+          ip_address: unknown | null
+          is_active: boolean | null
+          last_heartbeat: string | null
+          max_missed_heartbeats: number | null
+          missed_heartbeats: number | null
+          session_token: string
+          user_agent: string | null
+          user_id: string | null
+        }
+        Insert: {
+          connected_at?: string | null
+          connection_type?: string | null
+          device_fingerprint?: string | null
+          disconnect_reason?: string | null
+          disconnected_at?: string | null
+          heartbeat_interval?: number | null
+          id?: string
+          ip_address?: unknown | null
+          is_active?: boolean | null
+          last_heartbeat?: string | null
+          max_missed_heartbeats?: number | null
+          missed_heartbeats?: number | null
+          session_token: string
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          connected_at?: string | null
+          connection_type?: string | null
+          device_fingerprint?: string | null
+          disconnect_reason?: string | null
+          disconnected_at?: string | null
+          heartbeat_interval?: number | null
+          id?: string
+          ip_address?: unknown | null
+          is_active?: boolean | null
+          last_heartbeat?: string | null
+          max_missed_heartbeats?: number | null
+          missed_heartbeats?: number | null
+          session_token?: string
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_sessions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "waiting_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      waiting_users: {
+        Row: {
+          city: string | null
+          connection_attempts: number | null
+          connection_quality: number | null
+          continent: string | null
+          country: string | null
+          created_at: string | null
+          current_match_id: string | null
+          device_id: string
+          id: string
+          interests: string[] | null
+          ip_address: unknown | null
+          is_active: boolean | null
+          is_actively_searching: boolean | null
+          joined_at: string | null
+          language: string | null
+          last_error: string | null
+          last_heartbeat: string | null
+          location: unknown | null
+          matching_started_at: string | null
+          max_distance_km: number | null
+          max_wait_time: unknown | null
+          prefer_nearby: boolean | null
+          preferred_languages: string[] | null
+          previous_matches: string[] | null
+          priority: number | null
+          retry_count: number | null
+          search_attempts: number | null
+          session_active: boolean | null
+          session_token: string | null
+          status: string | null
+          updated_at: string | null
+          user_agent: string | null
+        }
+        Insert: {
+          city?: string | null
+          connection_attempts?: number | null
+          connection_quality?: number | null
+          continent?: string | null
+          country?: string | null
+          created_at?: string | null
+          current_match_id?: string | null
+          device_id: string
+          id?: string
+          interests?: string[] | null
+          ip_address?: unknown | null
+          is_active?: boolean | null
+          is_actively_searching?: boolean | null
+          joined_at?: string | null
+          language?: string | null
+          last_error?: string | null
+          last_heartbeat?: string | null
+          location?: unknown | null
+          matching_started_at?: string | null
+          max_distance_km?: number | null
+          max_wait_time?: unknown | null
+          prefer_nearby?: boolean | null
+          preferred_languages?: string[] | null
+          previous_matches?: string[] | null
+          priority?: number | null
+          retry_count?: number | null
+          search_attempts?: number | null
+          session_active?: boolean | null
+          session_token?: string | null
+          status?: string | null
+          updated_at?: string | null
+          user_agent?: string | null
+        }
+        Update: {
+          city?: string | null
+          connection_attempts?: number | null
+          connection_quality?: number | null
+          continent?: string | null
+          country?: string | null
+          created_at?: string | null
+          current_match_id?: string | null
+          device_id?: string
+          id?: string
+          interests?: string[] | null
+          ip_address?: unknown | null
+          is_active?: boolean | null
+          is_actively_searching?: boolean | null
+          joined_at?: string | null
+          language?: string | null
+          last_error?: string | null
+          last_heartbeat?: string | null
+          location?: unknown | null
+          matching_started_at?: string | null
+          max_distance_km?: number | null
+          max_wait_time?: unknown | null
+          prefer_nearby?: boolean | null
+          preferred_languages?: string[] | null
+          previous_matches?: string[] | null
+          priority?: number | null
+          retry_count?: number | null
+          search_attempts?: number | null
+          session_active?: boolean | null
+          session_token?: string | null
+          status?: string | null
+          updated_at?: string | null
+          user_agent?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      authorize_chat_media: {
+        Args: { p_user_id: string; p_device_key: string; p_action: string; p_bucket: string; p_path: string }
+        Returns: Json
+      }
+      block_user: {
+        Args: { p_user_id: string; p_blocked_user_id: string }
+        Returns: Json
+      }
+      check_user_status: {
+        Args: { p_user_id: string }
+        Returns: Json
+      }
+      cleanup_inactive_sessions_v2: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      clear_block_list: {
+        Args: { p_device_id: string }
+        Returns: Json
+      }
+      confirm_bilateral_match_v2: {
+        Args: { p_user_id: string; p_match_id: string }
+        Returns: Json
+      }
+      consume_message_token: {
+        Args: {
+          p_bucket: string
+          p_capacity: number
+          p_refill_per_second: number
+        }
+        Returns: number
+      }
+      end_chat_session: {
+        Args: { p_user_id: string; p_chat_id: string }
+        Returns: Json
+      }
+      find_best_match_v2: {
+        Args: { p_user_id: string }
+        Returns: Json
+      }
+      get_block_list: {
+        Args: { p_device_id: string }
+        Returns: Json
+      }
+      get_queue_statistics_v2: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      join_waiting_queue_v2: {
+        Args: {
+          p_device_id: string
+          p_continent?: string
+          p_country?: string
+          p_city?: string
+          p_language?: string
+          p_latitude?: number
+          p_longitude?: number
+          p_user_agent?: string
+          p_ip_address?: unknown
+          p_interests?: string[]
+          p_device_key?: string
+        }
+        Returns: Json
+      }
+      leave_waiting_queue_v2: {
+        Args: { p_user_id: string }
+        Returns: Json
+      }
+      refresh_device_flag: {
+        Args: {
+          p_device_id: string
+          p_threshold?: number
+          p_window?: unknown
+          p_suspension?: unknown
+        }
+        Returns: boolean
+      }
+      request_chat_media_purge: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      report_user: {
+        Args: {
+          p_user_id: string
+          p_chat_id: string
+          p_reported_user_id: string
+          p_reason: string
+          p_details?: string
+          p_message_count?: number
+        }
+        Returns: Json
+      }
+      save_message_translation: {
+        Args: {
+          p_user_id: string
+          p_chat_id: string
+          p_message_id: string
+          p_language: string
+          p_translation: string
+        }
+        Returns: Json
+      }
+      send_heartbeat_v2: {
+        Args: { p_user_id: string; p_connection_quality?: number }
+        Returns: Json
+      }
+      update_message_receipts: {
+        Args: {
+          p_user_id: string
+          p_chat_id: string
+          p_message_ids: string[]
+          p_status: string
+        }
+        Returns: Json
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Row"]
+
+export type TablesInsert<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Insert"]
+
+export type TablesUpdate<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Update"]
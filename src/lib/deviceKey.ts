@@ -0,0 +1,25 @@
+// Secret of this device, registered with its queue entry by join_waiting_queue_v2. The device id
+// can be read from waiting_users by anyone, the key never leaves this browser except to prove
+// who is calling, e.g. to the chat-media Edge Function.
+
+const DEVICE_KEY_STORAGE = 'libertalk_device_key';
+
+let sessionDeviceKey: string | null = null;
+
+const generateDeviceKey = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const getDeviceKey = (): string => {
+  try {
+    const stored = localStorage.getItem(DEVICE_KEY_STORAGE);
+    if (stored) return stored;
+
+    const deviceKey = sessionDeviceKey ?? generateDeviceKey();
+    localStorage.setItem(DEVICE_KEY_STORAGE, deviceKey);
+    return deviceKey;
+  } catch {
+    // Kept for the session only, like the device id when localStorage is unavailable
+    sessionDeviceKey ??= generateDeviceKey();
+    return sessionDeviceKey;
+  }
+};
@@ -0,0 +1,148 @@
+import { sendHeartbeat } from './rpc';
+
+// One heartbeat loop per tab, shared by every hook that needs the user marked alive
+
+export interface HeartbeatResult {
+  ok: boolean;
+  quality: number;
+  responseTime: number;
+  consecutiveFailures: number;
+}
+
+type HeartbeatListener = (result: HeartbeatResult) => void;
+
+const VISIBLE_INTERVAL_MS = 10000;
+// find_best_match_v2 skips users whose last beat is older than 30 s. The slowest beat, a hidden tab
+// with full jitter (24 s), leaves room for background timer throttling before a waiting user drops out.
+const HIDDEN_INTERVAL_MS = 20000;
+const JITTER_RATIO = 0.2;
+const FAILURE_RETRY_BASE_MS = 2000;
+
+// Quality target from the round trip of a heartbeat
+const qualityFromResponseTime = (responseTime: number) =>
+  responseTime < 100 ? 100 :
+  responseTime < 300 ? 90 :
+  responseTime < 500 ? 80 :
+  responseTime < 1000 ? 70 : 50;
+
+// Spread beats of many clients so they don't hit the backend in lockstep
+const withJitter = (interval: number) => interval * (1 - JITTER_RATIO + Math.random() * JITTER_RATIO * 2);
+
+const createHeartbeatScheduler = () => {
+  let userId: string | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let inFlight: Promise<HeartbeatResult | null> | null = null;
+  let quality = 100;
+  let consecutiveFailures = 0;
+  const listeners = new Set<HeartbeatListener>();
+
+  const nextDelay = () => {
+    const base = typeof document !== 'undefined' && document.hidden ? HIDDEN_INTERVAL_MS : VISIBLE_INTERVAL_MS;
+    // Retry failed beats sooner, backing off up to the normal interval
+    const delay = consecutiveFailures > 0
+      ? Math.min(base, FAILURE_RETRY_BASE_MS * Math.pow(2, consecutiveFailures - 1))
+      : base;
+    return withJitter(delay);
+  };
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = userId ? setTimeout(() => { beat(); }, nextDelay()) : null;
+  };
+
+  const sendBeat = async (id: string): Promise<HeartbeatResult> => {
+    const startTime = Date.now();
+
+    try {
+      const { error } = await sendHeartbeat(id, quality);
+      const responseTime = Date.now() - startTime;
+
+      if (error) {
+        console.warn('💔 Heartbeat failed:', error.message);
+        consecutiveFailures++;
+        quality = Math.max(quality - 15, 0);
+      } else {
+        consecutiveFailures = 0;
+        quality = Math.min(quality + 2, qualityFromResponseTime(responseTime));
+        if (Math.random() < 0.1) { // Log every 10th heartbeat
+          console.log('💓 Heartbeat sent, quality:', quality, 'response time:', responseTime + 'ms');
+        }
+      }
+
+      return { ok: !error, quality, responseTime, consecutiveFailures };
+    } catch (error) {
+      console.warn('💔 Heartbeat error:', error);
+      consecutiveFailures++;
+      quality = Math.max(quality - 20, 0);
+      return { ok: false, quality, responseTime: Date.now() - startTime, consecutiveFailures };
+    }
+  };
+
+  // Send a beat now, concurrent callers share the request in flight
+  const beat = async (): Promise<HeartbeatResult | null> => {
+    if (!userId) return null;
+    if (inFlight) return inFlight;
+
+    const id = userId;
+    inFlight = sendBeat(id).then((result) => {
+      if (userId === id) {
+        listeners.forEach((listener) => listener(result));
+      }
+      return result;
+    }).finally(() => {
+      inFlight = null;
+      schedule();
+    });
+
+    return inFlight;
+  };
+
+  const handleVisibilityChange = () => {
+    if (!userId) return;
+    // Coming back: confirm we are alive right away, otherwise just slow down
+    if (document.hidden) {
+      schedule();
+    } else {
+      beat();
+    }
+  };
+
+  return {
+    start(id: string) {
+      if (userId === id && timer) return;
+
+      const isFirstStart = !userId;
+      userId = id;
+      if (isFirstStart && typeof document !== 'undefined') {
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+      }
+      console.log('💓 Heartbeat started for user:', id);
+      beat();
+    },
+
+    stop() {
+      if (!userId) return;
+
+      console.log('💓 Heartbeat stopped');
+      userId = null;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      if (typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      }
+    },
+
+    beat,
+
+    subscribe(listener: HeartbeatListener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getQuality: () => quality,
+  };
+};
+
+export const heartbeat = createHeartbeatScheduler();
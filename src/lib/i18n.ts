@@ -0,0 +1,57 @@
+import i18n, { Resource } from 'i18next';
+import { initReactI18next } from 'react-i18next';
+import LanguageDetector from 'i18next-browser-languagedetector';
+import { SUPPORTED_LANGUAGES } from './translation';
+
+// UI strings live in src/locales/<language>/<namespace>.json, one namespace per screen
+
+export const NAMESPACES = ['common', 'home', 'chat', 'report', 'settings'] as const;
+export const DEFAULT_NAMESPACE = 'common';
+export const FALLBACK_LANGUAGE = 'en';
+
+const LANGUAGE_STORAGE_KEY = 'libertalk_language';
+
+const localeFiles = import.meta.glob<{ default: Record<string, unknown> }>('../locales/*/*.json', { eager: true });
+
+// '../locales/fr/chat.json' -> resources.fr.chat
+const resources = Object.entries(localeFiles).reduce<Resource>((acc, [path, module]) => {
+  const [, language, namespace] = path.match(/locales\/([^/]+)\/([^/]+)\.json$/) || [];
+  if (language && namespace) {
+    acc[language] = { ...acc[language], [namespace]: module.default };
+  }
+  return acc;
+}, {});
+
+i18n
+  .use(LanguageDetector)
+  .use(initReactI18next)
+  .init({
+    resources,
+    ns: NAMESPACES,
+    defaultNS: DEFAULT_NAMESPACE,
+    fallbackLng: FALLBACK_LANGUAGE,
+    supportedLngs: Object.keys(SUPPORTED_LANGUAGES),
+    // 'pt-BR' from the browser resolves to 'pt'
+    nonExplicitSupportedLngs: true,
+    load: 'languageOnly',
+    debug: false,
+    interpolation: {
+      escapeValue: false, // React already escapes
+    },
+    detection: {
+      order: ['localStorage', 'navigator'],
+      lookupLocalStorage: LANGUAGE_STORAGE_KEY,
+      caches: ['localStorage'],
+    },
+  });
+
+// Arabic (and any other right-to-left language) mirrors the whole layout from <html dir>
+const applyDocumentDirection = (language: string) => {
+  document.documentElement.lang = language;
+  document.documentElement.dir = i18n.dir(language);
+};
+
+applyDocumentDirection(i18n.resolvedLanguage || FALLBACK_LANGUAGE);
+i18n.on('languageChanged', () => applyDocumentDirection(i18n.resolvedLanguage || FALLBACK_LANGUAGE));
+
+export default i18n;
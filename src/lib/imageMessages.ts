@@ -0,0 +1,143 @@
+import { Json } from './database.types';
+import { ChatMediaBucket, uploadChatMedia, getChatMediaUrl } from './chatMedia';
+
+// Image messages: pictures live in the private `chat-images` bucket under
+// `<chat_id>/<sender_id>/`, the chat_messages row only keeps the path and the dimensions.
+// Every image is redrawn on a canvas before upload. The encoder writes pixels only, so EXIF
+// (GPS position, camera serial, capture time) never leaves the device.
+// Uploads and downloads go through signed URLs, see chatMedia.ts
+
+export const IMAGE_BUCKET: ChatMediaBucket = 'chat-images';
+
+export const MAX_IMAGE_DIMENSION = 1600;
+// Decoding anything bigger stalls phones, nobody shares a 20 MB screenshot
+export const MAX_SOURCE_BYTES = 15 * 1024 * 1024;
+// Matches the bucket limit
+export const MAX_UPLOAD_BYTES = 3 * 1024 * 1024;
+
+const OUTPUT_MIME_TYPE = 'image/jpeg';
+// Tried in order until the encoded image fits MAX_UPLOAD_BYTES
+const OUTPUT_QUALITIES = [0.85, 0.7, 0.5];
+
+export type ImagePrepareError = 'unsupported' | 'too_large' | 'unreadable';
+
+export interface ImageUpload {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+// Stored in `chat_messages.attachment` for messages of kind 'image', a type so it is assignable to Json
+export type ImageAttachment = {
+  path: string;
+  mime_type: string;
+  width: number;
+  height: number;
+};
+
+// Own images show from memory, the others from a signed URL fetched once
+const imageUrls = new Map<string, string>();
+
+export const isImageFile = (file: Blob) => file.type.startsWith('image/');
+
+export const isImageAttachment = (value: Json | null): value is ImageAttachment => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return (
+    typeof value.path === 'string' &&
+    typeof value.mime_type === 'string' &&
+    typeof value.width === 'number' &&
+    typeof value.height === 'number'
+  );
+};
+
+// Largest size within MAX_IMAGE_DIMENSION keeping the aspect ratio, never upscaled
+export const fitWithin = (width: number, height: number, max: number = MAX_IMAGE_DIMENSION) => {
+  const scale = Math.min(1, max / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// Decoded with the EXIF orientation applied, the rotation is baked into the pixels before the tag is dropped
+const decodeImage = async (file: Blob): Promise<CanvasImageSource & { width: number; height: number }> => {
+  if (typeof createImageBitmap === 'function') {
+    return createImageBitmap(file, { imageOrientation: 'from-image' });
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const encodeCanvas = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, OUTPUT_MIME_TYPE, quality));
+
+// Downscale and re-encode a picked or pasted image
+export const prepareImage = async (
+  file: Blob
+): Promise<{ image: ImageUpload; error?: never } | { image?: never; error: ImagePrepareError }> => {
+  if (!isImageFile(file)) return { error: 'unsupported' };
+  if (file.size > MAX_SOURCE_BYTES) return { error: 'too_large' };
+
+  let source: Awaited<ReturnType<typeof decodeImage>>;
+  try {
+    source = await decodeImage(file);
+  } catch (error) {
+    console.warn('🖼️ Could not decode image:', error);
+    return { error: 'unreadable' };
+  }
+
+  try {
+    const { width, height } = fitWithin(source.width, source.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext('2d');
+    if (!context) return { error: 'unsupported' };
+    // JPEG has no alpha, transparent areas would turn black
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+    context.drawImage(source, 0, 0, width, height);
+
+    for (const quality of OUTPUT_QUALITIES) {
+      const blob = await encodeCanvas(canvas, quality);
+      if (!blob) return { error: 'unreadable' };
+      if (blob.size <= MAX_UPLOAD_BYTES) return { image: { blob, width, height } };
+    }
+    return { error: 'too_large' };
+  } finally {
+    if ('close' in source) source.close();
+  }
+};
+
+export const createImageAttachment = (chatId: string, senderId: string, clientId: string, image: ImageUpload): ImageAttachment => ({
+  path: `${chatId}/${senderId}/${clientId}.jpg`,
+  mime_type: image.blob.type || OUTPUT_MIME_TYPE,
+  width: image.width,
+  height: image.height,
+});
+
+// A retry after a lost response replaces the first upload instead of failing
+export const uploadImage = async (userId: string, attachment: ImageAttachment, image: ImageUpload) => {
+  if (!imageUrls.has(attachment.path)) {
+    imageUrls.set(attachment.path, URL.createObjectURL(image.blob));
+  }
+
+  return uploadChatMedia(IMAGE_BUCKET, userId, attachment.path, image.blob, attachment.mime_type);
+};
+
+export const getImageUrl = async (path: string, userId?: string): Promise<string | null> => {
+  const known = imageUrls.get(path);
+  if (known) return known;
+  if (!userId) return null;
+
+  // Gone once the chat has ended
+  const signedUrl = await getChatMediaUrl(IMAGE_BUCKET, userId, path);
+  if (signedUrl) imageUrls.set(path, signedUrl);
+  return signedUrl;
+};
@@ -0,0 +1,38 @@
+// Interest tags used to pair people who want to talk about the same things
+export const MAX_INTEREST_TAGS = 5;
+export const MAX_INTEREST_LENGTH = 32;
+
+const INTERESTS_STORAGE_KEY = 'libertalk_interests';
+
+// Normalize a raw tag the same way join_waiting_queue_v2 does server-side
+export const normalizeInterest = (tag: string): string => {
+  return tag.trim().toLowerCase().replace(/^#/, '').slice(0, MAX_INTEREST_LENGTH);
+};
+
+// Add a tag to a list, ignoring empties, duplicates and overflow
+export const addInterest = (interests: string[], tag: string): string[] => {
+  const normalized = normalizeInterest(tag);
+  if (!normalized || interests.includes(normalized) || interests.length >= MAX_INTEREST_TAGS) {
+    return interests;
+  }
+  return [...interests, normalized];
+};
+
+export const loadInterests = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(INTERESTS_STORAGE_KEY) || '[]');
+    return Array.isArray(saved)
+      ? saved.filter((tag): tag is string => typeof tag === 'string').slice(0, MAX_INTEREST_TAGS)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveInterests = (interests: string[]) => {
+  try {
+    localStorage.setItem(INTERESTS_STORAGE_KEY, JSON.stringify(interests));
+  } catch {
+    console.warn('⚠️ localStorage not available, interests will not persist');
+  }
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { identifyLanguage, detectLanguage, MIN_DETECTION_CONFIDENCE } from './languageDetection';
+
+// Chat-sized samples, from a single greeting to a full sentence
+const SAMPLES: [string, string][] = [
+  ['en', 'hello'],
+  ['en', 'thanks!'],
+  ['en', 'what are you doing tonight?'],
+  ['en', 'I was thinking about going to the beach this weekend with my friends'],
+  ['fr', 'salut'],
+  ['fr', 'merci beaucoup'],
+  ['fr', 'tu fais quoi ce soir ?'],
+  ['fr', 'Je vais au cinéma ce soir avec mes amis, tu veux venir ?'],
+  ['de', 'hallo'],
+  ['de', 'danke schön'],
+  ['de', 'wie geht es dir?'],
+  ['de', 'Ich gehe heute Abend mit meinen Freunden ins Kino, kommst du mit?'],
+  ['es', 'hola'],
+  ['es', 'muchas gracias'],
+  ['es', 'no sé'],
+  ['es', 'soy estudiante'],
+  ['es', '¿qué haces esta noche?'],
+  ['es', 'Voy al cine esta noche con mis amigos'],
+  ['es', 'Me gusta mucho viajar y conocer gente nueva de otros países'],
+  ['it', 'ciao!'],
+  ['it', 'grazie mille'],
+  ['it', 'a dopo'],
+  ['it', 'cosa fai stasera?'],
+  ['it', 'Stasera vado al cinema con i miei amici, vuoi venire anche tu?'],
+  ['pt', 'olá'],
+  ['pt', 'tudo bem?'],
+  ['pt', 'até logo'],
+  ['pt', 'sou estudante'],
+  ['pt', 'o que você vai fazer hoje?'],
+  ['pt', 'Vou ao cinema hoje à noite com os meus amigos, você quer vir?'],
+  ['ru', 'Привет, как дела?'],
+  ['ja', 'こんにちは、元気ですか？'],
+  ['zh', '你好，你今天在做什么？'],
+  ['ko', '안녕하세요, 잘 지내요?'],
+  ['ar', 'مرحبا، كيف حالك؟'],
+];
+
+describe('identifyLanguage', () => {
+  it.each(SAMPLES)('detects %s in "%s"', (language, text) => {
+    const detection = identifyLanguage(text);
+    expect(detection.language).toBe(language);
+    expect(detection.confidence).toBeGreaterThanOrEqual(MIN_DETECTION_CONFIDENCE);
+  });
+
+  it.each(['ok', 'lmao', 'hmm', 'taxi'])('is not confident about "%s"', (text) => {
+    expect(identifyLanguage(text).confidence).toBeLessThan(MIN_DETECTION_CONFIDENCE);
+  });
+
+  it('falls back to English without letters', () => {
+    expect(identifyLanguage('123 !!! 😂')).toEqual({ language: 'en', confidence: 0 });
+    expect(detectLanguage('')).toBe('en');
+  });
+
+  it('is certain about a script owned by one language', () => {
+    expect(identifyLanguage('Привет').confidence).toBe(1);
+    expect(identifyLanguage('ありがとう').confidence).toBe(1);
+  });
+
+  it('tells Japanese from Chinese by the kana', () => {
+    expect(detectLanguage('日本語を勉強しています')).toBe('ja');
+    expect(detectLanguage('我在学习中文')).toBe('zh');
+  });
+});
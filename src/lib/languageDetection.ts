@@ -0,0 +1,129 @@
+import { TRIGRAM_PROFILES } from './languageProfiles';
+
+// Local language identification, no network: script ranges first, then trigram profiles for Latin text
+
+export interface LanguageDetection {
+  language: string;
+  confidence: number; // 0..1
+}
+
+// Below this the detected language is a guess and messages are left untranslated
+export const MIN_DETECTION_CONFIDENCE = 0.5;
+
+const FALLBACK_LANGUAGE = 'en';
+
+// Languages that own a script among SUPPORTED_LANGUAGES
+const SCRIPT_PATTERNS = {
+  kana: /[\u3040-\u30ff]/,
+  hangul: /[\uac00-\ud7af\u1100-\u11ff\u3130-\u318f]/,
+  han: /[\u4e00-\u9fff\u3400-\u4dbf]/,
+  arabic: /[\u0600-\u06ff\u0750-\u077f]/,
+  cyrillic: /[\u0400-\u04ff]/,
+};
+
+// Short chat words that only occur in one of the Latin languages
+const DISTINCTIVE_WORDS: Record<string, string[]> = {
+  en: ['hi', 'hello', 'hey', 'thanks', 'thank', 'yes', 'bye', 'please', 'sorry', 'what', 'why', 'how', 'lol', 'the', 'you'],
+  fr: ['salut', 'bonjour', 'bonsoir', 'coucou', 'merci', 'oui', 'ouais', 'pourquoi', 'comment', 'je', 'très', 'avec', 'mdr', 'ça'],
+  de: ['hallo', 'danke', 'ja', 'nein', 'tschüss', 'bitte', 'und', 'ich', 'nicht', 'wie', 'servus', 'moin', 'gut'],
+  es: ['hola', 'gracias', 'sí', 'adiós', 'qué', 'bueno', 'vale', 'jaja', 'muy', 'pero', 'estoy', 'hasta', 'cómo', 'dónde', 'y', 'voy', 'hoy', 'noche', 'soy', 'sé'],
+  it: ['ciao', 'grazie', 'sì', 'buongiorno', 'buonasera', 'prego', 'perché', 'anche', 'sono', 'molto', 'dove', 'il', 'che', 'dopo', 'stasera'],
+  pt: ['olá', 'obrigado', 'obrigada', 'sim', 'tchau', 'oi', 'você', 'não', 'tudo', 'bom', 'muito', 'kkk', 'eu', 'vou', 'hoje', 'noite', 'sou', 'até'],
+};
+
+// Weight of one distinctive word against the trigram score of the whole message.
+// Below 0.3 a lone greeting like "hallo" loses to the trigrams of a neighbouring language
+const WORD_WEIGHT = 0.35;
+// Trigrams needed before a message is long enough to trust its trigram score alone
+const TRIGRAMS_FOR_FULL_EVIDENCE = 24;
+
+const profileRanks = Object.fromEntries(
+  Object.entries(TRIGRAM_PROFILES).map(([language, profile]) => {
+    const trigrams = profile.split('|');
+    return [language, new Map(trigrams.map((trigram, rank) => [trigram, rank]))];
+  })
+) as Record<string, Map<string, number>>;
+
+const normalize = (text: string) =>
+  text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}]+/gu, ' ')
+    .trim();
+
+const countTrigrams = (normalized: string) => {
+  const padded = ` ${normalized} `;
+  const counts = new Map<string, number>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    const trigram = padded.slice(i, i + 3);
+    counts.set(trigram, (counts.get(trigram) || 0) + 1);
+  }
+  return counts;
+};
+
+// Share of letters written in each script, when one script dominates the language is certain
+const detectByScript = (letters: string[]): LanguageDetection | null => {
+  const count = (pattern: RegExp) => letters.filter(letter => pattern.test(letter)).length;
+  const kana = count(SCRIPT_PATTERNS.kana);
+  const han = count(SCRIPT_PATTERNS.han);
+
+  const shares: [string, number][] = [
+    // Japanese mixes kanji with kana, Chinese never uses kana
+    ['ja', kana > 0 ? kana + han : 0],
+    ['zh', kana > 0 ? 0 : han],
+    ['ko', count(SCRIPT_PATTERNS.hangul)],
+    ['ar', count(SCRIPT_PATTERNS.arabic)],
+    ['ru', count(SCRIPT_PATTERNS.cyrillic)],
+  ];
+
+  const [language, matched] = shares.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  const share = matched / letters.length;
+  return share >= 0.5 ? { language, confidence: share } : null;
+};
+
+// Trigram overlap weighted by profile rank, plus distinctive words, for each Latin language
+const scoreLatin = (normalized: string) => {
+  const trigrams = countTrigrams(normalized);
+  const total = [...trigrams.values()].reduce((sum, n) => sum + n, 0);
+  const words = normalized.split(' ');
+
+  const scores = Object.entries(profileRanks).map(([language, ranks]) => {
+    let trigramScore = 0;
+    trigrams.forEach((n, trigram) => {
+      const rank = ranks.get(trigram);
+      if (rank !== undefined) trigramScore += n * (1 - rank / ranks.size);
+    });
+
+    const wordHits = words.filter(word => DISTINCTIVE_WORDS[language]?.includes(word)).length;
+    return {
+      language,
+      score: (total > 0 ? trigramScore / total : 0) + WORD_WEIGHT * wordHits,
+      wordHits,
+    };
+  });
+
+  return { scores: scores.sort((a, b) => b.score - a.score), total };
+};
+
+export const identifyLanguage = (text: string): LanguageDetection => {
+  const normalized = normalize(text);
+  const letters = [...normalized.replace(/ /g, '')];
+  if (letters.length === 0) return { language: FALLBACK_LANGUAGE, confidence: 0 };
+
+  const byScript = detectByScript(letters);
+  if (byScript) return byScript;
+
+  const { scores, total } = scoreLatin(normalized);
+  const [best, second] = scores;
+  if (best.score <= 0) return { language: FALLBACK_LANGUAGE, confidence: 0 };
+
+  // How far ahead the winner is, scaled by how much evidence the message carries
+  const margin = (best.score - second.score) / best.score;
+  const evidence = Math.min(1, total / TRIGRAMS_FOR_FULL_EVIDENCE + best.wordHits * 0.5);
+  const confidence = Math.min(1, margin * 2.5) * evidence;
+
+  return { language: best.language, confidence: Math.round(confidence * 100) / 100 };
+};
+
+// Most likely language, English when nothing can be said
+export const detectLanguage = (text: string): string => identifyLanguage(text).language;
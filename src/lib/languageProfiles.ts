@@ -0,0 +1,17 @@
+// Trigram profiles for the Latin-script languages, most frequent first.
+// Built from a few hundred words of everyday chat sentences per language, words padded with spaces.
+
+export const TRIGRAM_PROFILES: Record<string, string> = {
+  // English
+  en: ' th|ing|ng | yo|you|the|ou | to| i |nd | an|at |and|hat|to | wh|e t|he |thi|hin|re | wa|e a|er |her|is |tha| do|d t|it |ld |oul|uld| a | co| go| is| it| no|are|as |e y|es |g t|ly |n t|not|our|s a|t i|wha|y w| ar| be| fo| fr| ha| li| me| mo| my| so| we| wo|ave|ay |do |e c|e i|ere|g w|in |kin|ks |my |oth|ow |rea|ry |se |t a|t w|t y|ur |ut |ve |ver|was| am| ev| in| la| ni| re| wi|ain|all|ce |cou|d i|d n|d w|d y|day|e f|e s|ear|eas|ed |ell|en |ery|eve|for|han|hou|ice|ink|ith|ke |lea|me |ny |o y|od |oin|ood|or |ot |oun|ple|r f|r t|s g|s w|st |t m|te |th |u l|wit|y d|y i|y t| ab| ag| as| bu| ch| ci| da| di| fa| fi| he| ho| le| lo| ma| mu| of| pe| pr| qu| se| sh| sp| ta| tr| ye|a g|abo|aga|ake|alk|am |ang|ank|ant|any|app|ar |ast|aut|bou|but|ch |cit|d p|did|ds |e e|e m|eal|ean|eat|ee |end|eop|est|ey |fin|fri|g a|g f|g h|g m|gai|goi|goo|hap|hav|hel|hey|his|i a|i l|i t|i w|id |ien|ike|ind|ite|ity|k a|l t|le |lik|ll |lly|mea|mor|mov|n s|nds|ne |nic|nk |nks|now|nte|o h|o i|o t|of |ome|on |opl|ork',
+  // French
+  fr: 'es | de|que| qu|re |e t|ce | es|de |e d|e p|e q|er |ue | ce| pa| tu|ais|is |le |lle|tu | et|est|et | je|je |nt |st | il| pe|ens|ill|les|ns |on |our| ai| ch| j | pr| tr| vo|e c|ent|il |it |pas|s l|se |t c|t p| co| fa| l | le| ma| me| to| vi|ait|as |e j|e l|e m|gen|ien|ire|men|ne |rai|s c|s e|t t|ur | au| ge| un| ét|cho|com|cou|dan|der|des|e v|en |end|jou|mai|pen|s a|s d|s f|s g|sai|te |tre|vai|é d| av| be| bo| d | da| dé| en| la| li| mo| n | ta| ça|ail|aim|air|and|ans|ant|aut|ava|ave|bea|bon|e b|e e|e n|eau|ec |enc|ess|eur|eux|fai|hos|ils|ime|in |ite|j a|l a|ls |me |mer|mme|mon|n d|n e|nd |oi |omm|ont|ose|oul|par|r e|r i|rav|ren|res|rès|s j|s p|s t|son|tra|u e|u v|uel|ues|ux |vec|vil|vou|vra|ça |ès | a | al| bi| c | di| ex| in| jo| on| po| re| s | se| so| te| va| y | à | êt|a a|a m|a v|agn|ai |aie|all|ami|ang|ard|arl|ass|ati|auc|bie|cha|ci |d a|d h|dem|dev|dir|ell|ema|erc|evr|gue|han|i e|i j|ie |iqu|ir |isi|iso|la |lai|ler|lé |mes|n a|n m|n p|n t|ngu|nne|nse|nté|ois|onn|ore|oup|out|oya',
+  // German
+  de: 'en |ch |ich|ein|er |st |t d|und|es | ge|nd | du| ic|ine|te | es|du | di| un| wa|as |che|ie |in |sch| da| ei|der|e s|ht | de| me|hen|mei|nde|ne |t e| ha| in| le| mi| sp| we| wi|ach|cht|das|n e|n s| fr| sc|ar |den|die|e g|ere|ern|geh|he |ist|it |lic|n i|n w|oll|t w|ute|war| gu| he| is| si| wo|abe|age|and|ber|e d|e n|e u|e w|ehe|eit|eut|fre|ge |gen|ger|gut|h m|ir |llt|lte|n d|nen|r f|r s|rne|s d|s w|sta|t v|was| ar| be| ni| pa| se| so| st| ve| zu|adt|ass|ben|d l|dei|dt |e b|e f|e m|ehr|eht|h a|h d|h l|h w|her|int|kli|l i|ler|lie|mit|n a|n h|ner|nic|nt |on |r k|r m|r w|rbe|reu|rge|rst|s g|s i|s m|seh|sie|spr|t i|t m|tad|ten|ter|tte|u s|uf |ut |ver|wie|wir|zie|zu | ab| al| an| au| bi| fi| je| ke| kl| la| li| ma| mo| na| no| ta| vi| zi|ahr|al |all|ank|arb|ast|auf|be |bei|cho|chs|chö|d d|d e|d s|dan|de |dic|dir|e a|e i|e l|ede|el |elc|em |enn|erb|ers|ese|ess|etz|eun|fra|fun|ges|h g|hab|has|hau|heu|hon|hr |hre|hst|hön|ieb|iel|ier|ind|ing|inm|ite|ke |l s|lan|lch|les|lin|m h|mac|mal|mic|mor|n b',
+  // Spanish
+  es: ' es|as | qu|os |est| de| y |do |es |que|sta|te | co| ha| la|o p| en| mu|e e|en |na |nte|o e|or |ta |ue | pe|a m|ar |de |la |lo |ndo|ría|ía | pa| po| ve| vo|voy|a c|aci|and|ent|er |erí|ien|no |nta|por|s c|s e|s y|tra|uen| bu| el| gu| lo| mi|mis|is | no| ot| pr| un|a b|a e|aba|bue|con|e g|gus|hac|las|o n|rac|ro |tar|uch|och|che|he |noc|uda|ust| al| cu| fa| gr| ho| in| me| ti| tr| tu| vi|a d|a h|a l|a p|a v|abl|alg|ant|aña|baj|cia|dar|e q|eci|el |ena|end|ere|gra|gun|has|me |mi |muc|muy|n u|o c|o l|o q|on |ont|otr|oy |pas|per|po |pre|qué|r e|r l|r p|ra |rab|res|s d|s p|sto|to |tu |una|uy |ué |ver|ño | a | am| bi| ca| ci| dí| er| ge| li| ma| pu| se| te| to|a g|ace|ad |ado|ajo|ami|an |ana|ano|asa|avo|ber|bie|bla|ble|ca |cer|cha|cho|cir|com|cos|cre|da |dad|dec|día|e c|e d|e h|e m|emp|enc|ens|era|ero|eso|ez |fav|gen|go |gos|hab|ho |ian|ias|ica|iem|igo|int|ir |ita|jo |lar|le |los|mañ|mo |mpo|n d|n g|n m|n p|n t|nde|nos|nsa|o a|o b|o s|o t|o v|o y|odo|olo|pue|r f|r q|ran|ros|s h|s i|s m|s q|s v',
+  // Italian
+  it: 're |to |e s|o c| co| st| pe|are|e l|no | di|di |sa |sta|te | e |i s|ne |o p| fa|and|e p|lo |na |nte|per| ci| in| la| pi| un|do |e d|le |ndo|o l|on |ro |sto| be| ca| do| le| mi|a c|ace|cos|e c|e e|e f|ere|i p|mi |o d| ch| ma| no| pa| è |a d|a n|a t|ant|ato|avo|cer|cit|con|e m|ell|erc|gli|he |iac|la |li |o a|o e|o i|o t|osa|pia|ra |son|tar|ti |una|vor| al| es| il| li| mo| qu| sc| se| so| te| ti| tr| tu| vi|a v|ai |ami|ate|ben|ce |che|col|dov|ei |end|ene|ens|ent|er |ess|est|ggi|gio|i a|i e|ia |ie |il |in |ita|itt|lav|lto|mo |nno|non|o m|o s|olo|olt|one|ono|oro|par|pen|po |sco|tat|ttà|tà |ver| ad| an| bu| da| de| er| gi| gr| ha| ho| l | og| si| sp| ta| vo|a b|a f|a p|a s|a u|agn|al |alt|ann|ano|api|ard|arl|azi|bbe|be |bel|buo|can|cap|ché|ci |cia|co |com|da |dar|dom|e g|e i|e n|e t|ebb|egg|emp|era|eri|erl|ero|ers|ert|ese|fac|far|fer|gia|gra|ho |hé |i b|i d|i g|i i|i m|i o|i r|ian|iat|ici|imo|int|io |ior|ito|iut|l a|l m|l t|lev|lib|llo|ltr|ma |man|me |mio|mol|mpo|n h|n u|nda|ni |nsa|nta|o b',
+  // Portuguese
+  pt: 'as | es|de | de| qu|do |eu |que| co| vo|cê |ocê|voc|er |est| e |e e|o e|ue | pe| eu| o |ar |ndo|o p|ão | fa| mu| pa|a c|and|com|e v|em |ess|ia |o m|o q|or | a | as| po| se|a d|e m|ida|ma |o a|os |r e|ra |s e|sso|sta|to |tra|zer| ac| di| ma| no| ou| pr| te| um| é |a a|ach|ado|anh|ara|con|da |e a|gos|ho |ica|m o|mui|nha|no |nta|nte|par|por|r p|ria|ro |s c|s p|tar|uda|uit|uma|ver| be| ca| ci| em| en| go| li| me| nã| tr|a e|a n|a p|a s|a v|aba|ada|ade|al |alh|am |aze|bal|bem|cho|cid|dad|e c|e d|e f|e t|ece|eri|eve|gun|has|inh|ir |ita|ito|min|não|o d|o v|om |ont|ost|out|per|po |r a|rab|s m|s n|sa |se |ssa|sto|stá|ta |te |tá | am| bo| do| fi| fo| ho| in| ir| is| já| le| mi| mo| ob| si| su| ve| vi|a b|a f|a l|ami|ass|ava|avo|boa|bri|cas|coi|dar|dev|dia|diz|e p|ei |emp|end|ent|erg|es |esc|esp|fav|faz|gad|ha |hoj|hã |i o|iga|isa|iss|ivr|ize|je |já |l o|lha|lho|liv|m d|m e|man|mas|meu|mo |mpo|mud|nde|nhã|o o|o s|o t|oa |oas|obr|ois|oje|olh|omo|oro|ou |pes|pra|pro|qua|r d|r f|r l|rgu|rig|s a|s d',
+};
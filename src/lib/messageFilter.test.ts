@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { runMessageFilters, profanityFilter, phoneFilter, urlFilter, hideLinks, FilterConfig } from './messageFilter';
+
+const categories = (content: string, language = 'en') =>
+  runMessageFilters(content, language).matches.map(match => match.category);
+
+describe('profanityFilter', () => {
+  it('matches whole words only', () => {
+    expect(profanityFilter.detect('you bitch', 'en')).toHaveLength(1);
+    expect(profanityFilter.detect('bitches and Dickens', 'en')).toEqual([]);
+  });
+
+  it('respects accented word boundaries', () => {
+    expect(profanityFilter.detect('Enculé!', 'fr').map(match => match.text)).toEqual(['Enculé']);
+    expect(profanityFilter.detect('enculée', 'fr')).toEqual([]);
+    expect(profanityFilter.detect('enculé', 'en')).toEqual([]);
+  });
+
+  it('masks but keeps the first letter', () => {
+    expect(runMessageFilters('oh shit', 'en')).toMatchObject({ action: 'mask', content: 'oh s***' });
+  });
+});
+
+describe('phoneFilter', () => {
+  it.each(['call me 06 12 34 56 78', '+33 6 12 34 56 78', 'my number is 555-123-4567', '0044 20 7946 0958'])(
+    'flags "%s"',
+    (content) => {
+      expect(phoneFilter.detect(content, '')).toHaveLength(1);
+    }
+  );
+
+  it.each(['room 1234567', 'card 1234567890123456', 'Meet on 2024-01-15', 'le 15.01.2024 à 18h', 'on 15/01/2024'])(
+    'ignores "%s"',
+    (content) => {
+      expect(phoneFilter.detect(content, '')).toEqual([]);
+    }
+  );
+
+  it('accepts 8 to 15 digits', () => {
+    expect(phoneFilter.detect('12345678', '')).toHaveLength(1);
+    expect(phoneFilter.detect('123456789012345', '')).toHaveLength(1);
+  });
+
+  it('still finds a number next to a date', () => {
+    const [match] = phoneFilter.detect('2024-01-15: 06 12 34 56 78', '');
+    expect(match.text).toBe('06 12 34 56 78');
+    expect(match.start).toBe(12);
+  });
+});
+
+describe('email and url', () => {
+  it('reports an email once, not also as a domain', () => {
+    expect(urlFilter.detect('write to bob@example.com', '')).toEqual([]);
+    expect(categories('write to bob@example.com')).toEqual(['email']);
+  });
+
+  it('keeps links allowed by default and hides them on request', () => {
+    expect(runMessageFilters('see https://example.com/a', 'en').action).toBe('allow');
+    expect(hideLinks('see https://example.com/a and www.test.org', '[link]')).toBe('see [link] and [link]');
+  });
+});
+
+describe('runMessageFilters', () => {
+  it('resolves the most severe action', () => {
+    expect(runMessageFilters('shit, call 06 12 34 56 78', 'en').action).toBe('warn');
+
+    const strict: FilterConfig = { profanity: 'mask', phone: 'block', email: 'warn', url: 'allow' };
+    expect(runMessageFilters('shit, bob@example.com, 06 12 34 56 78', 'en', strict).action).toBe('block');
+  });
+
+  it('masks even when a stronger action wins', () => {
+    expect(runMessageFilters('shit, call 06 12 34 56 78', 'en').content).toBe('s***, call 06 12 34 56 78');
+  });
+
+  it('drops categories set to allow', () => {
+    const lenient: FilterConfig = { profanity: 'allow', phone: 'allow', email: 'allow', url: 'allow' };
+    expect(runMessageFilters('shit 06 12 34 56 78', 'en', lenient)).toEqual({
+      action: 'allow',
+      content: 'shit 06 12 34 56 78',
+      matches: [],
+    });
+  });
+});
@@ -0,0 +1,181 @@
+// Client-side message filter pipeline run before sendMessage inserts into chat_messages
+
+export type FilterCategory = 'profanity' | 'phone' | 'email' | 'url';
+
+// Ordered from least to most severe
+export type FilterAction = 'allow' | 'mask' | 'warn' | 'block';
+
+export interface FilterMatch {
+  category: FilterCategory;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface MessageFilter {
+  name: string;
+  category: FilterCategory;
+  detect: (content: string, language: string) => FilterMatch[];
+}
+
+export type FilterConfig = Record<FilterCategory, FilterAction>;
+
+export interface FilterResult {
+  action: FilterAction;
+  content: string;
+  matches: FilterMatch[];
+}
+
+export const DEFAULT_FILTER_CONFIG: FilterConfig = {
+  profanity: 'mask',
+  phone: 'warn',
+  email: 'warn',
+  url: 'allow',
+};
+
+const ACTION_SEVERITY: Record<FilterAction, number> = {
+  allow: 0,
+  mask: 1,
+  warn: 2,
+  block: 3,
+};
+
+// Per-language word lists, always combined with English
+const PROFANITY_WORDS: Record<string, string[]> = {
+  en: ['fuck', 'fucking', 'shit', 'bitch', 'asshole', 'cunt', 'dick', 'bastard', 'slut', 'whore'],
+  fr: ['merde', 'putain', 'connard', 'connasse', 'salope', 'enculé', 'batard', 'pute', 'bite', 'couille'],
+  de: ['scheiße', 'scheisse', 'arschloch', 'fotze', 'wichser', 'hure', 'schlampe', 'fick', 'ficken'],
+  es: ['mierda', 'puta', 'puto', 'cabrón', 'coño', 'gilipollas', 'pendejo', 'joder', 'zorra'],
+  it: ['cazzo', 'merda', 'stronzo', 'puttana', 'vaffanculo', 'troia', 'coglione', 'minchia'],
+  pt: ['merda', 'porra', 'caralho', 'puta', 'foda', 'buceta', 'otário'],
+};
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s]+|\b[a-z0-9-]+\.(?:com|net|org|io|me|co|app|gg|ly|fr|de|es|it|uk)(?:\/[^\s]*)?\b/gi;
+// Not inside a longer run of digits, a card or order number isn't a phone number
+const PHONE_PATTERN = /(?<!\d)(?:\+|00)?\d(?:[\s.\-()]*\d){7,14}(?!\d)/g;
+// 2024-01-15, 15.01.2024, 15/01/2024: as many digits as a phone number, never one
+const DATE_PATTERN = /(?<!\d)(?:\d{4}[-./]\d{1,2}[-./]\d{1,2}|\d{1,2}[-./]\d{1,2}[-./]\d{4})(?!\d)/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const collectMatches = (content: string, pattern: RegExp, category: FilterCategory): FilterMatch[] => {
+  return Array.from(content.matchAll(pattern), (match) => ({
+    category,
+    text: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+};
+
+export const profanityFilter: MessageFilter = {
+  name: 'profanity',
+  category: 'profanity',
+  detect: (content, language) => {
+    const words = new Set([...(PROFANITY_WORDS.en || []), ...(PROFANITY_WORDS[language] || [])]);
+    if (words.size === 0) return [];
+
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])(?:${Array.from(words).map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+      'giu'
+    );
+    return collectMatches(content, pattern, 'profanity');
+  },
+};
+
+export const emailFilter: MessageFilter = {
+  name: 'email',
+  category: 'email',
+  detect: (content) => collectMatches(content, EMAIL_PATTERN, 'email'),
+};
+
+export const urlFilter: MessageFilter = {
+  name: 'url',
+  category: 'url',
+  detect: (content) => {
+    // Emails also look like domains, leave them to emailFilter
+    const emails = emailFilter.detect(content, '');
+    return collectMatches(content, URL_PATTERN, 'url').filter(
+      (match) => !emails.some((email) => match.start >= email.start && match.end <= email.end)
+    );
+  },
+};
+
+export const phoneFilter: MessageFilter = {
+  name: 'phone',
+  category: 'phone',
+  detect: (content) => {
+    // Dates are blanked out, same length so the match indexes still point into content
+    const withoutDates = content.replace(DATE_PATTERN, (date) => ' '.repeat(date.length));
+    return collectMatches(withoutDates, PHONE_PATTERN, 'phone').filter((match) => {
+      const digits = match.text.replace(/\D/g, '').length;
+      return digits >= 8 && digits <= 15;
+    });
+  },
+};
+
+export const DEFAULT_FILTERS: MessageFilter[] = [profanityFilter, emailFilter, urlFilter, phoneFilter];
+
+const maskText = (text: string) => text.charAt(0) + '*'.repeat(Math.max(text.length - 1, 0));
+
+// Replace the given spans, last to first so indexes stay valid
+const replaceMatches = (content: string, matches: FilterMatch[], replace: (match: FilterMatch) => string) => {
+  return [...matches]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, match) => result.slice(0, match.start) + replace(match) + result.slice(match.end), content);
+};
+
+// Drop matches overlapping an earlier, longer one (e.g. a phone number inside a URL)
+const dedupeMatches = (matches: FilterMatch[]) => {
+  const sorted = [...matches].sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  return sorted.filter((match, index) =>
+    !sorted.slice(0, index).some((other) => match.start < other.end && other.start < match.end)
+  );
+};
+
+// Run every filter and resolve the most severe configured action
+export const runMessageFilters = (
+  content: string,
+  language: string,
+  config: FilterConfig = DEFAULT_FILTER_CONFIG,
+  filters: MessageFilter[] = DEFAULT_FILTERS
+): FilterResult => {
+  const matches = dedupeMatches(filters.flatMap((filter) => filter.detect(content, language)))
+    .filter((match) => config[match.category] !== 'allow');
+
+  const action = matches.reduce<FilterAction>((current, match) => {
+    const candidate = config[match.category];
+    return ACTION_SEVERITY[candidate] > ACTION_SEVERITY[current] ? candidate : current;
+  }, 'allow');
+
+  const masked = replaceMatches(
+    content,
+    matches.filter((match) => config[match.category] === 'mask'),
+    (match) => maskText(match.text)
+  );
+
+  return { action, content: masked, matches };
+};
+
+// Partner-side option: replace links in a received message with a placeholder
+export const hideLinks = (content: string, placeholder: string) => {
+  return replaceMatches(content, urlFilter.detect(content, ''), () => placeholder);
+};
+
+const HIDE_LINKS_STORAGE_KEY = 'libertalk_hide_links';
+
+export const loadHideLinks = (): boolean => {
+  try {
+    return localStorage.getItem(HIDE_LINKS_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+export const saveHideLinks = (hide: boolean) => {
+  try {
+    localStorage.setItem(HIDE_LINKS_STORAGE_KEY, String(hide));
+  } catch {
+    console.warn('⚠️ localStorage not available, the hide links option will not persist');
+  }
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { parseRateLimitError } from './moderation';
+
+// The trigger raises `rate_limited` with SQLSTATE P0429 and a JSON DETAIL, PostgREST passes it on as `details`
+describe('parseRateLimitError', () => {
+  it('reads the scope and wait from the trigger detail', () => {
+    expect(parseRateLimitError({
+      code: 'P0429',
+      message: 'rate_limited',
+      details: '{"scope": "chat", "retry_after_ms": 500}',
+    })).toEqual({ scope: 'chat', retryAfterMs: 500 });
+
+    expect(parseRateLimitError({
+      code: 'P0429',
+      message: 'rate_limited',
+      details: '{"scope": "sender", "retry_after_ms": 1000}',
+    })).toEqual({ scope: 'sender', retryAfterMs: 1000 });
+  });
+
+  it('recognises the error by its message alone', () => {
+    expect(parseRateLimitError({ message: 'rate_limited', details: '{"scope": "chat", "retry_after_ms": 250}' }))
+      .toEqual({ scope: 'chat', retryAfterMs: 250 });
+  });
+
+  it('falls back to a one second wait on the sender', () => {
+    expect(parseRateLimitError({ code: 'P0429' })).toEqual({ scope: 'sender', retryAfterMs: 1000 });
+    expect(parseRateLimitError({ code: 'P0429', details: 'not json' })).toEqual({ scope: 'sender', retryAfterMs: 1000 });
+    expect(parseRateLimitError({ code: 'P0429', details: '{"scope": "room", "retry_after_ms": "soon"}' }))
+      .toEqual({ scope: 'sender', retryAfterMs: 1000 });
+  });
+
+  it('ignores other errors', () => {
+    expect(parseRateLimitError(null)).toBeNull();
+    expect(parseRateLimitError({ code: '23505', message: 'duplicate key value', details: '{"scope": "chat"}' })).toBeNull();
+  });
+});
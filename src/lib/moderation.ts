@@ -0,0 +1,42 @@
+// Report categories accepted by the report_user RPC
+export const REPORT_REASONS = [
+  'spam',
+  'harassment',
+  'sexual_content',
+  'hate_speech',
+  'minor',
+  'other',
+] as const;
+
+export type ReportReason = typeof REPORT_REASONS[number];
+
+// Number of recent chat_messages attached to a report
+export const REPORT_MESSAGE_COUNT = 20;
+
+// Error returned by join_waiting_queue_v2 for devices suspended after reports
+export const DEVICE_FLAGGED_ERROR = 'device_flagged';
+
+// Raised by the chat_messages rate limit trigger (SQLSTATE P0429)
+export const RATE_LIMITED_ERROR = 'rate_limited';
+const RATE_LIMITED_CODE = 'P0429';
+const DEFAULT_RETRY_AFTER_MS = 1000;
+
+export interface RateLimitInfo {
+  scope: 'sender' | 'chat';
+  retryAfterMs: number;
+}
+
+// Read the structured DETAIL of a rate limit error, null for any other error
+export const parseRateLimitError = (error: { code?: string; message?: string; details?: string } | null): RateLimitInfo | null => {
+  if (!error || (error.code !== RATE_LIMITED_CODE && error.message !== RATE_LIMITED_ERROR)) return null;
+
+  try {
+    const detail = JSON.parse(error.details || '{}');
+    return {
+      scope: detail.scope === 'chat' ? 'chat' : 'sender',
+      retryAfterMs: Number(detail.retry_after_ms) || DEFAULT_RETRY_AFTER_MS,
+    };
+  } catch {
+    return { scope: 'sender', retryAfterMs: DEFAULT_RETRY_AFTER_MS };
+  }
+};
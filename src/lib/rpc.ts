@@ -0,0 +1,249 @@
+import { supabase } from './supabase';
+import { Database } from './database.types';
+
+// Typed wrappers for the RPCs, every jsonb response is checked here before the hooks read it
+
+type Functions = Database['public']['Functions'];
+type RpcName = keyof Functions;
+
+// Failed call or unexpected response, same fields as a PostgrestError
+export class RpcError extends Error {
+  readonly rpc: RpcName;
+  readonly code?: string;
+  readonly details?: string;
+
+  constructor(rpc: RpcName, message: string, code?: string, details?: string) {
+    super(message);
+    this.name = 'RpcError';
+    this.rpc = rpc;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export const INVALID_RESPONSE_CODE = 'invalid_response';
+
+export interface RpcResult<T> {
+  data: T | null;
+  error: RpcError | null;
+}
+
+// Failure reported by the function itself, as opposed to a failed call
+export interface RpcFailure {
+  success: false;
+  error?: string;
+  message?: string;
+}
+
+export interface PartnerInfo {
+  continent: string;
+  country: string;
+  city: string;
+  language: string;
+}
+
+export type JoinQueueResponse =
+  | {
+      success: true;
+      user_id: string;
+      session_id: string;
+      queue_position: number;
+      estimated_wait_seconds: number;
+      interests: string[];
+      message: string;
+    }
+  | RpcFailure;
+
+export interface FoundMatch {
+  success: true;
+  match_id: string;
+  partner_id: string;
+  match_score: number;
+  distance_km: number | null;
+  requires_confirmation: boolean;
+  shared_interests: string[];
+  partner_info: PartnerInfo;
+  message: string;
+}
+
+export type FindMatchResponse = FoundMatch | (RpcFailure & { total_waiting?: number });
+
+export type ConfirmMatchResponse =
+  | { success: true; both_confirmed: true; chat_id: string; partner_id: string; message: string }
+  | { success: true; both_confirmed: false; message: string }
+  | RpcFailure;
+
+export type HeartbeatResponse = { success: true; timestamp: string; message: string } | RpcFailure;
+
+export interface QueueStatistics {
+  total_waiting: number;
+  by_continent: Record<string, number>;
+  by_language: Record<string, number>;
+  average_wait_time: number;
+  timestamp?: string;
+  error?: string;
+}
+
+export interface UserStatus {
+  is_active: boolean;
+  timestamp?: string;
+  error?: string;
+}
+
+export type ActionResponse = { success: true; message?: string } | RpcFailure;
+
+export interface BlockListEntry {
+  id: string;
+  country: string;
+  language: string;
+  created_at: string;
+}
+
+export type BlockListResponse = { success: true; blocks: BlockListEntry[] } | RpcFailure;
+export type ClearBlockListResponse = { success: true; removed: number } | RpcFailure;
+export type ReportResponse = { success: true; flagged: boolean; message?: string } | RpcFailure;
+// Receipts and translations both report the number of rows touched
+export type ReceiptsResponse = { success: true; updated: number } | RpcFailure;
+
+type FieldCheck = (value: unknown) => boolean;
+type FieldChecks = Record<string, FieldCheck>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString: FieldCheck = (value) => typeof value === 'string' && value.length > 0;
+const isNumber: FieldCheck = (value) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: FieldCheck = (value) => typeof value === 'boolean';
+const isStringArray: FieldCheck = (value) => Array.isArray(value) && value.every((item) => typeof item === 'string');
+const isNumberRecord: FieldCheck = (value) => isRecord(value) && Object.values(value).every(isNumber);
+const optional = (check: FieldCheck): FieldCheck => (value) => value === undefined || value === null || check(value);
+
+const isPartnerInfo: FieldCheck = (value) =>
+  isRecord(value) && ['continent', 'country', 'city', 'language'].every((key) => typeof value[key] === 'string');
+
+// Fields checked when the function reports success, failures only need `success`
+const whenSuccessful = (data: Record<string, unknown>, checks: FieldChecks): FieldChecks =>
+  data.success === true ? { success: isBoolean, ...checks } : { success: isBoolean };
+
+const callRpc = async <Name extends RpcName, T>(
+  name: Name,
+  args: Functions[Name]['Args'],
+  checksFor: (data: Record<string, unknown>) => FieldChecks
+): Promise<RpcResult<T>> => {
+  const { data, error } = await supabase.rpc(name, args);
+
+  if (error) {
+    return { data: null, error: new RpcError(name, error.message, error.code, error.details) };
+  }
+
+  if (!isRecord(data)) {
+    console.error(`🔍 ${name} returned a non-object response:`, data);
+    return { data: null, error: new RpcError(name, `${name} returned an invalid response`, INVALID_RESPONSE_CODE) };
+  }
+
+  const checks = checksFor(data);
+  const invalid = Object.keys(checks).filter((field) => !checks[field](data[field]));
+  if (invalid.length > 0) {
+    console.error(`🔍 ${name} response is missing ${invalid.join(', ')}:`, JSON.stringify(data, null, 2));
+    return {
+      data: null,
+      error: new RpcError(name, `${name} response is missing ${invalid.join(', ')}`, INVALID_RESPONSE_CODE, JSON.stringify(data)),
+    };
+  }
+
+  return { data: data as T, error: null };
+};
+
+export const joinWaitingQueue = (args: Functions['join_waiting_queue_v2']['Args']) =>
+  callRpc<'join_waiting_queue_v2', JoinQueueResponse>('join_waiting_queue_v2', args, (data) =>
+    whenSuccessful(data, {
+      user_id: isString,
+      session_id: isString,
+      queue_position: isNumber,
+      estimated_wait_seconds: isNumber,
+      interests: optional(isStringArray),
+    })
+  );
+
+export const leaveWaitingQueue = (userId: string) =>
+  callRpc<'leave_waiting_queue_v2', ActionResponse>('leave_waiting_queue_v2', { p_user_id: userId }, (data) =>
+    whenSuccessful(data, {})
+  );
+
+export const sendHeartbeat = (userId: string, connectionQuality: number) =>
+  callRpc<'send_heartbeat_v2', HeartbeatResponse>(
+    'send_heartbeat_v2',
+    { p_user_id: userId, p_connection_quality: connectionQuality },
+    (data) => whenSuccessful(data, { timestamp: isString })
+  );
+
+export const checkUserStatus = (userId: string) =>
+  callRpc<'check_user_status', UserStatus>('check_user_status', { p_user_id: userId }, () => ({
+    is_active: isBoolean,
+  }));
+
+export const getQueueStatistics = () =>
+  callRpc<'get_queue_statistics_v2', QueueStatistics>('get_queue_statistics_v2', {}, () => ({
+    total_waiting: isNumber,
+    by_continent: isNumberRecord,
+    by_language: isNumberRecord,
+    average_wait_time: isNumber,
+  }));
+
+export const findBestMatch = (userId: string) =>
+  callRpc<'find_best_match_v2', FindMatchResponse>('find_best_match_v2', { p_user_id: userId }, (data) =>
+    whenSuccessful(data, {
+      match_id: isString,
+      partner_id: isString,
+      match_score: isNumber,
+      distance_km: optional(isNumber),
+      shared_interests: isStringArray,
+      partner_info: isPartnerInfo,
+    })
+  );
+
+export const confirmBilateralMatch = (userId: string, matchId: string) =>
+  callRpc<'confirm_bilateral_match_v2', ConfirmMatchResponse>(
+    'confirm_bilateral_match_v2',
+    { p_user_id: userId, p_match_id: matchId },
+    (data) =>
+      whenSuccessful(data, {
+        both_confirmed: isBoolean,
+        ...(data.both_confirmed === true && { chat_id: isString, partner_id: isString }),
+      })
+  );
+
+export const endChatSession = (userId: string, chatId: string) =>
+  callRpc<'end_chat_session', ActionResponse>('end_chat_session', { p_user_id: userId, p_chat_id: chatId }, (data) =>
+    whenSuccessful(data, {})
+  );
+
+export const updateMessageReceipts = (args: Functions['update_message_receipts']['Args']) =>
+  callRpc<'update_message_receipts', ReceiptsResponse>('update_message_receipts', args, (data) =>
+    whenSuccessful(data, { updated: isNumber })
+  );
+
+export const saveMessageTranslation = (args: Functions['save_message_translation']['Args']) =>
+  callRpc<'save_message_translation', ReceiptsResponse>('save_message_translation', args, (data) =>
+    whenSuccessful(data, { updated: isNumber })
+  );
+
+export const blockUser = (userId: string, blockedUserId: string) =>
+  callRpc<'block_user', ActionResponse>('block_user', { p_user_id: userId, p_blocked_user_id: blockedUserId }, (data) =>
+    whenSuccessful(data, {})
+  );
+
+export const getBlockList = (deviceId: string) =>
+  callRpc<'get_block_list', BlockListResponse>('get_block_list', { p_device_id: deviceId }, (data) =>
+    whenSuccessful(data, { blocks: Array.isArray })
+  );
+
+export const clearBlockList = (deviceId: string) =>
+  callRpc<'clear_block_list', ClearBlockListResponse>('clear_block_list', { p_device_id: deviceId }, (data) =>
+    whenSuccessful(data, { removed: isNumber })
+  );
+
+export const reportUser = (args: Functions['report_user']['Args']) =>
+  callRpc<'report_user', ReportResponse>('report_user', args, (data) =>
+    whenSuccessful(data, { flagged: isBoolean })
+  );
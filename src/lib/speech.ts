@@ -0,0 +1,33 @@
+// Browser speech APIs: recognition for dictation, synthesis for reading messages aloud
+
+export const getSpeechRecognition = (): SpeechRecognitionConstructor | undefined =>
+  typeof window === 'undefined' ? undefined : window.SpeechRecognition || window.webkitSpeechRecognition;
+
+export const isDictationSupported = () => !!getSpeechRecognition();
+
+// BCP 47 tag for a UI language, with the region of the browser when it speaks that language ('en' -> 'en-GB')
+export const speechLocale = (language: string): string => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages || [navigator.language];
+  return preferred.find(tag => tag.toLowerCase().startsWith(`${language.toLowerCase()}-`)) || language;
+};
+
+export const isSpeechSynthesisSupported = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+
+const CONTINUOUS_DICTATION_STORAGE_KEY = 'libertalk_dictation_continuous';
+
+export const loadContinuousDictation = (): boolean => {
+  try {
+    return localStorage.getItem(CONTINUOUS_DICTATION_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+export const saveContinuousDictation = (continuous: boolean) => {
+  try {
+    localStorage.setItem(CONTINUOUS_DICTATION_STORAGE_KEY, String(continuous));
+  } catch {
+    console.warn('⚠️ localStorage not available, continuous dictation will not persist');
+  }
+};
@@ -0,0 +1,72 @@
+// Reading messages aloud: conversation mode and the chosen voice, kept in localStorage across chats and reloads
+
+export interface SpeechSettings {
+  // Incoming messages are read aloud as they arrive
+  conversationMode: boolean;
+  // Chosen voice per language, by SpeechSynthesisVoice.voiceURI
+  voiceURIs: Record<string, string>;
+  rate: number;
+  pitch: number;
+}
+
+const SETTINGS_STORAGE_KEY = 'libertalk_speech_settings';
+
+// Ranges offered in the settings, narrower than what browsers accept but all of it intelligible
+export const RATE_RANGE = { min: 0.5, max: 2, step: 0.1 };
+export const PITCH_RANGE = { min: 0, max: 2, step: 0.1 };
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  conversationMode: false,
+  voiceURIs: {},
+  rate: 1,
+  pitch: 1,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clampTo = (value: unknown, range: { min: number; max: number }, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(range.max, Math.max(range.min, value)) : fallback;
+
+// Same primary language, 'en-GB' matches 'en' and 'en-US'
+export const sameLanguage = (a: string, b: string) =>
+  a.split('-')[0].toLowerCase() === b.split('-')[0].toLowerCase();
+
+export const voicesFor = (voices: SpeechSynthesisVoice[], language: string) =>
+  voices.filter(voice => sameLanguage(voice.lang, language));
+
+// The chosen voice when it can speak the language, otherwise the browser picks one from utterance.lang
+export const pickVoice = (voices: SpeechSynthesisVoice[], language: string, voiceURIs: Record<string, string>) => {
+  const voiceURI = voiceURIs[language.split('-')[0]];
+  return voicesFor(voices, language).find(voice => voice.voiceURI === voiceURI);
+};
+
+export const loadSpeechSettings = (): SpeechSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+    if (!isRecord(saved)) return DEFAULT_SPEECH_SETTINGS;
+
+    const voiceURIs = isRecord(saved.voiceURIs)
+      ? Object.fromEntries(
+          Object.entries(saved.voiceURIs).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+        )
+      : {};
+
+    return {
+      conversationMode: saved.conversationMode === true,
+      voiceURIs,
+      rate: clampTo(saved.rate, RATE_RANGE, DEFAULT_SPEECH_SETTINGS.rate),
+      pitch: clampTo(saved.pitch, PITCH_RANGE, DEFAULT_SPEECH_SETTINGS.pitch),
+    };
+  } catch {
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+};
+
+export const saveSpeechSettings = (settings: SpeechSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    console.warn('⚠️ localStorage not available, speech settings will not persist');
+  }
+};
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { Database, Tables } from './database.types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -7,7 +8,7 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
   realtime: {
     params: {
       eventsPerSecond: 20,
@@ -15,32 +16,35 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   },
 });
 
-// Database types
-export interface User {
-  id: string;
-  ip_geolocation: any;
-  connected_at: string;
-  last_activity: string;
-  status: 'waiting' | 'matched' | 'chatting' | 'disconnected';
-  continent: string;
-  language: string;
-  session_token: string;
-}
+// Database types, rows come from database.types.ts
 
-export interface Chat {
-  chat_id: string;
-  user1_id: string;
-  user2_id: string;
-  created_at: string;
-  ended_at?: string;
-  status: 'active' | 'ended';
-}
+// Local session, built from the join_waiting_queue_v2 response
+export type User = Pick<
+  Tables<'waiting_users'>,
+  'id' | 'device_id' | 'session_token' | 'continent' | 'country' | 'city' | 'language' | 'status' | 'previous_matches'
+>;
+
+export type Chat = Tables<'chat_sessions'>;
+
+// Delivery state of a message, tracked on the sender side only
+export type MessageStatus = 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export type Message = Tables<'chat_messages'> & {
+  status?: MessageStatus;
+};
+
+// Ordering used to never downgrade a status when receipts arrive out of order
+export const MESSAGE_STATUS_RANK: Record<MessageStatus, number> = {
+  failed: 0,
+  sending: 1,
+  sent: 2,
+  delivered: 3,
+  read: 4,
+};
 
-export interface Message {
-  id: string;
-  chat_id: string;
-  sender_id: string;
-  content: string;
-  translated_content: any;
-  created_at: string;
-}
\ No newline at end of file
+// Status of a stored row, from its receipt columns
+export const getMessageStatus = (message: Pick<Message, 'read_at' | 'delivered'>): MessageStatus => {
+  if (message.read_at) return 'read';
+  if (message.delivered) return 'delivered';
+  return 'sent';
+};
\ No newline at end of file
@@ -1,36 +1,24 @@
-import i18n from 'i18next';
-import { initReactI18next } from 'react-i18next';
-import LanguageDetector from 'i18next-browser-languagedetector';
+import {
+  TranslationProvider,
+  createTranslationProvider,
+  readTranslationConfig
+} from './translationProviders';
+import { getCachedTranslation, setCachedTranslation } from './translationCache';
+import { Json } from './database.types';
+import { detectLanguage } from './languageDetection';
 
-// Simple translation service using LibreTranslate API (free)
-const LIBRE_TRANSLATE_API = 'https://libretranslate.de/translate';
+// Translation backend, configured through VITE_TRANSLATION_* env variables
+let translationProvider: TranslationProvider = createTranslationProvider(readTranslationConfig());
 
-// Initialize i18next
-i18n
-  .use(LanguageDetector)
-  .use(initReactI18next)
-  .init({
-    fallbackLng: 'en',
-    debug: false,
-    interpolation: {
-      escapeValue: false,
-    },
-    resources: {
-      en: {
-        translation: {
-          // Existing translations...
-        }
-      },
-      fr: {
-        translation: {
-          // Existing translations...
-        }
-      },
-      // Add more languages as needed
-    }
-  });
+// Swap the backend at runtime, e.g. a mock provider in tests
+export const setTranslationProvider = (provider: TranslationProvider) => {
+  translationProvider = provider;
+};
+
+// Set when the configured provider can't translate at all, shown to the user
+export const getTranslationConfigError = (): string | undefined => translationProvider.configError;
 
-// Language detection and mapping
+// Languages offered in the UI and as translation targets
 const SUPPORTED_LANGUAGES = {
   'en': 'English',
   'fr': 'Français',
@@ -45,40 +33,24 @@ const SUPPORTED_LANGUAGES = {
   'ar': 'العربية',
 };
 
-// Detect language from text (simple heuristic)
-export const detectLanguage = (text: string): string => {
-  // Simple language detection based on character patterns
-  if (/[\u4e00-\u9fff]/.test(text)) return 'zh'; // Chinese
-  if (/[\u3040-\u309f\u30a0-\u30ff]/.test(text)) return 'ja'; // Japanese
-  if (/[\uac00-\ud7af]/.test(text)) return 'ko'; // Korean
-  if (/[\u0600-\u06ff]/.test(text)) return 'ar'; // Arabic
-  if (/[\u0400-\u04ff]/.test(text)) return 'ru'; // Russian
-  
-  // European language detection (basic)
-  const commonWords = {
-    'fr': ['le', 'la', 'les', 'de', 'et', 'à', 'un', 'une', 'ce', 'que', 'qui', 'dans', 'pour', 'avec'],
-    'de': ['der', 'die', 'das', 'und', 'in', 'zu', 'den', 'von', 'mit', 'ist', 'auf', 'für', 'als', 'sich'],
-    'es': ['el', 'la', 'de', 'que', 'y', 'a', 'en', 'un', 'es', 'se', 'no', 'te', 'lo', 'le'],
-    'it': ['il', 'di', 'che', 'e', 'la', 'per', 'un', 'in', 'con', 'non', 'da', 'su', 'del', 'al'],
-    'pt': ['o', 'de', 'a', 'e', 'que', 'do', 'da', 'em', 'um', 'para', 'é', 'com', 'não', 'uma'],
-  };
+export type SupportedLanguage = keyof typeof SUPPORTED_LANGUAGES;
 
-  const words = text.toLowerCase().split(/\s+/);
-  let maxScore = 0;
-  let detectedLang = 'en';
+// Requests already sent to the provider, so the same message is never translated twice at once
+const pendingTranslations = new Map<string, Promise<string>>();
 
-  Object.entries(commonWords).forEach(([lang, commonWordsList]) => {
-    const score = words.filter(word => commonWordsList.includes(word)).length;
-    if (score > maxScore) {
-      maxScore = score;
-      detectedLang = lang;
-    }
-  });
+const requestTranslation = async (text: string, source: string, target: string): Promise<string> => {
+  const cached = await getCachedTranslation(text, source, target);
+  if (cached !== null) return cached;
 
-  return detectedLang;
+  const translated = await translationProvider.translate({ text, source, target });
+  // Providers answer with the original text when they cannot translate, don't keep that
+  if (translated && translated !== text) {
+    await setCachedTranslation(text, source, target, translated);
+  }
+  return translated || text;
 };
 
-// Translate text using LibreTranslate
+// Translate text with the configured provider, reusing cached and in-flight results
 export const translateText = async (
   text: string,
   targetLang: string,
@@ -91,31 +63,26 @@ export const translateText = async (
     // Don't translate if source and target are the same
     if (source === targetLang) return text;
 
-    const response = await fetch(LIBRE_TRANSLATE_API, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        q: text,
-        source,
-        target: targetLang,
-        format: 'text',
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Translation failed: ${response.statusText}`);
+    const key = `${source}|${targetLang}|${text}`;
+    let pending = pendingTranslations.get(key);
+    if (!pending) {
+      pending = requestTranslation(text, source, targetLang).finally(() => pendingTranslations.delete(key));
+      pendingTranslations.set(key, pending);
     }
-
-    const data = await response.json();
-    return data.translatedText || text;
+    return await pending;
   } catch (error) {
     console.warn('Translation failed, returning original text:', error);
     return text;
   }
 };
 
+// Translation already stored on a message, `chat_messages.translated_content` maps language to text
+export const storedTranslation = (translatedContent: Json | null, language: string): string | undefined => {
+  if (!translatedContent || typeof translatedContent !== 'object' || Array.isArray(translatedContent)) return undefined;
+  const stored = translatedContent[language];
+  return typeof stored === 'string' && stored.length > 0 ? stored : undefined;
+};
+
 // Batch translate multiple texts
 export const translateTexts = async (
   texts: string[],
@@ -133,5 +100,4 @@ export const translateTexts = async (
   }
 };
 
-export { SUPPORTED_LANGUAGES };
-export default i18n;
\ No newline at end of file
+export { SUPPORTED_LANGUAGES, detectLanguage };
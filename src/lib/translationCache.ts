@@ -0,0 +1,114 @@
+// Translation cache keyed by (text, source, target): an in-memory LRU backed by IndexedDB
+
+const DB_NAME = 'libertalk';
+const DB_VERSION = 1;
+const STORE_NAME = 'translations';
+
+const MEMORY_LIMIT = 500;
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // Entries older than 30 days are pruned on open
+
+interface CachedTranslation {
+  translated: string;
+  updatedAt: number;
+}
+
+// Map keeps insertion order, the first key is the least recently used
+const memory = new Map<string, string>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const cacheKey = (text: string, source: string, target: string) => `${source}|${target}|${text}`;
+
+const remember = (key: string, translated: string) => {
+  memory.delete(key);
+  memory.set(key, translated);
+  if (memory.size > MEMORY_LIMIT) {
+    const oldest = memory.keys().next().value;
+    if (oldest !== undefined) memory.delete(oldest);
+  }
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const pruneExpired = (db: IDBDatabase) => {
+  const cutoff = Date.now() - MAX_AGE_MS;
+  const request = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    if ((cursor.value as CachedTranslation).updatedAt < cutoff) cursor.delete();
+    cursor.continue();
+  };
+};
+
+// Resolves to null when IndexedDB is unavailable (private mode, old browsers), the LRU still works
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => {
+        pruneExpired(request.result);
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        console.warn('🌐 Translation cache unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const getCachedTranslation = async (text: string, source: string, target: string): Promise<string | null> => {
+  const key = cacheKey(text, source, target);
+  const inMemory = memory.get(key);
+  if (inMemory !== undefined) {
+    remember(key, inMemory);
+    return inMemory;
+  }
+
+  try {
+    const db = await openDatabase();
+    if (!db) return null;
+
+    const entry = await requestToPromise<CachedTranslation | undefined>(
+      db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key)
+    );
+    if (!entry || entry.updatedAt < Date.now() - MAX_AGE_MS) return null;
+
+    remember(key, entry.translated);
+    return entry.translated;
+  } catch (error) {
+    console.warn('🌐 Translation cache read failed:', error);
+    return null;
+  }
+};
+
+export const setCachedTranslation = async (text: string, source: string, target: string, translated: string) => {
+  const key = cacheKey(text, source, target);
+  remember(key, translated);
+
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+
+    const entry: CachedTranslation = { translated, updatedAt: Date.now() };
+    await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry, key));
+  } catch (error) {
+    console.warn('🌐 Translation cache write failed:', error);
+  }
+};
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createDeepLProvider,
+  createHttpProvider,
+  createLibreTranslateProvider,
+  createMockTranslationProvider,
+  createTranslationProvider,
+  readTranslationConfig,
+} from './translationProviders';
+
+const fetchMock = vi.fn();
+
+const answer = (body: unknown, status = 200) =>
+  fetchMock.mockResolvedValueOnce(new Response(JSON.stringify(body), { status, statusText: status === 200 ? 'OK' : 'Error' }));
+
+// URL and parsed JSON body of a fetch call
+const sent = (call = 0) => {
+  const [url, init] = fetchMock.mock.calls[call] as [string, RequestInit];
+  return { url, method: init.method, body: JSON.parse(init.body as string) };
+};
+
+const env = (values: Partial<ImportMetaEnv>) => values as ImportMetaEnv;
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('createLibreTranslateProvider', () => {
+  it('posts the LibreTranslate request to the public instance by default', async () => {
+    answer({ translatedText: 'Bonjour' });
+
+    await expect(createLibreTranslateProvider().translate({ text: 'Hello', source: 'en', target: 'fr' })).resolves.toBe('Bonjour');
+    expect(sent()).toEqual({
+      url: 'https://libretranslate.de/translate',
+      method: 'POST',
+      body: { q: 'Hello', source: 'en', target: 'fr', format: 'text' },
+    });
+  });
+
+  it('uses a self-hosted instance when a URL is set', async () => {
+    answer({ translatedText: 'Hallo' });
+
+    await createLibreTranslateProvider({ url: 'http://localhost:5000/translate' }).translate({ text: 'Hello', source: 'en', target: 'de' });
+    expect(sent().url).toBe('http://localhost:5000/translate');
+  });
+
+  it('keeps the original text when the answer has no translation', async () => {
+    answer({ error: 'nope' });
+
+    await expect(createLibreTranslateProvider().translate({ text: 'Hello', source: 'en', target: 'fr' })).resolves.toBe('Hello');
+  });
+
+  it('rejects on an error status', async () => {
+    answer({}, 429);
+
+    await expect(createLibreTranslateProvider().translate({ text: 'Hello', source: 'en', target: 'fr' }))
+      .rejects.toThrow('Translation failed: 429');
+  });
+
+  it('aborts the request after the timeout', async () => {
+    vi.useFakeTimers();
+    fetchMock.mockImplementationOnce((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+
+    const pending = createLibreTranslateProvider({ timeoutMs: 100 }).translate({ text: 'Hello', source: 'en', target: 'fr' });
+    const assertion = expect(pending).rejects.toThrow('aborted');
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+  });
+});
+
+describe('createDeepLProvider', () => {
+  const provider = createDeepLProvider({ url: 'https://proxy.example/translate' });
+
+  it('maps the request to DeepL API v2 and reads the first translation', async () => {
+    answer({ translations: [{ detected_source_language: 'FR', text: 'Hello' }] });
+
+    await expect(provider.translate({ text: 'Bonjour', source: 'fr', target: 'de' })).resolves.toBe('Hello');
+    expect(sent()).toEqual({
+      url: 'https://proxy.example/translate',
+      method: 'POST',
+      body: { text: ['Bonjour'], source_lang: 'FR', target_lang: 'DE' },
+    });
+  });
+
+  it('asks for the regional variant DeepL requires', async () => {
+    answer({ translations: [{ text: 'Hello' }] });
+    answer({ translations: [{ text: 'Olá' }] });
+
+    await provider.translate({ text: 'Bonjour', source: 'fr', target: 'en' });
+    await provider.translate({ text: 'Bonjour', source: 'fr', target: 'pt' });
+    expect(sent(0).body.target_lang).toBe('EN-GB');
+    expect(sent(1).body.target_lang).toBe('PT-PT');
+  });
+
+  it('keeps the original text when DeepL returns no translation', async () => {
+    answer({ translations: [] });
+
+    await expect(provider.translate({ text: 'Bonjour', source: 'fr', target: 'de' })).resolves.toBe('Bonjour');
+  });
+});
+
+describe('createHttpProvider', () => {
+  const provider = createHttpProvider({ url: 'https://translate.example/api' });
+
+  it('posts text, source and target', async () => {
+    answer({ translation: 'Hola' });
+
+    await expect(provider.translate({ text: 'Hello', source: 'en', target: 'es' })).resolves.toBe('Hola');
+    expect(sent()).toEqual({
+      url: 'https://translate.example/api',
+      method: 'POST',
+      body: { text: 'Hello', source: 'en', target: 'es' },
+    });
+  });
+
+  it('also reads a LibreTranslate style answer', async () => {
+    answer({ translatedText: 'Ciao' });
+
+    await expect(provider.translate({ text: 'Hello', source: 'en', target: 'it' })).resolves.toBe('Ciao');
+  });
+
+  it('keeps the original text for an unexpected answer', async () => {
+    answer({ translation: 42 });
+
+    await expect(provider.translate({ text: 'Hello', source: 'en', target: 'it' })).resolves.toBe('Hello');
+  });
+});
+
+describe('createMockTranslationProvider', () => {
+  it('prefixes the target language without any request', async () => {
+    await expect(createMockTranslationProvider().translate({ text: 'Hello', source: 'en', target: 'ja' })).resolves.toBe('[ja] Hello');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('uses the given translation function', async () => {
+    const provider = createMockTranslationProvider(({ text }) => text.toUpperCase());
+
+    await expect(provider.translate({ text: 'Hello', source: 'en', target: 'fr' })).resolves.toBe('HELLO');
+  });
+});
+
+describe('readTranslationConfig', () => {
+  it('defaults to LibreTranslate when nothing is set', () => {
+    expect(readTranslationConfig(env({}))).toEqual({
+      provider: 'libretranslate',
+      url: undefined,
+      timeoutMs: undefined,
+      configError: undefined,
+    });
+  });
+
+  it('reads the provider, URL and timeout', () => {
+    expect(readTranslationConfig(env({
+      VITE_TRANSLATION_PROVIDER: ' DeepL ',
+      VITE_TRANSLATION_URL: 'https://proxy.example/translate',
+      VITE_TRANSLATION_TIMEOUT_MS: '3000',
+    }))).toEqual({
+      provider: 'deepl',
+      url: 'https://proxy.example/translate',
+      timeoutMs: 3000,
+      configError: undefined,
+    });
+  });
+
+  it('ignores a timeout that is not a positive number', () => {
+    expect(readTranslationConfig(env({ VITE_TRANSLATION_TIMEOUT_MS: 'soon' })).timeoutMs).toBeUndefined();
+    expect(readTranslationConfig(env({ VITE_TRANSLATION_TIMEOUT_MS: '-5' })).timeoutMs).toBeUndefined();
+  });
+
+  it('reports an unknown provider instead of picking one', () => {
+    expect(readTranslationConfig(env({ VITE_TRANSLATION_PROVIDER: 'depl' })).configError).toBe('Unknown translation provider "depl"');
+  });
+});
+
+describe('createTranslationProvider', () => {
+  it('creates the configured provider', () => {
+    expect(createTranslationProvider({ provider: 'libretranslate' }).name).toBe('libretranslate');
+    expect(createTranslationProvider({ provider: 'deepl', url: 'https://proxy.example' }).name).toBe('deepl');
+    expect(createTranslationProvider({ provider: 'http', url: 'https://translate.example' }).name).toBe('http');
+    expect(createTranslationProvider({ provider: 'mock' }).name).toBe('mock');
+  });
+
+  it.each(['deepl', 'http'] as const)('disables %s without a URL instead of falling back', async (name) => {
+    const provider = createTranslationProvider({ provider: name });
+
+    expect(provider.name).toBe(name);
+    expect(provider.configError).toMatch('needs VITE_TRANSLATION_URL');
+    await expect(provider.translate({ text: 'Hello', source: 'en', target: 'fr' })).rejects.toThrow('needs VITE_TRANSLATION_URL');
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('disables an unknown provider', async () => {
+    const provider = createTranslationProvider(readTranslationConfig(env({ VITE_TRANSLATION_PROVIDER: 'depl' })));
+
+    expect(provider.configError).toBe('Unknown translation provider "depl"');
+    await expect(provider.translate({ text: 'Hello', source: 'en', target: 'fr' })).rejects.toThrow('Unknown translation provider');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,174 @@
+// Translation backends used by translateText, picked from VITE_TRANSLATION_* env variables.
+// Everything in VITE_* ends up in the bundle, so no API key is read here: providers that need one
+// (DeepL, a keyed LibreTranslate) are reached through a server-side proxy at VITE_TRANSLATION_URL
+// that adds the key, like the translate Edge Function for DeepL.
+
+export interface TranslationRequest {
+  text: string;
+  source: string;
+  target: string;
+}
+
+export interface TranslationProvider {
+  name: TranslationProviderName;
+  translate: (request: TranslationRequest) => Promise<string>;
+  // Why the provider can't translate anything, set when its settings are incomplete
+  configError?: string;
+}
+
+export type TranslationProviderName = 'libretranslate' | 'deepl' | 'http' | 'mock';
+
+export interface TranslationConfig {
+  provider: TranslationProviderName;
+  url?: string;
+  timeoutMs?: number;
+  // Settings that can't be used, translation is disabled instead of guessed
+  configError?: string;
+}
+
+const PROVIDER_NAMES: TranslationProviderName[] = ['libretranslate', 'deepl', 'http', 'mock'];
+
+const DEFAULT_LIBRETRANSLATE_URL = 'https://libretranslate.de/translate';
+const DEFAULT_TIMEOUT_MS = 8000;
+
+// DeepL only accepts regional variants for these targets
+const DEEPL_TARGET_VARIANTS: Record<string, string> = {
+  en: 'EN-GB',
+  pt: 'PT-PT',
+};
+
+// POST a JSON body and return the JSON response, aborting after timeoutMs
+const postJson = async (url: string, body: unknown, headers: Record<string, string>, timeoutMs: number) => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Translation failed: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json();
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// LibreTranslate, public instance or a self-hosted container
+export const createLibreTranslateProvider = (config: Omit<TranslationConfig, 'provider'> = {}): TranslationProvider => ({
+  name: 'libretranslate',
+  translate: async ({ text, source, target }) => {
+    const data = await postJson(
+      config.url || DEFAULT_LIBRETRANSLATE_URL,
+      {
+        q: text,
+        source,
+        target,
+        format: 'text',
+      },
+      {},
+      config.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    );
+    return typeof data?.translatedText === 'string' ? data.translatedText : text;
+  },
+});
+
+// DeepL API v2 request and response, sent to a proxy that adds the auth key.
+// DeepL itself can't be called from a browser: it sends no CORS headers and the key would be public.
+export const createDeepLProvider = (config: Omit<TranslationConfig, 'provider'> & { url: string }): TranslationProvider => ({
+  name: 'deepl',
+  translate: async ({ text, source, target }) => {
+    const data = await postJson(
+      config.url,
+      {
+        text: [text],
+        source_lang: source.toUpperCase(),
+        target_lang: DEEPL_TARGET_VARIANTS[target] || target.toUpperCase(),
+      },
+      {},
+      config.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    );
+    const translated = data?.translations?.[0]?.text;
+    return typeof translated === 'string' ? translated : text;
+  },
+});
+
+// Generic endpoint: POST { text, source, target }, answers { translation } or { translatedText }
+export const createHttpProvider = (config: Omit<TranslationConfig, 'provider'> & { url: string }): TranslationProvider => ({
+  name: 'http',
+  translate: async ({ text, source, target }) => {
+    const data = await postJson(
+      config.url,
+      { text, source, target },
+      {},
+      config.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    );
+    const translated = data?.translation ?? data?.translatedText;
+    return typeof translated === 'string' ? translated : text;
+  },
+});
+
+// Offline provider for tests and local development, no network calls
+export const createMockTranslationProvider = (
+  translate: (request: TranslationRequest) => string = ({ text, target }) => `[${target}] ${text}`
+): TranslationProvider => ({
+  name: 'mock',
+  translate: async (request) => translate(request),
+});
+
+// Provider missing its settings: translations fail rather than go to a service nobody chose
+export const createUnconfiguredProvider = (name: TranslationProviderName, configError: string): TranslationProvider => ({
+  name,
+  configError,
+  translate: async () => {
+    throw new Error(configError);
+  },
+});
+
+const isProviderName = (value: unknown): value is TranslationProviderName =>
+  PROVIDER_NAMES.includes(value as TranslationProviderName);
+
+// Read the provider settings, LibreTranslate on the public instance when nothing is set
+export const readTranslationConfig = (env: ImportMetaEnv = import.meta.env): TranslationConfig => {
+  const provider = env.VITE_TRANSLATION_PROVIDER?.trim().toLowerCase();
+  const timeoutMs = Number(env.VITE_TRANSLATION_TIMEOUT_MS);
+
+  return {
+    provider: isProviderName(provider) ? provider : 'libretranslate',
+    url: env.VITE_TRANSLATION_URL || undefined,
+    timeoutMs: timeoutMs > 0 ? timeoutMs : undefined,
+    configError: provider && !isProviderName(provider) ? `Unknown translation provider "${provider}"` : undefined,
+  };
+};
+
+export const createTranslationProvider = ({ provider, configError, ...options }: TranslationConfig): TranslationProvider => {
+  const disable = (reason: string) => {
+    console.error(`🌐 ${reason}, translation is disabled`);
+    return createUnconfiguredProvider(provider, reason);
+  };
+
+  if (configError) return disable(configError);
+
+  switch (provider) {
+    case 'deepl':
+      if (options.url) return createDeepLProvider({ ...options, url: options.url });
+      return disable('The deepl translation provider needs VITE_TRANSLATION_URL pointing at your proxy');
+    case 'http':
+      if (options.url) return createHttpProvider({ ...options, url: options.url });
+      return disable('The http translation provider needs VITE_TRANSLATION_URL');
+    case 'mock':
+      return createMockTranslationProvider();
+    case 'libretranslate':
+    default:
+      return createLibreTranslateProvider(options);
+  }
+};
@@ -0,0 +1,83 @@
+// How translated messages are displayed, kept in localStorage across chats and reloads
+
+export type TranslationDisplayMode = 'translated' | 'both' | 'original';
+export type MessageDisplay = 'translated' | 'original';
+
+export const DISPLAY_MODES: TranslationDisplayMode[] = ['both', 'translated', 'original'];
+
+export interface TranslationSettings {
+  mode: TranslationDisplayMode;
+  // Messages flipped by tapping them, message id -> side shown
+  messageDisplays: Record<string, MessageDisplay>;
+  // Source languages left untranslated, per chat id
+  neverTranslate: Record<string, string[]>;
+}
+
+const SETTINGS_STORAGE_KEY = 'libertalk_translation_settings';
+
+// Older entries are dropped first, ids are only meaningful for recent chats
+const MAX_MESSAGE_DISPLAYS = 200;
+const MAX_CONVERSATIONS = 20;
+
+export const DEFAULT_TRANSLATION_SETTINGS: TranslationSettings = {
+  mode: 'both',
+  messageDisplays: {},
+  neverTranslate: {},
+};
+
+export const nextDisplayMode = (mode: TranslationDisplayMode): TranslationDisplayMode =>
+  DISPLAY_MODES[(DISPLAY_MODES.indexOf(mode) + 1) % DISPLAY_MODES.length];
+
+// Keep the most recently inserted keys of a record
+const keepLatest = <T>(record: Record<string, T>, max: number): Record<string, T> =>
+  Object.fromEntries(Object.entries(record).slice(-max));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const loadTranslationSettings = (): TranslationSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+    if (!isRecord(saved)) return DEFAULT_TRANSLATION_SETTINGS;
+
+    const messageDisplays = isRecord(saved.messageDisplays)
+      ? Object.fromEntries(
+          Object.entries(saved.messageDisplays).filter(
+            (entry): entry is [string, MessageDisplay] => entry[1] === 'translated' || entry[1] === 'original'
+          )
+        )
+      : {};
+    const neverTranslate = isRecord(saved.neverTranslate)
+      ? Object.fromEntries(
+          Object.entries(saved.neverTranslate)
+            .filter((entry): entry is [string, unknown[]] => Array.isArray(entry[1]))
+            .map(([chatId, languages]) => [chatId, languages.filter((lang): lang is string => typeof lang === 'string')])
+        )
+      : {};
+
+    return {
+      mode: DISPLAY_MODES.includes(saved.mode as TranslationDisplayMode)
+        ? (saved.mode as TranslationDisplayMode)
+        : DEFAULT_TRANSLATION_SETTINGS.mode,
+      messageDisplays,
+      neverTranslate,
+    };
+  } catch {
+    return DEFAULT_TRANSLATION_SETTINGS;
+  }
+};
+
+export const saveTranslationSettings = (settings: TranslationSettings) => {
+  try {
+    localStorage.setItem(
+      SETTINGS_STORAGE_KEY,
+      JSON.stringify({
+        mode: settings.mode,
+        messageDisplays: keepLatest(settings.messageDisplays, MAX_MESSAGE_DISPLAYS),
+        neverTranslate: keepLatest(settings.neverTranslate, MAX_CONVERSATIONS),
+      })
+    );
+  } catch {
+    console.warn('⚠️ localStorage not available, translation settings will not persist');
+  }
+};
@@ -0,0 +1,114 @@
+import { Json } from './database.types';
+import { ChatMediaBucket, uploadChatMedia, getChatMediaUrl } from './chatMedia';
+
+// Voice messages: recordings live in the private `voice-messages` bucket under
+// `<chat_id>/<sender_id>/`, the chat_messages row only keeps the path, the duration and a
+// precomputed waveform.
+// Uploads and playback go through signed URLs, see chatMedia.ts
+
+export const VOICE_BUCKET: ChatMediaBucket = 'voice-messages';
+
+export const MAX_VOICE_DURATION_MS = 60_000;
+// Shorter presses are taken as an accidental tap on the record button
+export const MIN_VOICE_DURATION_MS = 500;
+export const WAVEFORM_BARS = 40;
+
+// Opus first, Safari only records mp4
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+export interface VoiceRecording {
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+  waveform: number[];
+}
+
+// Stored in `chat_messages.attachment` for messages of kind 'voice', a type so it is assignable to Json
+export type VoiceAttachment = {
+  path: string;
+  mime_type: string;
+  duration_ms: number;
+  waveform: number[];
+};
+
+// Own recordings play from memory, the others from a signed URL fetched once
+const playbackUrls = new Map<string, string>();
+
+export const isVoiceRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+export const pickRecordingMimeType = (): string | undefined =>
+  RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+const fileExtension = (mimeType: string) => {
+  if (mimeType.startsWith('audio/ogg')) return 'ogg';
+  if (mimeType.startsWith('audio/mp4')) return 'm4a';
+  return 'webm';
+};
+
+export const isVoiceAttachment = (value: Json | null): value is VoiceAttachment => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return (
+    typeof value.path === 'string' &&
+    typeof value.mime_type === 'string' &&
+    typeof value.duration_ms === 'number' &&
+    Array.isArray(value.waveform) &&
+    value.waveform.every(level => typeof level === 'number')
+  );
+};
+
+// Peak level of each slice of the recording, scaled so the loudest bar is 1
+export const computeWaveform = async (blob: Blob, bars: number = WAVEFORM_BARS): Promise<number[]> => {
+  const flat = new Array(bars).fill(0.5);
+  if (typeof AudioContext === 'undefined') return flat;
+
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const sliceSize = Math.max(1, Math.floor(samples.length / bars));
+
+    const peaks = Array.from({ length: bars }, (_, bar) => {
+      let peak = 0;
+      for (let i = bar * sliceSize; i < Math.min(samples.length, (bar + 1) * sliceSize); i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      return peak;
+    });
+
+    const loudest = Math.max(...peaks);
+    return loudest > 0 ? peaks.map(peak => Math.round((peak / loudest) * 100) / 100) : flat;
+  } catch (error) {
+    console.warn('🎙️ Could not decode recording for its waveform:', error);
+    return flat;
+  } finally {
+    context.close();
+  }
+};
+
+export const createVoiceAttachment = (chatId: string, senderId: string, clientId: string, recording: VoiceRecording): VoiceAttachment => ({
+  path: `${chatId}/${senderId}/${clientId}.${fileExtension(recording.mimeType)}`,
+  mime_type: recording.mimeType.split(';')[0],
+  duration_ms: Math.round(recording.durationMs),
+  waveform: recording.waveform,
+});
+
+// A retry after a lost response replaces the first upload instead of failing
+export const uploadVoiceRecording = async (userId: string, attachment: VoiceAttachment, recording: VoiceRecording) => {
+  if (!playbackUrls.has(attachment.path)) {
+    playbackUrls.set(attachment.path, URL.createObjectURL(recording.blob));
+  }
+
+  return uploadChatMedia(VOICE_BUCKET, userId, attachment.path, recording.blob, attachment.mime_type);
+};
+
+export const getVoicePlaybackUrl = async (path: string, userId?: string): Promise<string | null> => {
+  const known = playbackUrls.get(path);
+  if (known) return known;
+  if (!userId) return null;
+
+  // Gone once the chat has ended
+  const signedUrl = await getChatMediaUrl(VOICE_BUCKET, userId, path);
+  if (signedUrl) playbackUrls.set(path, signedUrl);
+  return signedUrl;
+};
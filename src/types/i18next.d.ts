@@ -0,0 +1,20 @@
+import 'i18next';
+import common from '../locales/en/common.json';
+import home from '../locales/en/home.json';
+import chat from '../locales/en/chat.json';
+import report from '../locales/en/report.json';
+import settings from '../locales/en/settings.json';
+
+// English is the reference locale, keys missing from it are type errors
+declare module 'i18next' {
+  interface CustomTypeOptions {
+    defaultNS: 'common';
+    resources: {
+      common: typeof common;
+      home: typeof home;
+      chat: typeof chat;
+      report: typeof report;
+      settings: typeof settings;
+    };
+  }
+}
@@ -25,4 +25,4 @@ export interface MatchRequest {
 }
 
 export type Theme = 'light' | 'dark';
-export type Language = 'en' | 'fr' | 'de' | 'es' | 'it';
\ No newline at end of file
+export type Language = 'en' | 'fr' | 'de' | 'es' | 'it' | 'pt' | 'ru' | 'zh' | 'ja' | 'ko' | 'ar';
\ No newline at end of file
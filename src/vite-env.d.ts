@@ -1 +1,20 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_ANON_KEY: string;
+  // libretranslate (default), deepl, http or mock
+  readonly VITE_TRANSLATION_PROVIDER?: string;
+  // Endpoint of the provider, e.g. a self-hosted LibreTranslate at http://localhost:5000/translate.
+  // Required for deepl and http, translation is disabled without it. Must not need a key: VITE_* values
+  // are public, so point it at a server-side proxy (e.g. the translate Edge Function for DeepL)
+  readonly VITE_TRANSLATION_URL?: string;
+  readonly VITE_TRANSLATION_TIMEOUT_MS?: string;
+  // JSON array of RTCIceServer for calls, e.g. [{"urls":"turn:turn.example.com","username":"u","credential":"p"}]
+  // With a TURN server, users can relay calls so their partner doesn't see their IP address
+  readonly VITE_ICE_SERVERS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
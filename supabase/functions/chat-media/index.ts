@@ -0,0 +1,60 @@
+// Signs uploads and downloads of chat media for the participants of the chat.
+// The buckets have no storage policies, every client access goes through here.
+// Callers prove their user id with the device key they registered when joining the queue.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Signed URLs outlive any chat, the files are deleted when it ends anyway
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+const respond = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const { action, bucket, user_id, device_key, path } = await request.json().catch(() => ({}));
+  if (action !== 'upload' && action !== 'download') {
+    return respond(400, { success: false, error: 'invalid_action', message: 'Action must be upload or download' });
+  }
+
+  const { data: access, error: accessError } = await supabase.rpc('authorize_chat_media', {
+    p_user_id: user_id,
+    p_device_key: device_key,
+    p_action: action,
+    p_bucket: bucket,
+    p_path: path,
+  });
+  if (accessError) {
+    console.error('❌ chat-media: Access check failed:', accessError);
+    return respond(500, { success: false, error: accessError.message, message: 'Failed to check media access' });
+  }
+  if (!access.success) return respond(403, access);
+
+  if (action === 'upload') {
+    // Upsert so a retry after a lost response replaces the first upload instead of failing,
+    // the path is in the folder of the caller so only their own files can be replaced
+    const { data, error } = await supabase.storage.from(bucket).createSignedUploadUrl(path, { upsert: true });
+    if (error) {
+      console.error('❌ chat-media: Could not sign upload:', error);
+      return respond(500, { success: false, error: error.message, message: 'Failed to sign upload' });
+    }
+    return respond(200, { success: true, path: data.path, token: data.token });
+  }
+
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+  if (error) {
+    // Not uploaded yet, or already purged
+    return respond(404, { success: false, error: error.message, message: 'Media not found' });
+  }
+  return respond(200, { success: true, signed_url: data.signedUrl });
+});
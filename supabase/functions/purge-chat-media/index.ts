@@ -0,0 +1,81 @@
+// Removes the media of ended chats through the Storage API, deleting storage.objects rows
+// directly would leave the files behind. Called every minute by request_chat_media_purge while
+// chat_media_deletions is not empty; a chat that fails keeps its row and is retried.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const BATCH_SIZE = 20;
+const LIST_PAGE_SIZE = 100;
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+const respond = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Removed files drop out of the listing, so the first page is read until it comes back empty.
+// A chat folder holds one folder per sender, listed without an id and gone with its last file.
+const removeFolder = async (bucket: string, folder: string): Promise<void> => {
+  for (;;) {
+    const { data: entries, error: listError } = await supabase.storage.from(bucket).list(folder, { limit: LIST_PAGE_SIZE });
+    if (listError) throw listError;
+    if (!entries.length) return;
+
+    for (const subfolder of entries.filter(entry => entry.id === null)) {
+      await removeFolder(bucket, `${folder}/${subfolder.name}`);
+    }
+
+    const files = entries.filter(entry => entry.id !== null);
+    if (!files.length) continue;
+
+    const { data: removed, error: removeError } = await supabase.storage
+      .from(bucket)
+      .remove(files.map(file => `${folder}/${file.name}`));
+    if (removeError) throw removeError;
+    if (!removed.length) throw new Error(`Storage kept the files of ${bucket}/${folder}`);
+  }
+};
+
+Deno.serve(async (request) => {
+  // Only the cron job knows the service role key
+  if (request.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return respond(401, { success: false, error: 'unauthorized', message: 'Service role required' });
+  }
+
+  const { data: buckets, error: bucketsError } = await supabase.from('chat_media_buckets').select('bucket_id');
+  if (bucketsError) return respond(500, { success: false, error: bucketsError.message });
+
+  // Chats that keep failing go last so they don't hold up the others
+  const { data: queued, error: queueError } = await supabase
+    .from('chat_media_deletions')
+    .select('chat_id, attempts')
+    .order('attempts')
+    .order('requested_at')
+    .limit(BATCH_SIZE);
+  if (queueError) return respond(500, { success: false, error: queueError.message });
+
+  const failed: { chat_id: string; error: string }[] = [];
+
+  for (const { chat_id: chatId, attempts } of queued) {
+    try {
+      for (const { bucket_id: bucket } of buckets) {
+        await removeFolder(bucket, chatId);
+      }
+      const { error } = await supabase.from('chat_media_deletions').delete().eq('chat_id', chatId);
+      if (error) throw error;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ purge-chat-media: Could not remove the media of ${chatId}:`, message);
+      failed.push({ chat_id: chatId, error: message });
+      await supabase
+        .from('chat_media_deletions')
+        .update({ attempts: attempts + 1, last_error: message })
+        .eq('chat_id', chatId);
+    }
+  }
+
+  return respond(failed.length ? 500 : 200, {
+    success: failed.length === 0,
+    purged: queued.length - failed.length,
+    failed,
+  });
+});
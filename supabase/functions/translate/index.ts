@@ -0,0 +1,66 @@
+// DeepL proxy for the deepl translation provider: takes DeepL API v2 requests from the browser
+// and forwards them with the auth key, which has to stay out of the bundle.
+// Deployed without JWT verification so the app can call it as VITE_TRANSLATION_URL.
+
+// Free API keys need api-free.deepl.com, set DEEPL_API_URL to https://api.deepl.com/v2/translate for Pro
+const DEEPL_API_URL = Deno.env.get('DEEPL_API_URL') ?? 'https://api-free.deepl.com/v2/translate';
+const DEEPL_API_KEY = Deno.env.get('DEEPL_API_KEY');
+
+// One chat message per request, long enough for any message the app lets through
+const MAX_TEXT_LENGTH = 5000;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const respond = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const isLanguage = (value: unknown): value is string => typeof value === 'string' && /^[A-Z]{2}(-[A-Z]{2,4})?$/.test(value);
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (request.method !== 'POST') {
+    return respond(405, { success: false, error: 'method_not_allowed', message: 'Use POST' });
+  }
+  if (!DEEPL_API_KEY) {
+    console.error('❌ translate: DEEPL_API_KEY is not set');
+    return respond(500, { success: false, error: 'not_configured', message: 'Translation is not configured' });
+  }
+
+  // Only the fields the app sends are forwarded, the key can't be used for anything else
+  const { text, source_lang, target_lang } = await request.json().catch(() => ({}));
+  const isValidText =
+    Array.isArray(text) &&
+    text.length === 1 &&
+    typeof text[0] === 'string' &&
+    text[0].length > 0 &&
+    text[0].length <= MAX_TEXT_LENGTH;
+  if (!isValidText || !isLanguage(target_lang) || (source_lang !== undefined && !isLanguage(source_lang))) {
+    return respond(400, { success: false, error: 'invalid_request', message: 'Expected one text and DeepL language codes' });
+  }
+
+  const response = await fetch(DEEPL_API_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `DeepL-Auth-Key ${DEEPL_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ text, source_lang, target_lang }),
+  }).catch((error) => {
+    console.error('❌ translate: DeepL unreachable:', error);
+    return null;
+  });
+
+  if (!response?.ok) {
+    if (response) console.error('❌ translate: DeepL refused the request:', response.status, await response.text());
+    return respond(502, { success: false, error: 'translation_failed', message: 'DeepL could not translate the text' });
+  }
+
+  const data = await response.json();
+  return respond(200, { translations: data.translations });
+});
@@ -0,0 +1,1491 @@
+/*
+  # Schema baseline
+
+  Single idempotent definition of the live schema, replacing the earlier
+  migrations. Running it on an empty database or on one migrated with the
+  previous files gives the same result.
+
+  1. Extensions
+    - `postgis` for user locations, `pg_cron` for the cleanup job
+
+  2. Retired Objects
+    - Tables `users`, `chats`, `messages`, `active_users`, `matching_queue`,
+      `connection_events` and `connection_logs`
+    - Every v1 matching function (`find_best_match`, `find_bilateral_match`,
+      `find_bazoocam_match`, `find_nearest_match`, `simple_find_match`, `match_user`, ...)
+    - Indexes `idx_user_sessions_token` and `idx_waiting_users_device_id`, covered by
+      unique constraints
+
+  3. Tables
+    - Queue: `waiting_users`, `match_attempts`, `user_sessions`, `device_keys`
+    - Chat: `chat_sessions`, `chat_messages`, `message_rate_limits`
+    - Moderation: `blocked_devices`, `user_reports`, `flagged_devices`
+    - Maintenance: `cleanup_settings`
+    - Tables left by the previous migrations gain `waiting_users.interests`,
+      `chat_messages.client_id` and `chat_messages.read_at`
+
+  4. Functions
+    - Queue: `join_waiting_queue_v2`, `leave_waiting_queue_v2`, `send_heartbeat_v2`,
+      `check_user_status`, `get_queue_statistics_v2`
+    - Matching: `find_best_match_v2`, `confirm_bilateral_match_v2`, `end_chat_session`
+    - Messages: `update_message_receipts`, rate limit trigger
+    - Moderation: `block_user`, `get_block_list`, `clear_block_list`, `report_user`
+    - Maintenance: `cleanup_inactive_sessions_v2`, run by pg_cron every 30 seconds
+
+  5. Security
+    - Queue and chat tables keep open policies for the realtime client, which can only
+      update the status columns of `waiting_users` and `chat_sessions` directly
+    - A device registers a secret key when joining, a device id alone can't take over its entry
+    - Moderation, rate limit and settings tables have no policies
+    - Internal functions are not executable by `anon` and `authenticated`
+*/
+
+CREATE EXTENSION IF NOT EXISTS postgis;
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Drop retired functions, every overload included
+DO $$
+DECLARE
+  v_function regprocedure;
+BEGIN
+  FOR v_function IN
+    SELECT p.oid::regprocedure
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE n.nspname = 'public'
+      AND p.proname = ANY (ARRAY[
+        'add_to_waiting_queue', 'cleanup_inactive_sessions', 'cleanup_inactive_users',
+        'cleanup_matching_queue', 'cleanup_old_entries', 'cleanup_waiting_queue',
+        'confirm_bilateral_connection', 'confirm_bilateral_match', 'find_bazoocam_match',
+        'find_best_match', 'find_bilateral_match', 'find_chat_match', 'find_match_for_user',
+        'find_nearest_match', 'force_match_waiting_users', 'get_queue_statistics',
+        'get_queue_stats', 'get_queue_status', 'get_simple_queue_stats', 'join_chat_queue',
+        'join_matching_queue', 'join_waiting_queue', 'leave_chat_queue', 'leave_matching_queue',
+        'leave_waiting_queue', 'match_user', 'remove_from_queue', 'remove_from_waiting_queue',
+        'send_heartbeat', 'simple_add_to_queue', 'simple_find_match', 'trigger_auto_cleanup',
+        'update_presence', 'update_queue_ping', 'update_user_location', 'update_user_ping',
+        'update_user_presence'
+      ])
+  LOOP
+    EXECUTE format('DROP FUNCTION IF EXISTS %s CASCADE', v_function);
+  END LOOP;
+END $$;
+
+-- join_waiting_queue_v2 before p_interests and p_device_key were added
+DROP FUNCTION IF EXISTS join_waiting_queue_v2(text, text, text, text, text, double precision, double precision, text, inet);
+DROP FUNCTION IF EXISTS join_waiting_queue_v2(text, text, text, text, text, double precision, double precision, text, inet, text[]);
+
+-- Drop retired tables
+DROP TABLE IF EXISTS messages CASCADE;
+DROP TABLE IF EXISTS chats CASCADE;
+DROP TABLE IF EXISTS users CASCADE;
+DROP TABLE IF EXISTS matching_queue CASCADE;
+DROP TABLE IF EXISTS active_users CASCADE;
+DROP TABLE IF EXISTS connection_events CASCADE;
+DROP TABLE IF EXISTS connection_logs CASCADE;
+
+-- Indexes duplicating the unique constraints on session_token and device_id
+DROP INDEX IF EXISTS idx_user_sessions_token;
+DROP INDEX IF EXISTS idx_waiting_users_device_id;
+
+-- Queue entries, one per device
+CREATE TABLE IF NOT EXISTS waiting_users (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id text UNIQUE NOT NULL,
+  session_token text UNIQUE DEFAULT gen_random_uuid()::text,
+
+  -- Location data
+  location geography(Point,4326),
+  continent text DEFAULT 'Unknown',
+  country text DEFAULT 'Unknown',
+  city text DEFAULT 'Unknown',
+  language text DEFAULT 'en',
+
+  -- Queue management
+  priority integer DEFAULT 1,
+  joined_at timestamptz DEFAULT now(),
+  last_heartbeat timestamptz DEFAULT now(),
+  search_attempts integer DEFAULT 0,
+  max_wait_time interval DEFAULT '5 minutes',
+  connection_attempts integer DEFAULT 0,
+  last_error text DEFAULT NULL,
+  retry_count integer DEFAULT 0,
+  matching_started_at timestamptz DEFAULT NULL,
+  is_actively_searching boolean DEFAULT true,
+
+  -- Matching preferences
+  prefer_nearby boolean DEFAULT true,
+  max_distance_km integer DEFAULT 1000,
+  preferred_languages text[] DEFAULT ARRAY['en'],
+  interests text[] DEFAULT '{}',
+  previous_matches text[] DEFAULT '{}',
+
+  -- Status tracking
+  status text DEFAULT 'searching' CHECK (status IN ('searching', 'matched', 'connecting', 'connected', 'disconnected')),
+  current_match_id uuid,
+  connection_quality integer DEFAULT 100,
+  is_active boolean DEFAULT true,
+  session_active boolean DEFAULT true,
+
+  -- Metadata
+  user_agent text,
+  ip_address inet,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Pairs proposed by find_best_match_v2, waiting for both confirmations
+CREATE TABLE IF NOT EXISTS match_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user1_id uuid REFERENCES waiting_users(id) ON DELETE CASCADE,
+  user2_id uuid REFERENCES waiting_users(id) ON DELETE CASCADE,
+
+  -- Match details
+  match_score integer DEFAULT 0,
+  distance_km integer,
+  language_match boolean DEFAULT false,
+  continent_match boolean DEFAULT false,
+
+  -- Status tracking
+  status text DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'rejected', 'timeout')),
+  user1_confirmed boolean DEFAULT false,
+  user2_confirmed boolean DEFAULT false,
+  confirmation_timeout timestamptz DEFAULT (now() + interval '30 seconds'),
+  connection_quality_user1 integer DEFAULT 100,
+  connection_quality_user2 integer DEFAULT 100,
+  retry_attempts integer DEFAULT 0,
+
+  -- Timing
+  created_at timestamptz DEFAULT now(),
+  confirmed_at timestamptz,
+  ended_at timestamptz
+);
+
+-- Heartbeat tracking per queue entry
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES waiting_users(id) ON DELETE CASCADE,
+
+  -- Session data
+  session_token text UNIQUE NOT NULL,
+  device_fingerprint text,
+
+  -- Connection tracking
+  connected_at timestamptz DEFAULT now(),
+  last_heartbeat timestamptz DEFAULT now(),
+  heartbeat_interval integer DEFAULT 5, -- seconds
+  missed_heartbeats integer DEFAULT 0,
+  max_missed_heartbeats integer DEFAULT 6,
+
+  -- Status
+  is_active boolean DEFAULT true,
+  disconnect_reason text,
+  disconnected_at timestamptz,
+
+  -- Metadata
+  user_agent text,
+  ip_address inet,
+  connection_type text DEFAULT 'websocket'
+);
+
+-- Hash of the secret key each device sends when joining. Clients can read waiting_users, so the
+-- device id is public: the key is what proves a request comes from the device of a queue entry
+CREATE TABLE IF NOT EXISTS device_keys (
+  user_id uuid PRIMARY KEY REFERENCES waiting_users(id) ON DELETE CASCADE,
+  key_hash text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Chats opened by confirm_bilateral_match_v2, users are waiting_users ids
+CREATE TABLE IF NOT EXISTS chat_sessions (
+  chat_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user1_id uuid,
+  user2_id uuid,
+  status text DEFAULT 'connecting' CHECK (status IN ('connecting', 'active', 'ended')),
+  created_at timestamptz DEFAULT now(),
+  ended_at timestamptz,
+  user1_confirmed boolean DEFAULT false,
+  user2_confirmed boolean DEFAULT false,
+  last_activity timestamptz DEFAULT now(),
+  connection_established_at timestamptz DEFAULT NULL,
+  last_message_at timestamptz DEFAULT NULL
+);
+
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  chat_id uuid REFERENCES chat_sessions(chat_id) ON DELETE CASCADE,
+  sender_id uuid,
+  client_id text,
+  content text NOT NULL,
+  translated_content jsonb DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  delivered boolean DEFAULT false,
+  read_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS message_rate_limits (
+  bucket text PRIMARY KEY,
+  tokens numeric NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS blocked_devices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  blocker_device_id text NOT NULL,
+  blocked_device_id text NOT NULL,
+
+  -- Snapshot of the blocked user for the settings panel
+  blocked_country text DEFAULT 'Unknown',
+  blocked_language text DEFAULT 'en',
+
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT blocked_devices_pair_key UNIQUE (blocker_device_id, blocked_device_id),
+  CONSTRAINT blocked_devices_not_self CHECK (blocker_device_id <> blocked_device_id)
+);
+
+CREATE TABLE IF NOT EXISTS user_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  chat_id uuid NOT NULL,
+
+  -- Parties
+  reporter_user_id uuid,
+  reporter_device_id text NOT NULL,
+  reported_user_id uuid,
+  reported_device_id text NOT NULL,
+
+  -- Report details
+  reason text NOT NULL CHECK (reason IN ('spam', 'harassment', 'sexual_content', 'hate_speech', 'minor', 'other')),
+  details text,
+  message_snapshot jsonb DEFAULT '[]'::jsonb,
+
+  -- Moderation
+  status text DEFAULT 'pending' CHECK (status IN ('pending', 'reviewed', 'dismissed', 'actioned')),
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT user_reports_once_per_chat UNIQUE (chat_id, reporter_device_id)
+);
+
+CREATE TABLE IF NOT EXISTS flagged_devices (
+  device_id text PRIMARY KEY,
+  report_count integer DEFAULT 0,
+  reason text,
+  flagged_at timestamptz DEFAULT now(),
+  expires_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS cleanup_settings (
+  id integer PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  user_timeout interval NOT NULL DEFAULT '60 seconds',
+  session_timeout interval NOT NULL DEFAULT '60 seconds',
+  match_attempt_timeout interval NOT NULL DEFAULT '2 minutes',
+  rate_limit_bucket_ttl interval NOT NULL DEFAULT '1 hour',
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO cleanup_settings (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+-- Columns added after the previous migrations, the CREATE TABLEs above skip existing tables
+ALTER TABLE waiting_users ADD COLUMN IF NOT EXISTS interests text[] DEFAULT '{}';
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS client_id text;
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS read_at timestamptz;
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_waiting_users_status ON waiting_users(status);
+CREATE INDEX IF NOT EXISTS idx_waiting_users_location ON waiting_users USING GIST(location);
+CREATE INDEX IF NOT EXISTS idx_waiting_users_continent_lang ON waiting_users(continent, language);
+CREATE INDEX IF NOT EXISTS idx_waiting_users_joined_at ON waiting_users(joined_at);
+CREATE INDEX IF NOT EXISTS idx_waiting_users_heartbeat ON waiting_users(last_heartbeat);
+CREATE INDEX IF NOT EXISTS idx_waiting_users_active ON waiting_users(is_active, session_active);
+CREATE INDEX IF NOT EXISTS idx_waiting_users_search ON waiting_users(status, continent, language) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_waiting_users_active_search ON waiting_users(is_actively_searching, joined_at) WHERE status = 'searching';
+CREATE INDEX IF NOT EXISTS idx_waiting_users_location_search ON waiting_users USING GIST(location) WHERE status = 'searching' AND location IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_waiting_users_continent_lang_search ON waiting_users(continent, language, joined_at) WHERE status = 'searching';
+CREATE INDEX IF NOT EXISTS idx_waiting_users_interests ON waiting_users USING GIN(interests);
+
+CREATE INDEX IF NOT EXISTS idx_match_attempts_status ON match_attempts(status);
+CREATE INDEX IF NOT EXISTS idx_match_attempts_timeout ON match_attempts(confirmation_timeout);
+CREATE INDEX IF NOT EXISTS idx_match_attempts_users ON match_attempts(user1_id, user2_id);
+CREATE INDEX IF NOT EXISTS idx_match_attempts_pending_timeout ON match_attempts(confirmation_timeout) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_active ON user_sessions(is_active, last_heartbeat);
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_users ON chat_sessions(user1_id, user2_id);
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_status ON chat_sessions(status);
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_activity ON chat_sessions(last_activity);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_chat_id ON chat_messages(chat_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_unread ON chat_messages(chat_id, sender_id) WHERE read_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chat_messages_client_id ON chat_messages(sender_id, client_id) WHERE client_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_message_rate_limits_updated ON message_rate_limits(updated_at);
+
+CREATE INDEX IF NOT EXISTS idx_blocked_devices_blocker ON blocked_devices(blocker_device_id);
+CREATE INDEX IF NOT EXISTS idx_blocked_devices_blocked ON blocked_devices(blocked_device_id);
+
+CREATE INDEX IF NOT EXISTS idx_user_reports_reported ON user_reports(reported_device_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_user_reports_status ON user_reports(status, created_at);
+
+-- Enable RLS
+ALTER TABLE waiting_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE match_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE device_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_rate_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE blocked_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE flagged_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cleanup_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies, tables without one are only reached through the functions below
+DROP POLICY IF EXISTS "Users can manage their own queue entry" ON waiting_users;
+CREATE POLICY "Users can manage their own queue entry" ON waiting_users
+  FOR ALL TO anon, authenticated USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Users can view match attempts" ON match_attempts;
+CREATE POLICY "Users can view match attempts" ON match_attempts
+  FOR ALL TO anon, authenticated USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Users can manage their sessions" ON user_sessions;
+CREATE POLICY "Users can manage their sessions" ON user_sessions
+  FOR ALL TO anon, authenticated USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Users can access their chats" ON chat_sessions;
+CREATE POLICY "Users can access their chats" ON chat_sessions
+  FOR ALL TO anon, authenticated USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Users can access chat messages" ON chat_messages;
+CREATE POLICY "Users can access chat messages" ON chat_messages
+  FOR ALL TO anon, authenticated USING (true) WITH CHECK (true);
+
+-- Queue entries and chats are created by the functions below. Clients only mark themselves
+-- disconnected or a chat ended, they can't pick an entry id or rewrite the participants
+REVOKE INSERT, UPDATE, DELETE ON waiting_users FROM anon, authenticated;
+GRANT UPDATE (status, last_heartbeat) ON waiting_users TO anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON chat_sessions FROM anon, authenticated;
+GRANT UPDATE (status, ended_at) ON chat_sessions TO anon, authenticated;
+
+-- Join or refresh the queue entry of a device, refusing flagged devices
+CREATE OR REPLACE FUNCTION join_waiting_queue_v2(
+  p_device_id text,
+  p_continent text DEFAULT 'Unknown',
+  p_country text DEFAULT 'Unknown',
+  p_city text DEFAULT 'Unknown',
+  p_language text DEFAULT 'en',
+  p_latitude double precision DEFAULT NULL,
+  p_longitude double precision DEFAULT NULL,
+  p_user_agent text DEFAULT NULL,
+  p_ip_address inet DEFAULT NULL,
+  p_interests text[] DEFAULT '{}',
+  p_device_key text DEFAULT NULL
+) RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid;
+  v_session_id uuid;
+  v_queue_position integer;
+  v_estimated_wait integer;
+  v_location geography;
+  v_interests text[];
+  v_key_hash text;
+  v_registered_hash text;
+BEGIN
+  -- Refuse devices flagged by the moderation queue
+  IF EXISTS (
+    SELECT 1 FROM flagged_devices
+    WHERE device_id = p_device_id
+      AND (expires_at IS NULL OR expires_at > now())
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'device_flagged',
+      'message', 'This device has been suspended after multiple reports'
+    );
+  END IF;
+
+  IF p_device_key IS NOT NULL AND length(p_device_key) < 32 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'invalid_device_key',
+      'message', 'Device key must be at least 32 characters'
+    );
+  END IF;
+  v_key_hash := encode(sha256(convert_to(p_device_key, 'UTF8')), 'hex');
+
+  -- An entry whose device registered a key only answers to that key
+  SELECT k.key_hash INTO v_registered_hash
+  FROM waiting_users w
+  JOIN device_keys k ON k.user_id = w.id
+  WHERE w.device_id = p_device_id;
+
+  IF v_registered_hash IS NOT NULL AND v_key_hash IS DISTINCT FROM v_registered_hash THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'device_key_mismatch',
+      'message', 'Device key does not match this device'
+    );
+  END IF;
+
+  -- Generate UUIDs
+  v_user_id := gen_random_uuid();
+  v_session_id := gen_random_uuid();
+
+  -- Create location point if coordinates provided
+  IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL THEN
+    v_location := ST_Point(p_longitude, p_latitude)::geography;
+  END IF;
+
+  -- Normalize interests: lowercase, trimmed, unique, max 5
+  v_interests := ARRAY(
+    SELECT DISTINCT lower(trim(tag))
+    FROM unnest(COALESCE(p_interests, '{}')) AS tag
+    WHERE length(trim(tag)) BETWEEN 1 AND 32
+    LIMIT 5
+  );
+
+  -- Insert or update user in waiting queue
+  INSERT INTO waiting_users (
+    id,
+    device_id,
+    session_token,
+    location,
+    continent,
+    country,
+    city,
+    language,
+    interests,
+    status,
+    joined_at,
+    last_heartbeat,
+    is_active,
+    session_active,
+    user_agent,
+    ip_address,
+    created_at,
+    updated_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    v_session_id::text,
+    v_location,
+    COALESCE(p_continent, 'Unknown'),
+    COALESCE(p_country, 'Unknown'),
+    COALESCE(p_city, 'Unknown'),
+    COALESCE(p_language, 'en'),
+    v_interests,
+    'searching',
+    now(),
+    now(),
+    true,
+    true,
+    p_user_agent,
+    p_ip_address,
+    now(),
+    now()
+  ) ON CONFLICT (device_id) DO UPDATE SET
+    session_token = v_session_id::text,
+    location = v_location,
+    continent = COALESCE(p_continent, 'Unknown'),
+    country = COALESCE(p_country, 'Unknown'),
+    city = COALESCE(p_city, 'Unknown'),
+    language = COALESCE(p_language, 'en'),
+    interests = v_interests,
+    status = 'searching',
+    joined_at = now(),
+    last_heartbeat = now(),
+    is_active = true,
+    session_active = true,
+    user_agent = p_user_agent,
+    ip_address = p_ip_address,
+    updated_at = now()
+  RETURNING id INTO v_user_id;
+
+  IF v_key_hash IS NOT NULL THEN
+    INSERT INTO device_keys (user_id, key_hash)
+    VALUES (v_user_id, v_key_hash)
+    ON CONFLICT (user_id) DO NOTHING;
+  END IF;
+
+  -- Calculate queue position
+  SELECT COUNT(*) INTO v_queue_position
+  FROM waiting_users
+  WHERE status = 'searching'
+    AND is_active = true
+    AND session_active = true
+    AND joined_at < (SELECT joined_at FROM waiting_users WHERE id = v_user_id);
+
+  -- Estimate wait time (rough calculation)
+  v_estimated_wait := GREATEST(v_queue_position * 5, 10);
+
+  -- Insert session record
+  INSERT INTO user_sessions (
+    user_id,
+    session_token,
+    connected_at,
+    last_heartbeat,
+    is_active
+  ) VALUES (
+    v_user_id,
+    v_session_id::text,
+    now(),
+    now(),
+    true
+  ) ON CONFLICT (session_token) DO UPDATE SET
+    last_heartbeat = now(),
+    is_active = true;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'user_id', v_user_id,
+    'session_id', v_session_id,
+    'queue_position', v_queue_position,
+    'estimated_wait_seconds', v_estimated_wait,
+    'interests', to_jsonb(v_interests),
+    'message', 'Successfully joined waiting queue'
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', SQLERRM,
+    'message', 'Failed to join waiting queue'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Leave the queue and reject pending match attempts
+CREATE OR REPLACE FUNCTION leave_waiting_queue_v2(
+  p_user_id uuid
+) RETURNS jsonb AS $$
+BEGIN
+  -- Update user status
+  UPDATE waiting_users 
+  SET 
+    status = 'disconnected',
+    is_active = false,
+    session_active = false,
+    updated_at = now()
+  WHERE id = p_user_id;
+
+  -- Update session status
+  UPDATE user_sessions 
+  SET 
+    is_active = false,
+    disconnect_reason = 'user_left',
+    disconnected_at = now()
+  WHERE user_id = p_user_id;
+
+  -- Cancel any pending matches
+  UPDATE match_attempts 
+  SET status = 'rejected'
+  WHERE (user1_id = p_user_id OR user2_id = p_user_id)
+    AND status = 'pending';
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Successfully left waiting queue'
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', SQLERRM,
+    'message', 'Failed to leave queue'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Keep a queued user alive
+CREATE OR REPLACE FUNCTION send_heartbeat_v2(
+  p_user_id uuid,
+  p_connection_quality integer DEFAULT 100
+) RETURNS jsonb AS $$
+BEGIN
+  -- Update user heartbeat
+  UPDATE waiting_users 
+  SET 
+    last_heartbeat = now(),
+    connection_quality = p_connection_quality,
+    updated_at = now()
+  WHERE id = p_user_id AND is_active = true;
+
+  -- Update session heartbeat
+  UPDATE user_sessions 
+  SET 
+    last_heartbeat = now(),
+    missed_heartbeats = 0
+  WHERE user_id = p_user_id AND is_active = true;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'timestamp', now(),
+    'message', 'Heartbeat updated successfully'
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', SQLERRM,
+    'message', 'Failed to update heartbeat'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Current queue status of a user
+CREATE OR REPLACE FUNCTION check_user_status(
+  p_user_id uuid
+) RETURNS jsonb AS $$
+DECLARE
+  v_user_active boolean := false;
+BEGIN
+  SELECT is_active AND session_active INTO v_user_active
+  FROM waiting_users 
+  WHERE id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'is_active', COALESCE(v_user_active, false),
+    'timestamp', now()
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object(
+    'is_active', false,
+    'error', SQLERRM
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Queue size and wait time estimates
+CREATE OR REPLACE FUNCTION get_queue_statistics_v2()
+RETURNS jsonb AS $$
+DECLARE
+  v_total_waiting integer;
+  v_by_continent jsonb;
+  v_by_language jsonb;
+  v_avg_wait_time integer;
+BEGIN
+  -- Get total waiting users
+  SELECT COUNT(*) INTO v_total_waiting
+  FROM waiting_users 
+  WHERE status = 'searching' 
+    AND is_active = true 
+    AND session_active = true;
+
+  -- Get distribution by continent
+  SELECT jsonb_object_agg(continent, count)
+  INTO v_by_continent
+  FROM (
+    SELECT continent, COUNT(*) as count
+    FROM waiting_users 
+    WHERE status = 'searching' 
+      AND is_active = true 
+      AND session_active = true
+    GROUP BY continent
+  ) t;
+
+  -- Get distribution by language
+  SELECT jsonb_object_agg(language, count)
+  INTO v_by_language
+  FROM (
+    SELECT language, COUNT(*) as count
+    FROM waiting_users 
+    WHERE status = 'searching' 
+      AND is_active = true 
+      AND session_active = true
+    GROUP BY language
+  ) t;
+
+  -- Calculate average wait time
+  SELECT COALESCE(AVG(EXTRACT(EPOCH FROM (now() - joined_at))), 0)::integer
+  INTO v_avg_wait_time
+  FROM waiting_users 
+  WHERE status = 'searching' 
+    AND is_active = true 
+    AND session_active = true;
+
+  RETURN jsonb_build_object(
+    'total_waiting', v_total_waiting,
+    'by_continent', COALESCE(v_by_continent, '{}'::jsonb),
+    'by_language', COALESCE(v_by_language, '{}'::jsonb),
+    'average_wait_time', v_avg_wait_time,
+    'timestamp', now()
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object(
+    'total_waiting', 0,
+    'by_continent', '{}'::jsonb,
+    'by_language', '{}'::jsonb,
+    'average_wait_time', 0,
+    'error', SQLERRM
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Best partner for a user, skipping previous matches and blocked pairs
+CREATE OR REPLACE FUNCTION find_best_match_v2(
+  p_user_id uuid
+) RETURNS jsonb AS $$
+DECLARE
+  v_user_record waiting_users%ROWTYPE;
+  v_potential_match waiting_users%ROWTYPE;
+  v_match_id uuid;
+  v_distance_km integer;
+  v_match_score integer;
+  v_shared_interests text[];
+BEGIN
+  -- Get current user info
+  SELECT * INTO v_user_record
+  FROM waiting_users
+  WHERE id = p_user_id AND is_active = true AND session_active = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'User not found or inactive',
+      'message', 'User not in active queue'
+    );
+  END IF;
+
+  -- Find best match: shared interests first, then continent/language
+  SELECT * INTO v_potential_match
+  FROM waiting_users w
+  WHERE w.id != p_user_id
+    AND w.status = 'searching'
+    AND w.is_active = true
+    AND w.session_active = true
+    AND w.last_heartbeat > now() - interval '30 seconds'
+    AND NOT (w.id::text = ANY(COALESCE(v_user_record.previous_matches, '{}')))
+    AND NOT EXISTS (
+      SELECT 1 FROM blocked_devices b
+      WHERE (b.blocker_device_id = v_user_record.device_id AND b.blocked_device_id = w.device_id)
+         OR (b.blocker_device_id = w.device_id AND b.blocked_device_id = v_user_record.device_id)
+    )
+  ORDER BY
+    -- Prioritize number of shared interest tags
+    cardinality(ARRAY(
+      SELECT unnest(COALESCE(w.interests, '{}'))
+      INTERSECT
+      SELECT unnest(COALESCE(v_user_record.interests, '{}'))
+    )) DESC,
+    -- Then same continent and language
+    CASE WHEN w.continent = v_user_record.continent AND w.language = v_user_record.language THEN 1
+         WHEN w.continent = v_user_record.continent THEN 2
+         WHEN w.language = v_user_record.language THEN 3
+         ELSE 4 END,
+    -- Then by connection quality
+    w.connection_quality DESC,
+    -- Then by wait time (oldest first)
+    w.joined_at ASC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'total_waiting', (SELECT COUNT(*) FROM waiting_users WHERE status = 'searching' AND is_active = true),
+      'message', 'No suitable match found'
+    );
+  END IF;
+
+  v_shared_interests := ARRAY(
+    SELECT unnest(COALESCE(v_potential_match.interests, '{}'))
+    INTERSECT
+    SELECT unnest(COALESCE(v_user_record.interests, '{}'))
+  );
+
+  -- Calculate match score and distance
+  v_match_score := 100 + cardinality(v_shared_interests) * 20;
+  IF v_potential_match.continent = v_user_record.continent THEN
+    v_match_score := v_match_score + 20;
+  END IF;
+  IF v_potential_match.language = v_user_record.language THEN
+    v_match_score := v_match_score + 30;
+  END IF;
+
+  -- Calculate distance if both have location
+  IF v_user_record.location IS NOT NULL AND v_potential_match.location IS NOT NULL THEN
+    v_distance_km := ST_Distance(v_user_record.location, v_potential_match.location) / 1000;
+    IF v_distance_km < 100 THEN
+      v_match_score := v_match_score + 25;
+    ELSIF v_distance_km < 500 THEN
+      v_match_score := v_match_score + 15;
+    END IF;
+  END IF;
+
+  -- Create match attempt
+  v_match_id := gen_random_uuid();
+
+  INSERT INTO match_attempts (
+    id,
+    user1_id,
+    user2_id,
+    match_score,
+    distance_km,
+    language_match,
+    continent_match,
+    status,
+    created_at
+  ) VALUES (
+    v_match_id,
+    p_user_id,
+    v_potential_match.id,
+    v_match_score,
+    v_distance_km,
+    v_potential_match.language = v_user_record.language,
+    v_potential_match.continent = v_user_record.continent,
+    'pending',
+    now()
+  );
+
+  -- Update both users status
+  UPDATE waiting_users
+  SET
+    status = 'matched',
+    current_match_id = v_match_id,
+    updated_at = now()
+  WHERE id IN (p_user_id, v_potential_match.id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'match_id', v_match_id,
+    'partner_id', v_potential_match.id,
+    'match_score', v_match_score,
+    'distance_km', v_distance_km,
+    'requires_confirmation', true,
+    'shared_interests', to_jsonb(v_shared_interests),
+    'partner_info', jsonb_build_object(
+      'continent', v_potential_match.continent,
+      'country', v_potential_match.country,
+      'city', v_potential_match.city,
+      'language', v_potential_match.language
+    ),
+    'message', 'Match found, awaiting confirmation'
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', SQLERRM,
+    'message', 'Error finding match'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Confirm a match attempt, opening the chat once both users confirmed
+CREATE OR REPLACE FUNCTION confirm_bilateral_match_v2(
+  p_user_id uuid,
+  p_match_id uuid
+) RETURNS jsonb AS $$
+DECLARE
+  v_match_record match_attempts%ROWTYPE;
+  v_chat_id uuid;
+  v_partner_id uuid;
+  v_both_confirmed boolean := false;
+BEGIN
+  -- Get match record
+  SELECT * INTO v_match_record
+  FROM match_attempts 
+  WHERE id = p_match_id 
+    AND (user1_id = p_user_id OR user2_id = p_user_id)
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Match not found or expired',
+      'message', 'Invalid match ID'
+    );
+  END IF;
+
+  -- Determine partner ID
+  IF v_match_record.user1_id = p_user_id THEN
+    v_partner_id := v_match_record.user2_id;
+  ELSE
+    v_partner_id := v_match_record.user1_id;
+  END IF;
+
+  -- Update confirmation status
+  IF v_match_record.user1_id = p_user_id THEN
+    UPDATE match_attempts 
+    SET user1_confirmed = true
+    WHERE id = p_match_id;
+  ELSE
+    UPDATE match_attempts 
+    SET user2_confirmed = true
+    WHERE id = p_match_id;
+  END IF;
+
+  -- Check if both confirmed
+  SELECT user1_confirmed AND user2_confirmed INTO v_both_confirmed
+  FROM match_attempts 
+  WHERE id = p_match_id;
+
+  IF v_both_confirmed THEN
+    -- Create chat session
+    v_chat_id := gen_random_uuid();
+    
+    INSERT INTO chat_sessions (
+      chat_id,
+      user1_id,
+      user2_id,
+      status,
+      created_at,
+      user1_confirmed,
+      user2_confirmed
+    ) VALUES (
+      v_chat_id,
+      v_match_record.user1_id,
+      v_match_record.user2_id,
+      'active',
+      now(),
+      true,
+      true
+    );
+
+    -- Update match status
+    UPDATE match_attempts 
+    SET 
+      status = 'confirmed',
+      confirmed_at = now()
+    WHERE id = p_match_id;
+
+    -- Update users status
+    UPDATE waiting_users 
+    SET 
+      status = 'connected',
+      updated_at = now()
+    WHERE id IN (v_match_record.user1_id, v_match_record.user2_id);
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'both_confirmed', true,
+      'chat_id', v_chat_id,
+      'partner_id', v_partner_id,
+      'message', 'Match confirmed, chat active'
+    );
+  ELSE
+    RETURN jsonb_build_object(
+      'success', true,
+      'both_confirmed', false,
+      'message', 'Waiting for partner confirmation'
+    );
+  END IF;
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', SQLERRM,
+    'message', 'Error confirming match'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- End a chat and disconnect both users
+CREATE OR REPLACE FUNCTION end_chat_session(
+  p_user_id uuid,
+  p_chat_id uuid
+) RETURNS jsonb AS $$
+BEGIN
+  -- End the chat session
+  UPDATE chat_sessions 
+  SET 
+    status = 'ended',
+    ended_at = now()
+  WHERE chat_id = p_chat_id
+    AND (user1_id = p_user_id OR user2_id = p_user_id);
+
+  -- Update user status back to searching or disconnected
+  UPDATE waiting_users 
+  SET 
+    status = 'disconnected',
+    current_match_id = NULL,
+    updated_at = now()
+  WHERE id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Chat session ended'
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', SQLERRM,
+    'message', 'Failed to end chat session'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Refill a token bucket for the elapsed time and take one token
+CREATE OR REPLACE FUNCTION consume_message_token(
+  p_bucket text,
+  p_capacity integer,
+  p_refill_per_second numeric
+) RETURNS numeric AS $$
+DECLARE
+  v_tokens numeric;
+BEGIN
+  INSERT INTO message_rate_limits (bucket, tokens, updated_at)
+  VALUES (p_bucket, p_capacity, now())
+  ON CONFLICT (bucket) DO UPDATE
+    SET tokens = LEAST(
+          p_capacity,
+          message_rate_limits.tokens
+            + EXTRACT(EPOCH FROM (now() - message_rate_limits.updated_at)) * p_refill_per_second
+        ),
+        updated_at = now()
+  RETURNING tokens INTO v_tokens;
+
+  IF v_tokens < 1 THEN
+    RETURN (1 - v_tokens) / p_refill_per_second;
+  END IF;
+
+  UPDATE message_rate_limits SET tokens = tokens - 1 WHERE bucket = p_bucket;
+  RETURN 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reject inserts over the per-sender or per-chat rate
+CREATE OR REPLACE FUNCTION enforce_chat_message_rate_limit()
+RETURNS trigger AS $$
+DECLARE
+  v_wait numeric;
+  v_scope text;
+BEGIN
+  v_scope := 'sender';
+  v_wait := consume_message_token('sender:' || NEW.sender_id::text, 10, 1);
+
+  IF v_wait = 0 THEN
+    v_scope := 'chat';
+    v_wait := consume_message_token('chat:' || NEW.chat_id::text, 20, 2);
+  END IF;
+
+  IF v_wait > 0 THEN
+    RAISE EXCEPTION 'rate_limited'
+      USING ERRCODE = 'P0429',
+            DETAIL = jsonb_build_object('scope', v_scope, 'retry_after_ms', CEIL(v_wait * 1000))::text,
+            HINT = 'Slow down before sending more messages';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Mark messages sent by the partner as delivered or read
+CREATE OR REPLACE FUNCTION update_message_receipts(
+  p_user_id uuid,
+  p_chat_id uuid,
+  p_message_ids uuid[],
+  p_status text
+) RETURNS jsonb AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  IF p_status NOT IN ('delivered', 'read') THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'invalid_status',
+      'message', 'Receipt status must be delivered or read'
+    );
+  END IF;
+
+  -- Only participants of the chat can acknowledge its messages
+  IF NOT EXISTS (
+    SELECT 1 FROM chat_sessions
+    WHERE chat_id = p_chat_id
+      AND (user1_id = p_user_id OR user2_id = p_user_id)
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'not_participant',
+      'message', 'User is not part of this chat'
+    );
+  END IF;
+
+  UPDATE chat_messages
+  SET
+    delivered = true,
+    read_at = CASE WHEN p_status = 'read' THEN COALESCE(read_at, now()) ELSE read_at END
+  WHERE chat_id = p_chat_id
+    AND id = ANY(p_message_ids)
+    AND sender_id <> p_user_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'updated', v_updated
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', SQLERRM,
+    'message', 'Failed to update message receipts'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS chat_messages_rate_limit ON chat_messages;
+CREATE TRIGGER chat_messages_rate_limit
+  BEFORE INSERT ON chat_messages
+  FOR EACH ROW EXECUTE FUNCTION enforce_chat_message_rate_limit();
+
+-- Block the partner of the current chat
+CREATE OR REPLACE FUNCTION block_user(
+  p_user_id uuid,
+  p_blocked_user_id uuid
+) RETURNS jsonb AS $$
+DECLARE
+  v_blocker waiting_users%ROWTYPE;
+  v_blocked waiting_users%ROWTYPE;
+BEGIN
+  SELECT * INTO v_blocker FROM waiting_users WHERE id = p_user_id;
+  SELECT * INTO v_blocked FROM waiting_users WHERE id = p_blocked_user_id;
+
+  IF v_blocker.id IS NULL OR v_blocked.id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'User not found',
+      'message', 'Could not block user'
+    );
+  END IF;
+
+  INSERT INTO blocked_devices (
+    blocker_device_id,
+    blocked_device_id,
+    blocked_country,
+    blocked_language
+  ) VALUES (
+    v_blocker.device_id,
+    v_blocked.device_id,
+    COALESCE(v_blocked.country, 'Unknown'),
+    COALESCE(v_blocked.language, 'en')
+  ) ON CONFLICT (blocker_device_id, blocked_device_id) DO NOTHING;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'User blocked'
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', SQLERRM,
+    'message', 'Could not block user'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- List blocks created by a device
+CREATE OR REPLACE FUNCTION get_block_list(
+  p_device_id text
+) RETURNS jsonb AS $$
+DECLARE
+  v_blocks jsonb;
+BEGIN
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'country', blocked_country,
+    'language', blocked_language,
+    'created_at', created_at
+  ) ORDER BY created_at DESC), '[]'::jsonb)
+  INTO v_blocks
+  FROM blocked_devices
+  WHERE blocker_device_id = p_device_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'blocks', v_blocks
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', SQLERRM,
+    'blocks', '[]'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Clear every block created by a device
+CREATE OR REPLACE FUNCTION clear_block_list(
+  p_device_id text
+) RETURNS jsonb AS $$
+DECLARE
+  v_removed integer := 0;
+BEGIN
+  DELETE FROM blocked_devices WHERE blocker_device_id = p_device_id;
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'removed', v_removed,
+    'message', 'Block list cleared'
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', SQLERRM,
+    'message', 'Failed to clear block list'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Flag a device once enough distinct devices reported it recently
+CREATE OR REPLACE FUNCTION refresh_device_flag(
+  p_device_id text,
+  p_threshold integer DEFAULT 3,
+  p_window interval DEFAULT '7 days',
+  p_suspension interval DEFAULT '7 days'
+) RETURNS boolean AS $$
+DECLARE
+  v_report_count integer;
+  v_top_reason text;
+BEGIN
+  SELECT COUNT(DISTINCT reporter_device_id) INTO v_report_count
+  FROM user_reports
+  WHERE reported_device_id = p_device_id
+    AND status <> 'dismissed'
+    AND created_at > now() - p_window;
+
+  IF v_report_count < p_threshold THEN
+    RETURN false;
+  END IF;
+
+  SELECT reason INTO v_top_reason
+  FROM user_reports
+  WHERE reported_device_id = p_device_id
+    AND status <> 'dismissed'
+    AND created_at > now() - p_window
+  GROUP BY reason
+  ORDER BY COUNT(*) DESC
+  LIMIT 1;
+
+  INSERT INTO flagged_devices (device_id, report_count, reason, flagged_at, expires_at)
+  VALUES (p_device_id, v_report_count, v_top_reason, now(), now() + p_suspension)
+  ON CONFLICT (device_id) DO UPDATE SET
+    report_count = v_report_count,
+    reason = v_top_reason,
+    flagged_at = now(),
+    expires_at = now() + p_suspension;
+
+  -- Kick the flagged device out of the queue
+  UPDATE waiting_users
+  SET
+    status = 'disconnected',
+    is_active = false,
+    session_active = false,
+    updated_at = now()
+  WHERE device_id = p_device_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- File a report against the partner of a chat
+CREATE OR REPLACE FUNCTION report_user(
+  p_user_id uuid,
+  p_chat_id uuid,
+  p_reported_user_id uuid,
+  p_reason text,
+  p_details text DEFAULT NULL,
+  p_message_count integer DEFAULT 20
+) RETURNS jsonb AS $$
+DECLARE
+  v_reporter_device text;
+  v_reported_device text;
+  v_snapshot jsonb;
+  v_flagged boolean;
+BEGIN
+  -- Both users must belong to the reported chat
+  IF NOT EXISTS (
+    SELECT 1 FROM chat_sessions
+    WHERE chat_id = p_chat_id
+      AND ((user1_id = p_user_id AND user2_id = p_reported_user_id)
+        OR (user1_id = p_reported_user_id AND user2_id = p_user_id))
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Chat not found',
+      'message', 'You can only report your current chat partner'
+    );
+  END IF;
+
+  SELECT device_id INTO v_reporter_device FROM waiting_users WHERE id = p_user_id;
+  SELECT device_id INTO v_reported_device FROM waiting_users WHERE id = p_reported_user_id;
+
+  IF v_reporter_device IS NULL OR v_reported_device IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'User not found',
+      'message', 'Could not file report'
+    );
+  END IF;
+
+  -- Snapshot the last N messages server-side so the evidence can't be forged
+  SELECT COALESCE(jsonb_agg(m ORDER BY m.created_at), '[]'::jsonb) INTO v_snapshot
+  FROM (
+    SELECT id, sender_id, content, created_at
+    FROM chat_messages
+    WHERE chat_id = p_chat_id
+    ORDER BY created_at DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_message_count, 20), 0), 50)
+  ) m;
+
+  INSERT INTO user_reports (
+    chat_id,
+    reporter_user_id,
+    reporter_device_id,
+    reported_user_id,
+    reported_device_id,
+    reason,
+    details,
+    message_snapshot
+  ) VALUES (
+    p_chat_id,
+    p_user_id,
+    v_reporter_device,
+    p_reported_user_id,
+    v_reported_device,
+    p_reason,
+    left(p_details, 1000),
+    v_snapshot
+  ) ON CONFLICT (chat_id, reporter_device_id) DO NOTHING;
+
+  v_flagged := refresh_device_flag(v_reported_device);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'flagged', v_flagged,
+    'message', 'Report submitted'
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', SQLERRM,
+    'message', 'Could not file report'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Expire stale queue entries, sessions, match attempts, chats and rate-limit buckets
+CREATE OR REPLACE FUNCTION cleanup_inactive_sessions_v2()
+RETURNS jsonb AS $$
+DECLARE
+  v_settings cleanup_settings%ROWTYPE;
+  v_cleaned_users integer := 0;
+  v_cleaned_sessions integer := 0;
+  v_cleaned_matches integer := 0;
+  v_cleaned_chats integer := 0;
+  v_cleaned_buckets integer := 0;
+BEGIN
+  SELECT * INTO v_settings FROM cleanup_settings WHERE id = 1;
+  IF NOT FOUND THEN
+    v_settings.user_timeout := interval '60 seconds';
+    v_settings.session_timeout := interval '60 seconds';
+    v_settings.match_attempt_timeout := interval '2 minutes';
+    v_settings.rate_limit_bucket_ttl := interval '1 hour';
+  END IF;
+
+  -- Clean up inactive users (no heartbeat within user_timeout)
+  UPDATE waiting_users 
+  SET 
+    is_active = false,
+    session_active = false,
+    status = 'disconnected',
+    updated_at = now()
+  WHERE last_heartbeat < now() - v_settings.user_timeout
+    AND is_active = true;
+  
+  GET DIAGNOSTICS v_cleaned_users = ROW_COUNT;
+
+  -- Clean up inactive sessions
+  UPDATE user_sessions 
+  SET 
+    is_active = false,
+    disconnect_reason = 'timeout',
+    disconnected_at = now()
+  WHERE last_heartbeat < now() - v_settings.session_timeout
+    AND is_active = true;
+  
+  GET DIAGNOSTICS v_cleaned_sessions = ROW_COUNT;
+
+  -- Clean up expired match attempts
+  UPDATE match_attempts 
+  SET status = 'timeout'
+  WHERE created_at < now() - v_settings.match_attempt_timeout
+    AND status = 'pending';
+  
+  GET DIAGNOSTICS v_cleaned_matches = ROW_COUNT;
+
+  -- End chat sessions where one user is inactive
+  UPDATE chat_sessions 
+  SET 
+    status = 'ended',
+    ended_at = now()
+  WHERE status = 'active'
+    AND (
+      user1_id IN (SELECT id FROM waiting_users WHERE is_active = false)
+      OR user2_id IN (SELECT id FROM waiting_users WHERE is_active = false)
+    );
+
+  GET DIAGNOSTICS v_cleaned_chats = ROW_COUNT;
+
+  -- Buckets that have long been full again
+  DELETE FROM message_rate_limits
+  WHERE updated_at < now() - v_settings.rate_limit_bucket_ttl;
+
+  GET DIAGNOSTICS v_cleaned_buckets = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'cleaned_users', v_cleaned_users,
+    'cleaned_sessions', v_cleaned_sessions,
+    'cleaned_matches', v_cleaned_matches,
+    'cleaned_chats', v_cleaned_chats,
+    'cleaned_rate_limits', v_cleaned_buckets,
+    'timestamp', now()
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RAISE LOG 'cleanup_inactive_sessions_v2: Error during cleanup: %', SQLERRM;
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', SQLERRM,
+    'message', 'Cleanup failed'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Client RPCs
+GRANT EXECUTE ON FUNCTION join_waiting_queue_v2 TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION leave_waiting_queue_v2 TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION send_heartbeat_v2 TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_user_status TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_queue_statistics_v2 TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_best_match_v2 TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION confirm_bilateral_match_v2 TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION end_chat_session TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION update_message_receipts TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION block_user TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_block_list TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION clear_block_list TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION report_user TO anon, authenticated;
+
+-- Internal functions
+REVOKE EXECUTE ON FUNCTION consume_message_token FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_device_flag FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cleanup_inactive_sessions_v2 FROM PUBLIC, anon, authenticated;
+
+-- Schedule the cleanup, replacing any previous job of the same name
+DO $$
+BEGIN
+  PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'cleanup-inactive-sessions';
+  PERFORM cron.schedule('cleanup-inactive-sessions', '30 seconds', 'SELECT cleanup_inactive_sessions_v2()');
+END;
+$$;
@@ -0,0 +1,67 @@
+/*
+  # Shared message translations
+
+  1. New Functions
+    - `save_message_translation` - Merges one translation into `chat_messages.translated_content`
+
+  2. Notes
+    - `translated_content` maps a target language to the translated text, e.g. `{"fr": "Salut"}`
+    - Either participant can add a translation, so the partner and reloads reuse it
+      instead of calling the translation provider again
+*/
+
+-- Store the translation of a message for one target language
+CREATE OR REPLACE FUNCTION save_message_translation(
+  p_user_id uuid,
+  p_chat_id uuid,
+  p_message_id uuid,
+  p_language text,
+  p_translation text
+) RETURNS jsonb AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  IF p_language !~ '^[a-z]{2,3}(-[A-Za-z]{2,4})?$' OR p_translation IS NULL OR length(p_translation) > 5000 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'invalid_translation',
+      'message', 'Translation language or text is invalid'
+    );
+  END IF;
+
+  -- Only participants of the chat can annotate its messages
+  IF NOT EXISTS (
+    SELECT 1 FROM chat_sessions
+    WHERE chat_id = p_chat_id
+      AND (user1_id = p_user_id OR user2_id = p_user_id)
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'not_participant',
+      'message', 'User is not part of this chat'
+    );
+  END IF;
+
+  -- Merge so translations to other languages by the partner are kept
+  UPDATE chat_messages
+  SET translated_content = COALESCE(translated_content, '{}'::jsonb) || jsonb_build_object(p_language, p_translation)
+  WHERE id = p_message_id
+    AND chat_id = p_chat_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'updated', v_updated
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', SQLERRM,
+    'message', 'Failed to save translation'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION save_message_translation TO anon, authenticated;
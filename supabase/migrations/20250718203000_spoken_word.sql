@@ -0,0 +1,235 @@
+/*
+  # Voice messages
+
+  1. Changed Tables
+    - `chat_messages.kind` - `text` or `voice`, existing rows are text
+    - `chat_messages.attachment` - Recording of a voice message:
+      `{"path", "mime_type", "duration_ms", "waveform"}`
+
+  2. New Tables
+    - `chat_media_buckets` - Buckets holding chat media, objects stored under
+      `<chat_id>/<sender_id>/`
+    - `chat_media_deletions` - Ended chats whose media is still in storage
+
+  3. Storage
+    - Private `voice-messages` bucket, registered as chat media
+    - No storage policies: clients get signed URLs from the `chat-media` Edge Function,
+      which checks participation with `authorize_chat_media`
+
+  4. New Functions
+    - `authorize_chat_media` - Whether a user may upload or read a path while its chat is open,
+      given the device key the user registered when joining. Uploads only go to the folder
+      of the user, so a participant can't replace the files of the other one
+    - `queue_chat_media_deletion` - Trigger queueing the media of a chat once it has ended
+    - `request_chat_media_purge` - Calls the `purge-chat-media` Edge Function, which removes
+      queued media through the Storage API, every minute while the queue is not empty
+
+  5. Notes
+    - `waveform` holds peak levels between 0 and 1 computed by the sender, so the
+      player draws it without decoding the audio
+    - Signing URLs needs the storage service, the database only decides who gets one
+    - `request_chat_media_purge` reads `project_url` and `service_role_key` from Vault
+      and fails until both are stored there
+    - A chat whose media could not be removed keeps its row, with the error, and is retried
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'text';
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS attachment jsonb;
+
+ALTER TABLE chat_messages DROP CONSTRAINT IF EXISTS chat_messages_kind_check;
+ALTER TABLE chat_messages ADD CONSTRAINT chat_messages_kind_check
+  CHECK (kind IN ('text', 'voice'));
+
+-- A voice message points at a recording inside the folder of its sender in its own chat
+ALTER TABLE chat_messages DROP CONSTRAINT IF EXISTS chat_messages_attachment_check;
+ALTER TABLE chat_messages ADD CONSTRAINT chat_messages_attachment_check
+  CHECK (
+    kind = 'text'
+    OR (attachment ? 'path' AND attachment->>'path' LIKE chat_id::text || '/' || sender_id::text || '/%')
+  );
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'voice-messages',
+  'voice-messages',
+  false,
+  2097152, -- 2 MB, about two minutes of opus
+  ARRAY['audio/webm', 'audio/ogg', 'audio/mp4', 'audio/mpeg']
+)
+ON CONFLICT (id) DO UPDATE
+  SET public = EXCLUDED.public,
+      file_size_limit = EXCLUDED.file_size_limit,
+      allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Storage is reached through the Edge Functions only, which use the service role
+CREATE TABLE IF NOT EXISTS chat_media_buckets (
+  bucket_id text PRIMARY KEY REFERENCES storage.buckets(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS chat_media_deletions (
+  chat_id uuid PRIMARY KEY,
+  requested_at timestamptz NOT NULL DEFAULT now(),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_media_deletions_queue
+  ON chat_media_deletions(attempts, requested_at);
+
+-- Internal tables, no policies
+ALTER TABLE chat_media_buckets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_media_deletions ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO chat_media_buckets (bucket_id) VALUES ('voice-messages')
+ON CONFLICT (bucket_id) DO NOTHING;
+
+-- Before the device key and the action were required
+DROP FUNCTION IF EXISTS authorize_chat_media(uuid, text, text);
+DROP FUNCTION IF EXISTS authorize_chat_media(uuid, text, text, text);
+
+-- Check a path of a chat media bucket against the participants of its chat. Anyone can read
+-- the user ids of a chat, so the caller also proves it is the user with its device key.
+-- Both participants read the chat folder, each one only uploads to their own folder in it.
+CREATE OR REPLACE FUNCTION authorize_chat_media(
+  p_user_id uuid,
+  p_device_key text,
+  p_action text,
+  p_bucket text,
+  p_path text
+) RETURNS jsonb AS $$
+DECLARE
+  v_chat_id uuid;
+  v_sender_id uuid;
+BEGIN
+  IF p_action IS NULL OR p_action NOT IN ('upload', 'download') THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'invalid_action',
+      'message', 'Action must be upload or download'
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM device_keys
+    WHERE user_id = p_user_id
+      AND key_hash = encode(sha256(convert_to(p_device_key, 'UTF8')), 'hex')
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'invalid_device_key',
+      'message', 'Device key does not match this user'
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM chat_media_buckets WHERE bucket_id = p_bucket) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'invalid_bucket',
+      'message', 'Bucket does not hold chat media'
+    );
+  END IF;
+
+  -- One file directly inside the folder of a sender in the folder of the chat
+  IF p_path !~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/[A-Za-z0-9_-][A-Za-z0-9._-]*$' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'invalid_path',
+      'message', 'Path must be <chat_id>/<sender_id>/<file name>'
+    );
+  END IF;
+
+  v_chat_id := split_part(p_path, '/', 1)::uuid;
+  v_sender_id := split_part(p_path, '/', 2)::uuid;
+
+  IF p_action = 'upload' AND v_sender_id <> p_user_id THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'not_sender',
+      'message', 'Uploads go to the folder of the user only'
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM chat_sessions
+    WHERE chat_id = v_chat_id
+      AND (user1_id = p_user_id OR user2_id = p_user_id)
+      AND status <> 'ended'
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'not_participant',
+      'message', 'User is not part of this open chat'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'chat_id', v_chat_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The messages keep their attachment for the history, only the files go
+CREATE OR REPLACE FUNCTION queue_chat_media_deletion()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO chat_media_deletions (chat_id)
+  VALUES (NEW.chat_id)
+  ON CONFLICT (chat_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS chat_sessions_queue_media_deletion ON chat_sessions;
+CREATE TRIGGER chat_sessions_queue_media_deletion
+  AFTER UPDATE OF status ON chat_sessions
+  FOR EACH ROW
+  WHEN (NEW.status = 'ended' AND OLD.status IS DISTINCT FROM 'ended')
+  EXECUTE FUNCTION queue_chat_media_deletion();
+
+-- Returns the pg_net request id, or null when nothing is queued
+CREATE OR REPLACE FUNCTION request_chat_media_purge()
+RETURNS bigint AS $$
+DECLARE
+  v_project_url text;
+  v_service_role_key text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM chat_media_deletions) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT decrypted_secret INTO v_project_url
+  FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_service_role_key
+  FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF v_project_url IS NULL OR v_service_role_key IS NULL THEN
+    RAISE EXCEPTION 'request_chat_media_purge: project_url and service_role_key must be stored in Vault';
+  END IF;
+
+  RETURN net.http_post(
+    url := v_project_url || '/functions/v1/purge-chat-media',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_service_role_key
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal functions, authorize_chat_media is called by the chat-media Edge Function
+REVOKE EXECUTE ON FUNCTION authorize_chat_media FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION queue_chat_media_deletion FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION request_chat_media_purge FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION authorize_chat_media TO service_role;
+
+-- Schedule the purge, replacing any previous job of the same name
+DO $$
+BEGIN
+  PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'purge-chat-media';
+  PERFORM cron.schedule('purge-chat-media', '* * * * *', 'SELECT request_chat_media_purge()');
+END;
+$$;
@@ -0,0 +1,38 @@
+/*
+  # Image messages
+
+  1. Changed Tables
+    - `chat_messages.kind` - adds `image`
+    - `chat_messages.attachment` - Picture of an image message:
+      `{"path", "mime_type", "width", "height"}`
+
+  2. Storage
+    - Private `chat-images` bucket, registered in `chat_media_buckets` like the voice
+      messages: signed by the `chat-media` Edge Function for the participants of an open
+      chat, removed by `purge-chat-media` once the chat ends
+
+  3. Notes
+    - Clients re-encode every image before upload, which drops EXIF and GPS metadata.
+      The database can't check that, the bucket only narrows what can be stored
+    - `width` and `height` let the receiver reserve space before the image loads
+*/
+
+ALTER TABLE chat_messages DROP CONSTRAINT IF EXISTS chat_messages_kind_check;
+ALTER TABLE chat_messages ADD CONSTRAINT chat_messages_kind_check
+  CHECK (kind IN ('text', 'voice', 'image'));
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-images',
+  'chat-images',
+  false,
+  3145728, -- 3 MB, a 1600px JPEG is well under it
+  ARRAY['image/jpeg']
+)
+ON CONFLICT (id) DO UPDATE
+  SET public = EXCLUDED.public,
+      file_size_limit = EXCLUDED.file_size_limit,
+      allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+INSERT INTO chat_media_buckets (bucket_id) VALUES ('chat-images')
+ON CONFLICT (bucket_id) DO NOTHING;
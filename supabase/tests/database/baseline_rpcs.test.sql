@@ -0,0 +1,199 @@
+-- Every RPC the hooks call, run as `anon` against the migrated schema.
+-- Run with `npm run test:db` (supabase db reset, then supabase test db).
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(42);
+
+-- Responses are kept by step so each one can be checked after the calls
+CREATE TEMP TABLE responses (step text PRIMARY KEY, body jsonb) ON COMMIT DROP;
+GRANT ALL ON responses TO anon;
+
+SET LOCAL ROLE anon;
+
+-- Paris and Lyon, one shared interest
+INSERT INTO responses VALUES
+  ('join_a', join_waiting_queue_v2('device-a', 'Europe', 'France', 'Paris', 'fr', 48.8566, 2.3522, 'test', NULL, ARRAY['Music', 'music ', 'films'])),
+  ('join_b', join_waiting_queue_v2('device-b', 'Europe', 'France', 'Lyon', 'fr', 45.7640, 4.8357, 'test', NULL, ARRAY['music']));
+
+INSERT INTO responses VALUES
+  ('heartbeat', send_heartbeat_v2((SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join_a'), 90)),
+  ('status_a', check_user_status((SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join_a'))),
+  ('statistics', get_queue_statistics_v2());
+
+INSERT INTO responses VALUES
+  ('match', find_best_match_v2((SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join_a')));
+
+INSERT INTO responses VALUES
+  ('confirm_a', confirm_bilateral_match_v2(
+    (SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join_a'),
+    (SELECT (body->>'match_id')::uuid FROM responses WHERE step = 'match')
+  ));
+
+INSERT INTO responses VALUES
+  ('confirm_b', confirm_bilateral_match_v2(
+    (SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join_b'),
+    (SELECT (body->>'match_id')::uuid FROM responses WHERE step = 'match')
+  ));
+
+INSERT INTO responses
+SELECT 'chat', to_jsonb(c) FROM chat_sessions c
+WHERE chat_id = (SELECT (body->>'chat_id')::uuid FROM responses WHERE step = 'confirm_b');
+
+-- Messages are inserted straight into the table, like sendMessage does
+INSERT INTO chat_messages (chat_id, sender_id, client_id, content)
+SELECT (body->>'chat_id')::uuid, (body->>'partner_id')::uuid, 'client-1', 'Salut !'
+FROM responses WHERE step = 'confirm_b';
+
+INSERT INTO responses VALUES
+  ('receipts', update_message_receipts(
+    (SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join_b'),
+    (SELECT (body->>'chat_id')::uuid FROM responses WHERE step = 'confirm_b'),
+    ARRAY(SELECT id FROM chat_messages WHERE client_id = 'client-1'),
+    'read'
+  )),
+  ('receipts_own', update_message_receipts(
+    (SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join_a'),
+    (SELECT (body->>'chat_id')::uuid FROM responses WHERE step = 'confirm_b'),
+    ARRAY(SELECT id FROM chat_messages WHERE client_id = 'client-1'),
+    'read'
+  )),
+  ('receipts_outsider', update_message_receipts(
+    gen_random_uuid(),
+    (SELECT (body->>'chat_id')::uuid FROM responses WHERE step = 'confirm_b'),
+    ARRAY(SELECT id FROM chat_messages WHERE client_id = 'client-1'),
+    'read'
+  )),
+  ('translation', save_message_translation(
+    (SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join_b'),
+    (SELECT (body->>'chat_id')::uuid FROM responses WHERE step = 'confirm_b'),
+    (SELECT id FROM chat_messages WHERE client_id = 'client-1'),
+    'en',
+    'Hi!'
+  )),
+  ('report', report_user(
+    (SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join_b'),
+    (SELECT (body->>'chat_id')::uuid FROM responses WHERE step = 'confirm_b'),
+    (SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join_a'),
+    'spam',
+    'Test report'
+  )),
+  ('block', block_user(
+    (SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join_b'),
+    (SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join_a')
+  ));
+
+INSERT INTO responses VALUES ('block_list', get_block_list('device-b'));
+INSERT INTO responses VALUES ('clear_block_list', clear_block_list('device-b'));
+
+INSERT INTO responses VALUES
+  ('end_chat', end_chat_session(
+    (SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join_a'),
+    (SELECT (body->>'chat_id')::uuid FROM responses WHERE step = 'confirm_b')
+  ));
+
+INSERT INTO responses VALUES
+  ('leave', leave_waiting_queue_v2((SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join_b')));
+
+INSERT INTO responses VALUES
+  ('status_b', check_user_status((SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join_b')));
+
+RESET ROLE;
+
+-- Queue
+SELECT is((SELECT body->>'success' FROM responses WHERE step = 'join_a'), 'true', 'join_waiting_queue_v2 succeeds');
+SELECT ok((SELECT body ? 'session_id' AND body ? 'queue_position' AND body ? 'estimated_wait_seconds' FROM responses WHERE step = 'join_a'), 'join_waiting_queue_v2 returns the queue fields');
+SELECT ok(
+  (SELECT body->'interests' @> '["films", "music"]' AND jsonb_array_length(body->'interests') = 2 FROM responses WHERE step = 'join_a'),
+  'join_waiting_queue_v2 normalizes interests'
+);
+SELECT is((SELECT body->>'success' FROM responses WHERE step = 'join_b'), 'true', 'a second device joins the queue');
+SELECT ok(
+  (SELECT location IS NOT NULL FROM waiting_users WHERE device_id = 'device-a'),
+  'join_waiting_queue_v2 stores the location'
+);
+
+SELECT is((SELECT body->>'success' FROM responses WHERE step = 'heartbeat'), 'true', 'send_heartbeat_v2 succeeds');
+SELECT is((SELECT connection_quality FROM waiting_users WHERE device_id = 'device-a'), 90, 'send_heartbeat_v2 stores the connection quality');
+
+SELECT is((SELECT body->>'is_active' FROM responses WHERE step = 'status_a'), 'true', 'check_user_status reports a queued user as active');
+
+SELECT is((SELECT (body->>'total_waiting')::integer FROM responses WHERE step = 'statistics'), 2, 'get_queue_statistics_v2 counts both users');
+SELECT is((SELECT body->'by_language'->>'fr' FROM responses WHERE step = 'statistics'), '2', 'get_queue_statistics_v2 groups by language');
+SELECT is((SELECT body->'by_continent'->>'Europe' FROM responses WHERE step = 'statistics'), '2', 'get_queue_statistics_v2 groups by continent');
+
+-- Matching
+SELECT is((SELECT body->>'success' FROM responses WHERE step = 'match'), 'true', 'find_best_match_v2 finds a partner');
+SELECT is(
+  (SELECT body->>'partner_id' FROM responses WHERE step = 'match'),
+  (SELECT body->>'user_id' FROM responses WHERE step = 'join_b'),
+  'find_best_match_v2 pairs the two queued users'
+);
+SELECT is((SELECT body->'shared_interests' FROM responses WHERE step = 'match'), '["music"]'::jsonb, 'find_best_match_v2 reports shared interests');
+SELECT ok(
+  (SELECT (body->>'distance_km')::integer BETWEEN 380 AND 400 FROM responses WHERE step = 'match'),
+  'find_best_match_v2 computes the distance with PostGIS'
+);
+SELECT is(
+  (SELECT body->'partner_info' FROM responses WHERE step = 'match'),
+  '{"continent": "Europe", "country": "France", "city": "Lyon", "language": "fr"}'::jsonb,
+  'find_best_match_v2 returns the partner info'
+);
+
+SELECT is((SELECT body->>'success' FROM responses WHERE step = 'confirm_a'), 'true', 'confirm_bilateral_match_v2 accepts the first confirmation');
+SELECT is((SELECT body->>'both_confirmed' FROM responses WHERE step = 'confirm_a'), 'false', 'the first confirmation waits for the partner');
+SELECT is((SELECT body->>'both_confirmed' FROM responses WHERE step = 'confirm_b'), 'true', 'the second confirmation opens the chat');
+SELECT is((SELECT body->>'status' FROM responses WHERE step = 'chat'), 'active', 'confirm_bilateral_match_v2 creates an active chat');
+SELECT is(
+  (SELECT body->>'partner_id' FROM responses WHERE step = 'confirm_b'),
+  (SELECT body->>'user_id' FROM responses WHERE step = 'join_a'),
+  'confirm_bilateral_match_v2 returns the partner'
+);
+
+-- Chat
+SELECT is((SELECT count(*)::integer FROM chat_messages WHERE client_id = 'client-1'), 1, 'participants can insert messages');
+
+SELECT is((SELECT (body->>'updated')::integer FROM responses WHERE step = 'receipts'), 1, 'update_message_receipts marks the partner message');
+SELECT ok((SELECT read_at IS NOT NULL AND delivered FROM chat_messages WHERE client_id = 'client-1'), 'update_message_receipts stores the read receipt');
+SELECT is((SELECT (body->>'updated')::integer FROM responses WHERE step = 'receipts_own'), 0, 'update_message_receipts ignores own messages');
+SELECT is((SELECT body->>'error' FROM responses WHERE step = 'receipts_outsider'), 'not_participant', 'update_message_receipts refuses outsiders');
+
+SELECT is((SELECT (body->>'updated')::integer FROM responses WHERE step = 'translation'), 1, 'save_message_translation stores the translation');
+SELECT is(
+  (SELECT translated_content->>'en' FROM chat_messages WHERE client_id = 'client-1'),
+  'Hi!',
+  'save_message_translation keys the translation by language'
+);
+
+-- Moderation
+SELECT is((SELECT body->>'success' FROM responses WHERE step = 'report'), 'true', 'report_user files the report');
+SELECT is((SELECT body->>'flagged' FROM responses WHERE step = 'report'), 'false', 'a single report does not flag the device');
+SELECT is(
+  (SELECT jsonb_array_length(message_snapshot) FROM user_reports WHERE reporter_device_id = 'device-b'),
+  1,
+  'report_user snapshots the chat messages'
+);
+
+SELECT is((SELECT body->>'success' FROM responses WHERE step = 'block'), 'true', 'block_user blocks the partner');
+SELECT is((SELECT jsonb_array_length(body->'blocks') FROM responses WHERE step = 'block_list'), 1, 'get_block_list lists the block');
+SELECT is((SELECT body->'blocks'->0->>'country' FROM responses WHERE step = 'block_list'), 'France', 'get_block_list keeps the blocked country');
+SELECT is((SELECT (body->>'removed')::integer FROM responses WHERE step = 'clear_block_list'), 1, 'clear_block_list removes the block');
+
+-- Leaving
+SELECT is((SELECT body->>'success' FROM responses WHERE step = 'end_chat'), 'true', 'end_chat_session succeeds');
+SELECT is(
+  (SELECT status FROM chat_sessions WHERE chat_id = (SELECT (body->>'chat_id')::uuid FROM responses WHERE step = 'confirm_b')),
+  'ended',
+  'end_chat_session ends the chat'
+);
+SELECT is((SELECT body->>'success' FROM responses WHERE step = 'leave'), 'true', 'leave_waiting_queue_v2 succeeds');
+SELECT is((SELECT body->>'is_active' FROM responses WHERE step = 'status_b'), 'false', 'check_user_status reports a user who left as inactive');
+
+-- Internal functions stay out of reach of the client
+SELECT ok(NOT has_function_privilege('anon', 'consume_message_token(text, integer, numeric)', 'EXECUTE'), 'anon cannot call consume_message_token');
+SELECT ok(NOT has_function_privilege('anon', 'refresh_device_flag(text, integer, interval, interval)', 'EXECUTE'), 'anon cannot call refresh_device_flag');
+SELECT ok(NOT has_function_privilege('anon', 'cleanup_inactive_sessions_v2()', 'EXECUTE'), 'anon cannot call cleanup_inactive_sessions_v2');
+
+SELECT * FROM finish();
+ROLLBACK;
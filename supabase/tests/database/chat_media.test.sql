@@ -0,0 +1,168 @@
+-- Chat media is only signed for the participants of an open chat, who prove it with their device key,
+-- and queued for removal once it ends.
+-- Run with `npm run test:db` (supabase db reset, then supabase test db).
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(26);
+
+-- Users a, b and c joined with the device keys key-a, key-b and key-c
+INSERT INTO waiting_users (id, device_id) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'device-a'),
+  ('00000000-0000-0000-0000-00000000000b', 'device-b'),
+  ('00000000-0000-0000-0000-00000000000c', 'device-c');
+
+INSERT INTO device_keys (user_id, key_hash)
+SELECT id, encode(sha256(convert_to('key-' || right(id::text, 1), 'UTF8')), 'hex') FROM waiting_users;
+
+INSERT INTO chat_sessions (chat_id, user1_id, user2_id, status) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b', 'active'),
+  ('00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000c', 'ended');
+
+-- Access
+SELECT is(
+  authorize_chat_media('00000000-0000-0000-0000-00000000000b', 'key-b', 'upload', 'voice-messages', '00000000-0000-0000-0000-0000000000c1/00000000-0000-0000-0000-00000000000b/clip.webm')->>'success',
+  'true',
+  'a participant can upload to their folder of an open chat'
+);
+SELECT is(
+  authorize_chat_media('00000000-0000-0000-0000-00000000000a', 'key-a', 'download', 'voice-messages', '00000000-0000-0000-0000-0000000000c1/00000000-0000-0000-0000-00000000000b/clip.webm')->>'success',
+  'true',
+  'and the partner can download from it'
+);
+SELECT is(
+  authorize_chat_media('00000000-0000-0000-0000-00000000000a', 'key-a', 'upload', 'voice-messages', '00000000-0000-0000-0000-0000000000c1/00000000-0000-0000-0000-00000000000b/clip.webm')->>'error',
+  'not_sender',
+  'but cannot replace files in it'
+);
+SELECT is(
+  authorize_chat_media('00000000-0000-0000-0000-00000000000c', 'key-c', 'download', 'voice-messages', '00000000-0000-0000-0000-0000000000c1/00000000-0000-0000-0000-00000000000b/clip.webm')->>'error',
+  'not_participant',
+  'someone outside the chat cannot download'
+);
+SELECT is(
+  authorize_chat_media('00000000-0000-0000-0000-00000000000c', 'key-c', 'upload', 'voice-messages', '00000000-0000-0000-0000-0000000000c1/00000000-0000-0000-0000-00000000000c/clip.webm')->>'error',
+  'not_participant',
+  'or upload to their own folder in it'
+);
+SELECT is(
+  authorize_chat_media('00000000-0000-0000-0000-00000000000a', 'key-a', 'download', 'voice-messages', '00000000-0000-0000-0000-0000000000c2/00000000-0000-0000-0000-00000000000a/clip.webm')->>'error',
+  'not_participant',
+  'nobody can once the chat has ended'
+);
+SELECT is(
+  authorize_chat_media('00000000-0000-0000-0000-00000000000b', 'key-a', 'download', 'voice-messages', '00000000-0000-0000-0000-0000000000c1/00000000-0000-0000-0000-00000000000b/clip.webm')->>'error',
+  'invalid_device_key',
+  'a user id is not enough without its device key'
+);
+SELECT is(
+  authorize_chat_media('00000000-0000-0000-0000-00000000000b', NULL, 'download', 'voice-messages', '00000000-0000-0000-0000-0000000000c1/00000000-0000-0000-0000-00000000000b/clip.webm')->>'error',
+  'invalid_device_key',
+  'nor with no key at all'
+);
+SELECT is(
+  authorize_chat_media('00000000-0000-0000-0000-00000000000a', 'key-a', 'delete', 'voice-messages', '00000000-0000-0000-0000-0000000000c1/00000000-0000-0000-0000-00000000000a/clip.webm')->>'error',
+  'invalid_action',
+  'only uploads and downloads are signed'
+);
+SELECT is(
+  authorize_chat_media('00000000-0000-0000-0000-00000000000a', 'key-a', 'download', 'avatars', '00000000-0000-0000-0000-0000000000c1/00000000-0000-0000-0000-00000000000a/clip.webm')->>'error',
+  'invalid_bucket',
+  'only chat media buckets are signed'
+);
+SELECT is(
+  authorize_chat_media('00000000-0000-0000-0000-00000000000a', 'key-a', 'download', 'voice-messages', '00000000-0000-0000-0000-0000000000c1/00000000-0000-0000-0000-00000000000a/../../c2/clip.webm')->>'error',
+  'invalid_path',
+  'a path cannot leave the folder of its chat'
+);
+SELECT is(
+  authorize_chat_media('00000000-0000-0000-0000-00000000000a', 'key-a', 'upload', 'voice-messages', '00000000-0000-0000-0000-0000000000c1/clip.webm')->>'error',
+  'invalid_path',
+  'a path must name the folder of the sender'
+);
+SELECT is(
+  authorize_chat_media('00000000-0000-0000-0000-00000000000a', 'key-a', 'download', 'voice-messages', 'clip.webm')->>'error',
+  'invalid_path',
+  'and start with the chat id'
+);
+
+-- Clients go through the chat-media Edge Function
+SELECT ok(NOT has_function_privilege('anon', 'authorize_chat_media(uuid, text, text, text, text)', 'EXECUTE'), 'anon cannot call authorize_chat_media');
+SELECT ok(NOT has_function_privilege('anon', 'request_chat_media_purge()', 'EXECUTE'), 'anon cannot call request_chat_media_purge');
+SELECT is(
+  authorize_chat_media('00000000-0000-0000-0000-00000000000a', 'key-a', 'upload', 'chat-images', '00000000-0000-0000-0000-0000000000c1/00000000-0000-0000-0000-00000000000a/photo.jpg')->>'success',
+  'true',
+  'images share the same access'
+);
+SELECT is(
+  authorize_chat_media('00000000-0000-0000-0000-00000000000c', 'key-c', 'download', 'chat-images', '00000000-0000-0000-0000-0000000000c1/00000000-0000-0000-0000-00000000000a/photo.jpg')->>'error',
+  'not_participant',
+  'and are refused to someone outside the chat'
+);
+-- Messages point at the folder of their sender
+SELECT lives_ok(
+  $$INSERT INTO chat_messages (chat_id, sender_id, content, kind, attachment) VALUES (
+    '00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000a', '', 'voice',
+    '{"path": "00000000-0000-0000-0000-0000000000c1/00000000-0000-0000-0000-00000000000a/clip.webm"}'
+  )$$,
+  'a voice message points at a recording of its sender'
+);
+SELECT throws_ok(
+  $$INSERT INTO chat_messages (chat_id, sender_id, content, kind, attachment) VALUES (
+    '00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000a', '', 'voice',
+    '{"path": "00000000-0000-0000-0000-0000000000c1/00000000-0000-0000-0000-00000000000b/clip.webm"}'
+  )$$,
+  '23514',
+  'new row for relation "chat_messages" violates check constraint "chat_messages_attachment_check"',
+  'not at one of the partner'
+);
+
+SELECT is(
+  (SELECT count(*)::integer FROM pg_policies
+   WHERE schemaname = 'storage'
+     AND (concat(qual, with_check) LIKE '%voice-messages%' OR concat(qual, with_check) LIKE '%chat-images%')),
+  0,
+  'the chat media buckets have no storage policies'
+);
+
+-- Removal
+SELECT is(request_chat_media_purge(), NULL::bigint, 'nothing is requested while the queue is empty');
+
+UPDATE chat_sessions SET status = 'ended' WHERE chat_id = '00000000-0000-0000-0000-0000000000c1';
+
+SELECT is(
+  (SELECT count(*)::integer FROM chat_media_deletions WHERE chat_id = '00000000-0000-0000-0000-0000000000c1'),
+  1,
+  'ending a chat queues its media for removal'
+);
+
+SELECT throws_ok(
+  'SELECT request_chat_media_purge()',
+  'request_chat_media_purge: project_url and service_role_key must be stored in Vault',
+  'the purge fails loudly without its Vault secrets'
+);
+
+SELECT vault.create_secret('https://example.supabase.co', 'project_url');
+SELECT vault.create_secret('service-role-key', 'service_role_key');
+
+CREATE TEMP TABLE purge_requests ON COMMIT DROP AS SELECT request_chat_media_purge() AS id;
+
+SELECT is(
+  (SELECT url FROM net.http_request_queue WHERE id = (SELECT id FROM purge_requests)),
+  'https://example.supabase.co/functions/v1/purge-chat-media',
+  'the purge calls the purge-chat-media Edge Function'
+);
+SELECT is(
+  (SELECT headers->>'Authorization' FROM net.http_request_queue WHERE id = (SELECT id FROM purge_requests)),
+  'Bearer service-role-key',
+  'with the service role key'
+);
+SELECT is(
+  (SELECT schedule FROM cron.job WHERE jobname = 'purge-chat-media'),
+  '* * * * *',
+  'purge-chat-media runs every minute'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,132 @@
+-- The pg_cron job reaps stale queue entries, sessions, match attempts, chats and rate-limit buckets.
+-- Rows are backdated since now() doesn't move inside the test transaction.
+-- Run with `npm run test:db` (supabase db reset, then supabase test db).
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(19);
+
+CREATE TEMP TABLE runs (run integer PRIMARY KEY, body jsonb) ON COMMIT DROP;
+
+-- Runs the command of the scheduled job, so the test covers what pg_cron executes
+CREATE FUNCTION pg_temp.run_cleanup_job(p_run integer) RETURNS void AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  EXECUTE (SELECT command FROM cron.job WHERE jobname = 'cleanup-inactive-sessions') INTO v_result;
+  INSERT INTO runs VALUES (p_run, v_result);
+END;
+$$ LANGUAGE plpgsql;
+
+INSERT INTO waiting_users (id, device_id, last_heartbeat) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'stale-device', now() - interval '5 minutes'),
+  ('00000000-0000-0000-0000-00000000000b', 'fresh-device', now()),
+  ('00000000-0000-0000-0000-00000000000c', 'other-fresh-device', now()),
+  ('00000000-0000-0000-0000-00000000000d', 'slow-device', now() - interval '45 seconds');
+
+INSERT INTO user_sessions (user_id, session_token, last_heartbeat) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'stale-session', now() - interval '5 minutes'),
+  ('00000000-0000-0000-0000-00000000000b', 'fresh-session', now());
+
+INSERT INTO match_attempts (id, user1_id, user2_id, status, created_at) VALUES
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b', 'pending', now() - interval '5 minutes'),
+  ('00000000-0000-0000-0000-0000000000e2', '00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000c', 'pending', now()),
+  ('00000000-0000-0000-0000-0000000000e3', '00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000c', 'confirmed', now() - interval '5 minutes');
+
+INSERT INTO chat_sessions (chat_id, user1_id, user2_id, status) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b', 'active'),
+  ('00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000c', 'active');
+
+INSERT INTO message_rate_limits (bucket, tokens, updated_at) VALUES
+  ('sender:stale', 10, now() - interval '2 hours'),
+  ('sender:fresh', 3, now());
+
+SELECT pg_temp.run_cleanup_job(1);
+
+-- The job
+SELECT is(
+  (SELECT schedule FROM cron.job WHERE jobname = 'cleanup-inactive-sessions'),
+  '30 seconds',
+  'cleanup-inactive-sessions runs every 30 seconds'
+);
+SELECT is((SELECT body->>'success' FROM runs WHERE run = 1), 'true', 'the scheduled command succeeds');
+
+-- Queue entries
+SELECT is(
+  (SELECT status FROM waiting_users WHERE device_id = 'stale-device'),
+  'disconnected',
+  'a user without a heartbeat for user_timeout is disconnected'
+);
+SELECT is(
+  (SELECT is_active OR session_active FROM waiting_users WHERE device_id = 'stale-device'),
+  false,
+  'a disconnected user is no longer active'
+);
+SELECT is((SELECT is_active FROM waiting_users WHERE device_id = 'fresh-device'), true, 'a user with a recent heartbeat stays active');
+SELECT is((SELECT is_active FROM waiting_users WHERE device_id = 'slow-device'), true, 'a heartbeat within user_timeout is enough');
+
+-- Sessions
+SELECT is(
+  (SELECT disconnect_reason FROM user_sessions WHERE session_token = 'stale-session'),
+  'timeout',
+  'a stale session is closed with a timeout'
+);
+SELECT is((SELECT is_active FROM user_sessions WHERE session_token = 'fresh-session'), true, 'a fresh session stays active');
+
+-- Match attempts
+SELECT is(
+  (SELECT status FROM match_attempts WHERE id = '00000000-0000-0000-0000-0000000000e1'),
+  'timeout',
+  'a pending match attempt older than match_attempt_timeout times out'
+);
+SELECT is(
+  (SELECT status FROM match_attempts WHERE id = '00000000-0000-0000-0000-0000000000e2'),
+  'pending',
+  'a recent match attempt stays pending'
+);
+SELECT is(
+  (SELECT status FROM match_attempts WHERE id = '00000000-0000-0000-0000-0000000000e3'),
+  'confirmed',
+  'a confirmed match attempt is left alone'
+);
+
+-- Chats
+SELECT is(
+  (SELECT status FROM chat_sessions WHERE chat_id = '00000000-0000-0000-0000-0000000000c1'),
+  'ended',
+  'a chat with a disconnected user is ended'
+);
+SELECT ok(
+  (SELECT ended_at IS NOT NULL FROM chat_sessions WHERE chat_id = '00000000-0000-0000-0000-0000000000c1'),
+  'an ended chat records when it ended'
+);
+SELECT is(
+  (SELECT status FROM chat_sessions WHERE chat_id = '00000000-0000-0000-0000-0000000000c2'),
+  'active',
+  'a chat between two active users stays open'
+);
+
+-- Rate-limit buckets
+SELECT is((SELECT count(*)::integer FROM message_rate_limits WHERE bucket = 'sender:stale'), 0, 'an idle rate-limit bucket is dropped');
+SELECT is((SELECT count(*)::integer FROM message_rate_limits WHERE bucket = 'sender:fresh'), 1, 'a bucket in use is kept');
+
+SELECT is(
+  (SELECT body - 'success' - 'timestamp' FROM runs WHERE run = 1),
+  '{"cleaned_users": 1, "cleaned_sessions": 1, "cleaned_matches": 1, "cleaned_chats": 1, "cleaned_rate_limits": 1}'::jsonb,
+  'the job reports what it cleaned'
+);
+
+-- Timeouts come from cleanup_settings
+UPDATE cleanup_settings SET user_timeout = interval '30 seconds' WHERE id = 1;
+SELECT pg_temp.run_cleanup_job(2);
+
+SELECT is(
+  (SELECT status FROM waiting_users WHERE device_id = 'slow-device'),
+  'disconnected',
+  'a shorter user_timeout reaps users sooner'
+);
+SELECT is((SELECT (body->>'cleaned_users')::integer FROM runs WHERE run = 2), 1, 'only the newly stale user is cleaned');
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,66 @@
+-- A device registers its key when joining, and its queue entry then only answers to that key.
+-- Clients read the queue and chat tables, but can't create entries or rewrite chat participants.
+-- Run with `npm run test:db` (supabase db reset, then supabase test db).
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(14);
+
+CREATE TEMP TABLE responses (step text PRIMARY KEY, body jsonb) ON COMMIT DROP;
+GRANT ALL ON responses TO anon;
+
+SET LOCAL ROLE anon;
+
+INSERT INTO responses VALUES
+  ('join', join_waiting_queue_v2('device-a', p_device_key => repeat('a', 32)));
+
+INSERT INTO responses VALUES
+  ('rejoin', join_waiting_queue_v2('device-a', p_device_key => repeat('a', 32))),
+  ('other_key', join_waiting_queue_v2('device-a', p_device_key => repeat('b', 32))),
+  ('no_key', join_waiting_queue_v2('device-a')),
+  ('short_key', join_waiting_queue_v2('device-b', p_device_key => 'short'));
+
+INSERT INTO responses SELECT 'visible_keys', to_jsonb(count(*)) FROM device_keys;
+
+RESET ROLE;
+
+SELECT is((SELECT body->>'success' FROM responses WHERE step = 'join'), 'true', 'joining registers the device key');
+SELECT is(
+  (SELECT key_hash FROM device_keys WHERE user_id = (SELECT (body->>'user_id')::uuid FROM responses WHERE step = 'join')),
+  encode(sha256(convert_to(repeat('a', 32), 'UTF8')), 'hex'),
+  'only the hash of the key is stored'
+);
+SELECT is(
+  (SELECT body->>'user_id' FROM responses WHERE step = 'rejoin'),
+  (SELECT body->>'user_id' FROM responses WHERE step = 'join'),
+  'the same key rejoins the same entry'
+);
+SELECT is((SELECT body->>'error' FROM responses WHERE step = 'other_key'), 'device_key_mismatch', 'another key is refused');
+SELECT is((SELECT body->>'error' FROM responses WHERE step = 'no_key'), 'device_key_mismatch', 'so is no key');
+SELECT is((SELECT body->>'error' FROM responses WHERE step = 'short_key'), 'invalid_device_key', 'keys need 32 characters');
+SELECT is((SELECT body FROM responses WHERE step = 'visible_keys'), '0'::jsonb, 'clients cannot read device keys');
+
+-- Table access left to clients
+SELECT ok(NOT has_table_privilege('anon', 'waiting_users', 'INSERT'), 'clients cannot create queue entries');
+SELECT ok(NOT has_table_privilege('anon', 'waiting_users', 'DELETE'), 'or delete them');
+SELECT ok(
+  NOT has_column_privilege('anon', 'waiting_users', 'id', 'UPDATE') AND NOT has_column_privilege('anon', 'waiting_users', 'device_id', 'UPDATE'),
+  'or move them to another id or device'
+);
+SELECT ok(
+  has_column_privilege('anon', 'waiting_users', 'status', 'UPDATE') AND has_column_privilege('anon', 'waiting_users', 'last_heartbeat', 'UPDATE'),
+  'clients update their status and heartbeat'
+);
+SELECT ok(NOT has_table_privilege('anon', 'chat_sessions', 'INSERT'), 'clients cannot open chats');
+SELECT ok(
+  NOT has_column_privilege('anon', 'chat_sessions', 'user1_id', 'UPDATE') AND NOT has_column_privilege('anon', 'chat_sessions', 'user2_id', 'UPDATE'),
+  'or rewrite their participants'
+);
+SELECT ok(
+  has_column_privilege('anon', 'chat_sessions', 'status', 'UPDATE') AND has_column_privilege('anon', 'chat_sessions', 'ended_at', 'UPDATE'),
+  'clients end their chat'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,82 @@
+-- The baseline migration run over a database migrated with the files it replaced.
+-- The tables are first put back in the shape those files left them in, then the
+-- baseline is replayed from the statements the CLI recorded when applying it.
+-- Run with `npm run test:db` (supabase db reset, then supabase test db).
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(14);
+
+-- Columns, indexes and functions of the previous migrations
+ALTER TABLE waiting_users DROP COLUMN interests;
+ALTER TABLE chat_messages DROP COLUMN client_id, DROP COLUMN read_at;
+CREATE INDEX idx_user_sessions_token ON user_sessions(session_token);
+CREATE INDEX idx_waiting_users_device_id ON waiting_users(device_id);
+CREATE FUNCTION join_waiting_queue_v2(text, text, text, text, text, double precision, double precision, text, inet)
+RETURNS jsonb AS $$ SELECT '{}'::jsonb $$ LANGUAGE sql;
+
+-- Rows written before the upgrade
+INSERT INTO waiting_users (id, device_id) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'legacy-device');
+
+INSERT INTO chat_sessions (chat_id, user1_id, user2_id, status) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b', 'active');
+
+INSERT INTO chat_messages (chat_id, sender_id, content) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000a', 'Sent before the upgrade');
+
+SELECT hasnt_column('waiting_users', 'interests', 'waiting_users starts without interests');
+
+SELECT lives_ok(
+  $$
+    DO $upgrade$
+    DECLARE
+      v_statement text;
+    BEGIN
+      FOR v_statement IN
+        SELECT unnest(statements) FROM supabase_migrations.schema_migrations WHERE version = '20250718180000'
+      LOOP
+        EXECUTE v_statement;
+      END LOOP;
+    END $upgrade$
+  $$,
+  'the baseline applies over the previous schema'
+);
+
+SELECT has_column('waiting_users', 'interests', 'waiting_users gains interests');
+SELECT has_column('chat_messages', 'client_id', 'chat_messages gains client_id');
+SELECT has_column('chat_messages', 'read_at', 'chat_messages gains read_at');
+
+SELECT has_index('waiting_users', 'idx_waiting_users_interests', 'interests are indexed');
+SELECT has_index('chat_messages', 'idx_chat_messages_unread', 'unread messages are indexed');
+SELECT has_index('chat_messages', 'idx_chat_messages_client_id', 'client ids are indexed');
+
+SELECT hasnt_index('user_sessions', 'idx_user_sessions_token', 'the duplicate session token index is dropped');
+SELECT hasnt_index('waiting_users', 'idx_waiting_users_device_id', 'the duplicate device index is dropped');
+SELECT hasnt_function(
+  'join_waiting_queue_v2',
+  ARRAY['text', 'text', 'text', 'text', 'text', 'double precision', 'double precision', 'text', 'inet'],
+  'join_waiting_queue_v2 without interests is dropped'
+);
+
+SELECT is(
+  (SELECT interests FROM waiting_users WHERE device_id = 'legacy-device'),
+  '{}'::text[],
+  'existing queue entries get no interests'
+);
+
+SELECT is(
+  (SELECT count(*) FROM chat_messages WHERE content = 'Sent before the upgrade' AND client_id IS NULL AND read_at IS NULL),
+  1::bigint,
+  'existing messages are kept, unread'
+);
+
+SELECT is(
+  join_waiting_queue_v2('legacy-device', 'Europe', 'France', 'Paris', 'fr', 48.8566, 2.3522, 'test', NULL, ARRAY['music'])->'interests',
+  '["music"]'::jsonb,
+  'join_waiting_queue_v2 stores interests after the upgrade'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,69 @@
+-- The chat_messages trigger allows a burst of 10 messages per sender and 20 per chat.
+-- now() doesn't move inside the test transaction, so no bucket refills between inserts.
+-- Run with `npm run test:db` (supabase db reset, then supabase test db).
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+CREATE TEMP TABLE attempts (step text PRIMARY KEY, error jsonb) ON COMMIT DROP;
+
+-- Inserts one message and records the error it raised, null when it went through
+CREATE FUNCTION pg_temp.send(p_step text, p_chat_id uuid, p_sender_id uuid) RETURNS void AS $$
+DECLARE
+  v_error jsonb;
+  v_state text;
+  v_message text;
+  v_detail text;
+BEGIN
+  BEGIN
+    INSERT INTO chat_messages (chat_id, sender_id, content) VALUES (p_chat_id, p_sender_id, p_step);
+  EXCEPTION WHEN OTHERS THEN
+    GET STACKED DIAGNOSTICS v_state = RETURNED_SQLSTATE, v_message = MESSAGE_TEXT, v_detail = PG_EXCEPTION_DETAIL;
+    v_error := jsonb_build_object('code', v_state, 'message', v_message, 'detail', v_detail::jsonb);
+  END;
+  INSERT INTO attempts VALUES (p_step, v_error);
+END;
+$$ LANGUAGE plpgsql;
+
+INSERT INTO chat_sessions (chat_id, user1_id, user2_id, status) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b', 'active'),
+  ('00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000d', 'active');
+
+-- Per sender: 10 go through, the 11th is refused
+SELECT pg_temp.send('sender_' || n, '00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000a')
+FROM generate_series(1, 11) AS n;
+
+SELECT is((SELECT count(*)::integer FROM attempts WHERE step LIKE 'sender_%' AND error IS NULL), 10, 'a sender can send a burst of 10 messages');
+SELECT is((SELECT error->>'code' FROM attempts WHERE step = 'sender_11'), 'P0429', 'the 11th message raises P0429');
+SELECT is((SELECT error->>'message' FROM attempts WHERE step = 'sender_11'), 'rate_limited', 'with the rate_limited message');
+SELECT is((SELECT error->'detail'->>'scope' FROM attempts WHERE step = 'sender_11'), 'sender', 'the detail names the sender scope');
+SELECT is((SELECT (error->'detail'->>'retry_after_ms')::integer FROM attempts WHERE step = 'sender_11'), 1000, 'and when a token is back');
+SELECT is(
+  (SELECT count(*)::integer FROM chat_messages WHERE chat_id = '00000000-0000-0000-0000-0000000000c1'),
+  10,
+  'the refused message is not stored'
+);
+
+-- The partner still has their own budget
+SELECT pg_temp.send('partner', '00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000b');
+SELECT is((SELECT error FROM attempts WHERE step = 'partner'), NULL, 'one sender hitting the limit does not block the other');
+
+-- Per chat: three senders share 20 messages, the 21st is refused
+SELECT pg_temp.send('chat_' || n, '00000000-0000-0000-0000-0000000000c2', sender)
+FROM generate_series(1, 21) AS n,
+  LATERAL (SELECT (ARRAY[
+    '00000000-0000-0000-0000-00000000000c',
+    '00000000-0000-0000-0000-00000000000d',
+    '00000000-0000-0000-0000-00000000000e'
+  ])[(n - 1) % 3 + 1]::uuid AS sender) AS senders
+ORDER BY n;
+
+SELECT is((SELECT count(*)::integer FROM attempts WHERE step LIKE 'chat_%' AND error IS NULL), 20, 'a chat takes 20 messages in a burst');
+SELECT is((SELECT error->>'code' FROM attempts WHERE step = 'chat_21'), 'P0429', 'the 21st message raises P0429');
+SELECT is((SELECT error->'detail'->>'scope' FROM attempts WHERE step = 'chat_21'), 'chat', 'the detail names the chat scope');
+SELECT is((SELECT (error->'detail'->>'retry_after_ms')::integer FROM attempts WHERE step = 'chat_21'), 500, 'the chat bucket refills twice as fast');
+
+SELECT * FROM finish();
+ROLLBACK;